@@ -0,0 +1,393 @@
+import { createHash } from 'node:crypto';
+import { access, mkdir, readFile, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import { gunzipSync, gzipSync } from 'node:zlib';
+import type {
+  BackupExportResponse,
+  BackupImportMode,
+  BackupImportResponse,
+  MemoList,
+  MemoRecord,
+  MemoSummary
+} from '../src/shared/types';
+import { validateMemoDoc } from '../src/shared/validation';
+import { collectImageIds, replaceImageIds } from './doc';
+import {
+  contentImageId,
+  createMemo,
+  deleteMemo,
+  findImageFile,
+  imageFilename,
+  imagePathForId,
+  isContentImageId,
+  isValidImageId,
+  isValidMemoId,
+  listMemos,
+  loadMemo,
+  MEMO_RECORD_VERSION,
+  migrateMemoRecord,
+  parseImageFilename,
+  readStoredFile,
+  saveMemo,
+  setActiveMemo,
+  writeStoredFile
+} from './storage';
+import type { ImageFormat, StoragePaths } from './storage';
+
+type ArchiveEntry = {
+  path: string;
+  data: Buffer;
+};
+
+type ArchivedImage = {
+  id: string;
+  format: ImageFormat;
+  data: Buffer;
+  original: Buffer | undefined;
+};
+
+type ManifestFile = {
+  path: string;
+  size: number;
+  sha256: string;
+};
+
+export type BackupManifest = {
+  format: typeof BACKUP_FORMAT;
+  formatVersion: number;
+  appVersion: string;
+  memoRecordVersion: number;
+  createdAt: string;
+  files: ManifestFile[];
+};
+
+const BACKUP_FORMAT = 'always-memo-backup';
+const BACKUP_FORMAT_VERSION = 1;
+const MANIFEST_PATH = 'manifest.json';
+const INDEX_PATH = 'memos/index.json';
+const IMAGE_ENTRY_PREFIX = 'images/';
+const IMAGE_ORIGINAL_ENTRY_PREFIX = 'image-originals/';
+const MAX_ARCHIVE_BYTES = 1024 * 1024 * 1024;
+const TAR_BLOCK_SIZE = 512;
+
+/* ---------- tar (ustar) ---------- */
+
+function writeTarString(header: Buffer, value: string, offset: number, length: number): void {
+  header.write(value, offset, Math.min(Buffer.byteLength(value), length), 'utf8');
+}
+
+function writeTarOctal(header: Buffer, value: number, offset: number, length: number): void {
+  writeTarString(header, `${value.toString(8).padStart(length - 1, '0')}\0`, offset, length);
+}
+
+function tarHeader(entryPath: string, size: number, mtimeSeconds: number): Buffer {
+  const header = Buffer.alloc(TAR_BLOCK_SIZE);
+  writeTarString(header, entryPath, 0, 100);
+  writeTarOctal(header, 0o644, 100, 8);
+  writeTarOctal(header, 0, 108, 8);
+  writeTarOctal(header, 0, 116, 8);
+  writeTarOctal(header, size, 124, 12);
+  writeTarOctal(header, mtimeSeconds, 136, 12);
+  header.fill(' ', 148, 156);
+  writeTarString(header, '0', 156, 1);
+  writeTarString(header, 'ustar\u000000', 257, 8);
+
+  const checksum = header.reduce((total, byte) => total + byte, 0);
+  writeTarString(header, `${checksum.toString(8).padStart(6, '0')}\0 `, 148, 8);
+  return header;
+}
+
+function createTar(entries: ArchiveEntry[]): Buffer {
+  const mtimeSeconds = Math.floor(Date.now() / 1000);
+  const chunks: Buffer[] = [];
+
+  for (const entry of entries) {
+    chunks.push(tarHeader(entry.path, entry.data.length, mtimeSeconds), entry.data);
+    const padding = (TAR_BLOCK_SIZE - (entry.data.length % TAR_BLOCK_SIZE)) % TAR_BLOCK_SIZE;
+    chunks.push(Buffer.alloc(padding));
+  }
+
+  chunks.push(Buffer.alloc(TAR_BLOCK_SIZE * 2));
+  return Buffer.concat(chunks);
+}
+
+function parseTar(archive: Buffer): Map<string, Buffer> {
+  const entries = new Map<string, Buffer>();
+  let offset = 0;
+
+  while (offset + TAR_BLOCK_SIZE <= archive.length) {
+    const header = archive.subarray(offset, offset + TAR_BLOCK_SIZE);
+    if (header.every((byte) => byte === 0)) {
+      break;
+    }
+
+    const entryPath = header.subarray(0, 100).toString('utf8').replace(/\0.*$/s, '');
+    const size = Number.parseInt(header.subarray(124, 136).toString('utf8').replace(/\0.*$/s, '').trim() || '0', 8);
+    const typeFlag = header.subarray(156, 157).toString('utf8');
+    const dataStart = offset + TAR_BLOCK_SIZE;
+
+    if (!Number.isFinite(size) || size < 0 || dataStart + size > archive.length) {
+      throw new Error('Backup archive is truncated or damaged.');
+    }
+
+    if (typeFlag === '0' || typeFlag === '\0') {
+      entries.set(entryPath, archive.subarray(dataStart, dataStart + size));
+    }
+
+    offset = dataStart + Math.ceil(size / TAR_BLOCK_SIZE) * TAR_BLOCK_SIZE;
+  }
+
+  return entries;
+}
+
+/* ---------- manifest ---------- */
+
+function sha256(data: Buffer): string {
+  return createHash('sha256').update(data).digest('hex');
+}
+
+function jsonEntry(entryPath: string, value: unknown): ArchiveEntry {
+  return { path: entryPath, data: Buffer.from(JSON.stringify(value, null, 2), 'utf8') };
+}
+
+function isBackupManifest(value: unknown): value is BackupManifest {
+  if (!value || typeof value !== 'object') {
+    return false;
+  }
+
+  const candidate = value as Partial<BackupManifest>;
+  return (
+    candidate.format === BACKUP_FORMAT &&
+    typeof candidate.formatVersion === 'number' &&
+    typeof candidate.appVersion === 'string' &&
+    Array.isArray(candidate.files) &&
+    candidate.files.every(
+      (file) => typeof file?.path === 'string' && typeof file.size === 'number' && typeof file.sha256 === 'string'
+    )
+  );
+}
+
+function parseJsonEntry(entries: Map<string, Buffer>, entryPath: string): unknown {
+  const data = entries.get(entryPath);
+  if (!data) {
+    throw new Error(`Backup is missing ${entryPath}.`);
+  }
+
+  try {
+    return JSON.parse(data.toString('utf8'));
+  } catch {
+    throw new Error(`Backup entry ${entryPath} is not valid JSON.`);
+  }
+}
+
+/**
+ * Reads an archive and checks it against its manifest: supported format, every listed
+ * file present with a matching size and checksum, and nothing unlisted besides the manifest.
+ */
+export function readBackupArchive(archive: Buffer): { manifest: BackupManifest; entries: Map<string, Buffer> } {
+  let entries: Map<string, Buffer>;
+  try {
+    entries = parseTar(gunzipSync(archive, { maxOutputLength: MAX_ARCHIVE_BYTES }));
+  } catch (error) {
+    const detail = error instanceof Error ? error.message : 'unknown error';
+    throw new Error(`Not a readable Always Memo backup (${detail}).`);
+  }
+
+  const manifest = parseJsonEntry(entries, MANIFEST_PATH);
+  if (!isBackupManifest(manifest)) {
+    throw new Error('Not an Always Memo backup: the manifest is missing or invalid.');
+  }
+  if (manifest.formatVersion > BACKUP_FORMAT_VERSION) {
+    throw new Error(
+      `This backup was made by a newer version of Always Memo (${manifest.appVersion}). Update the app to import it.`
+    );
+  }
+
+  const listed = new Set(manifest.files.map((file) => file.path));
+  for (const file of manifest.files) {
+    const data = entries.get(file.path);
+    if (!data) {
+      throw new Error(`Backup is missing ${file.path}.`);
+    }
+    if (data.length !== file.size || sha256(data) !== file.sha256) {
+      throw new Error(`Backup entry ${file.path} failed its checksum; the archive is damaged.`);
+    }
+  }
+  for (const entryPath of entries.keys()) {
+    if (entryPath !== MANIFEST_PATH && !listed.has(entryPath)) {
+      throw new Error(`Backup contains an unexpected entry: ${entryPath}.`);
+    }
+  }
+
+  return { manifest, entries };
+}
+
+/* ---------- export / import ---------- */
+
+export async function exportBackup(
+  paths: StoragePaths,
+  filePath: string,
+  appVersion: string
+): Promise<BackupExportResponse> {
+  const list = await listMemos(paths);
+  const entries: ArchiveEntry[] = [jsonEntry(INDEX_PATH, list)];
+  const imageIds = new Set<string>();
+
+  for (const memo of list.memos) {
+    const record = await loadMemo(paths, memo.id);
+    collectImageIds(record.doc, imageIds);
+    entries.push(jsonEntry(`memos/${memo.id}.json`, record));
+  }
+
+  let imageCount = 0;
+  for (const imageId of [...imageIds].sort()) {
+    if (!isValidImageId(imageId)) {
+      continue;
+    }
+    // A reference to a missing image is already broken; the backup cannot fix it.
+    const image = await findImageFile(paths.imagesDirPath, imageId);
+    if (image) {
+      entries.push({ path: `${IMAGE_ENTRY_PREFIX}${path.basename(image.filePath)}`, data: await readStoredFile(paths, image.filePath) });
+      imageCount += 1;
+    }
+    const original = await findImageFile(paths.imageOriginalsDirPath, imageId);
+    if (original) {
+      entries.push({
+        path: `${IMAGE_ORIGINAL_ENTRY_PREFIX}${path.basename(original.filePath)}`,
+        data: await readStoredFile(paths, original.filePath)
+      });
+    }
+  }
+
+  const manifest: BackupManifest = {
+    format: BACKUP_FORMAT,
+    formatVersion: BACKUP_FORMAT_VERSION,
+    appVersion,
+    memoRecordVersion: MEMO_RECORD_VERSION,
+    createdAt: new Date().toISOString(),
+    files: entries.map((entry) => ({ path: entry.path, size: entry.data.length, sha256: sha256(entry.data) }))
+  };
+
+  const archive = createTar([jsonEntry(MANIFEST_PATH, manifest), ...entries]);
+  await writeFile(filePath, gzipSync(archive));
+
+  return {
+    filePath,
+    memoCount: list.memos.length,
+    imageCount
+  };
+}
+
+function readArchivedMemos(entries: Map<string, Buffer>): { list: MemoList; records: Map<string, MemoRecord> } {
+  const list = parseJsonEntry(entries, INDEX_PATH) as Partial<MemoList>;
+  if (!Array.isArray(list.memos) || list.memos.length === 0) {
+    throw new Error('Backup does not contain any memos.');
+  }
+
+  const records = new Map<string, MemoRecord>();
+  for (const memo of list.memos as MemoSummary[]) {
+    if (!memo || typeof memo.id !== 'string' || !isValidMemoId(memo.id) || typeof memo.title !== 'string') {
+      throw new Error('Backup memo list is invalid.');
+    }
+
+    // Checked like a save from the editor, so a bad memo stops the import before anything is written.
+    const record = migrateMemoRecord(parseJsonEntry(entries, `memos/${memo.id}.json`)) as Partial<MemoRecord>;
+    try {
+      records.set(memo.id, { ...(record as MemoRecord), doc: validateMemoDoc(record.doc) });
+    } catch {
+      throw new Error(`Backup memo "${memo.title}" is invalid.`);
+    }
+  }
+
+  return { list: list as MemoList, records };
+}
+
+/**
+ * Lists the archived images with the id each is stored under. A content id is recomputed from the
+ * bytes saveImage hashed, the original when one was kept, and an entry whose bytes do not match its
+ * name is stored under its real hash instead; `idMap` points the imported memos at those ids.
+ */
+function readArchivedImages(entries: Map<string, Buffer>): { images: ArchivedImage[]; idMap: Map<string, string> } {
+  const images: ArchivedImage[] = [];
+  const idMap = new Map<string, string>();
+
+  for (const [entryPath, data] of entries) {
+    const filename = entryPath.startsWith(IMAGE_ENTRY_PREFIX) ? entryPath.slice(IMAGE_ENTRY_PREFIX.length) : '';
+    const image = parseImageFilename(filename);
+    if (!image) {
+      continue;
+    }
+
+    const original = entries.get(`${IMAGE_ORIGINAL_ENTRY_PREFIX}${filename}`);
+    const id = isContentImageId(image.id) ? contentImageId(original ?? data) : image.id;
+    if (id !== image.id) {
+      idMap.set(image.id.toLowerCase(), id);
+    }
+    images.push({ id, format: image.format, data, original });
+  }
+
+  return { images, idMap };
+}
+
+async function fileExists(filePath: string): Promise<boolean> {
+  return access(filePath).then(
+    () => true,
+    () => false
+  );
+}
+
+/**
+ * Imports a backup archive. `merge` adds the archived memos next to the existing ones;
+ * `replace` removes the existing memos once every archived memo has been written.
+ */
+export async function importBackup(
+  paths: StoragePaths,
+  filePath: string,
+  mode: BackupImportMode
+): Promise<BackupImportResponse> {
+  const { entries } = readBackupArchive(await readFile(filePath));
+  const { list, records } = readArchivedMemos(entries);
+
+  const { images, idMap } = readArchivedImages(entries);
+  for (const image of images) {
+    const filename = imageFilename(image.id, image.format);
+    const imagePath = imagePathForId(paths, image.id, image.format);
+    if (!(await fileExists(imagePath))) {
+      await writeStoredFile(paths, imagePath, image.data);
+    }
+    const originalPath = path.join(paths.imageOriginalsDirPath, filename);
+    if (image.original && !(await fileExists(originalPath))) {
+      await mkdir(paths.imageOriginalsDirPath, { recursive: true });
+      await writeStoredFile(paths, originalPath, image.original);
+    }
+  }
+
+  const previous = await listMemos(paths);
+  const importedIds = new Map<string, string>();
+
+  for (const memo of list.memos) {
+    const created = await createMemo(paths, memo.title);
+    const { doc } = records.get(memo.id) as MemoRecord;
+    await saveMemo(paths, created.id, replaceImageIds(doc, idMap) ?? doc);
+    importedIds.set(memo.id, created.id);
+  }
+
+  if (mode === 'replace') {
+    for (const memo of previous.memos) {
+      await deleteMemo(paths, memo.id);
+    }
+  }
+
+  const activeId = importedIds.get(list.activeMemoId) ?? importedIds.values().next().value;
+  if (mode === 'replace' && activeId) {
+    await setActiveMemo(paths, activeId);
+  } else {
+    await setActiveMemo(paths, previous.activeMemoId);
+  }
+
+  return {
+    mode,
+    memoCount: list.memos.length,
+    imageCount: images.length
+  };
+}
@@ -0,0 +1,146 @@
+import { mkdir, readFile, rm } from 'node:fs/promises';
+import path from 'node:path';
+import { docFromPlainText, docPlainText } from './doc';
+import { docToMarkdown } from './markdown';
+import { appendToMemo, listMemos, loadMemo, saveMemo, writeFileAtomic } from './storage';
+import type { StoragePaths } from './storage';
+
+export type CliPrintFormat = 'text' | 'markdown';
+
+export type CliCommand =
+  | { kind: 'append'; text: string }
+  | { kind: 'appendFile'; filePath: string }
+  | { kind: 'print'; format: CliPrintFormat }
+  | { kind: 'clear' };
+
+/** How a command handed to the running instance went, written where the launching process polls for it. */
+export type CliResult = { ok: true; output: string } | { ok: false; message: string };
+
+export const CLI_USAGE =
+  'Usage: always-memo [--append <text> | --append-file <path> | --print[=text|markdown] | --clear]';
+
+const CLI_RESULTS_DIRNAME = 'cli-results';
+const CLI_REQUEST_ID_PATTERN = /^[a-f0-9-]{36}$/i;
+const CLI_RESULT_POLL_MS = 100;
+
+function splitFlag(arg: string): [string, string | undefined] {
+  const separator = arg.indexOf('=');
+  return arg.startsWith('--') && separator > 0 ? [arg.slice(0, separator), arg.slice(separator + 1)] : [arg, undefined];
+}
+
+/**
+ * Finds the memo command in a process argv. Arguments it does not know (the executable,
+ * the app path, Chromium switches) are ignored; relative file paths resolve against `cwd`.
+ */
+export function parseCliArgs(argv: string[], cwd = process.cwd()): CliCommand | null {
+  const commands: CliCommand[] = [];
+
+  for (let index = 0; index < argv.length; index += 1) {
+    const [flag, inlineValue] = splitFlag(argv[index]);
+    const takeValue = (): string => {
+      if (inlineValue !== undefined) {
+        return inlineValue;
+      }
+      const next = argv[index + 1];
+      if (next === undefined) {
+        throw new Error(`${flag} needs a value.\n${CLI_USAGE}`);
+      }
+      index += 1;
+      return next;
+    };
+
+    if (flag === '--append') {
+      commands.push({ kind: 'append', text: takeValue() });
+    } else if (flag === '--append-file') {
+      commands.push({ kind: 'appendFile', filePath: path.resolve(cwd, takeValue()) });
+    } else if (flag === '--print') {
+      const format = inlineValue ?? 'text';
+      if (format !== 'text' && format !== 'markdown') {
+        throw new Error(`Unknown print format "${format}".\n${CLI_USAGE}`);
+      }
+      commands.push({ kind: 'print', format });
+    } else if (flag === '--clear') {
+      commands.push({ kind: 'clear' });
+    }
+  }
+
+  if (commands.length > 1) {
+    throw new Error(`Use one command at a time.\n${CLI_USAGE}`);
+  }
+  return commands[0] ?? null;
+}
+
+/** Only printing is safe to run next to a running instance; everything else goes through it. */
+export function isReadOnlyCommand(command: CliCommand): boolean {
+  return command.kind === 'print';
+}
+
+/** Runs a command against the active memo and returns what should be written to stdout. */
+export async function runCliCommand(paths: StoragePaths, command: CliCommand): Promise<string> {
+  const { activeMemoId } = await listMemos(paths);
+
+  if (command.kind === 'print') {
+    const { doc } = await loadMemo(paths, activeMemoId);
+    const output = command.format === 'markdown' ? docToMarkdown(doc) : docPlainText(doc);
+    return output.endsWith('\n') ? output : `${output}\n`;
+  }
+
+  if (command.kind === 'clear') {
+    await saveMemo(paths, activeMemoId, docFromPlainText(''));
+    return '';
+  }
+
+  const text = command.kind === 'append' ? command.text : await readFile(command.filePath, 'utf8');
+  await appendToMemo(paths, activeMemoId, text);
+  return '';
+}
+
+export function isCliRequestId(value: unknown): value is string {
+  return typeof value === 'string' && CLI_REQUEST_ID_PATTERN.test(value);
+}
+
+export function cliResultPathFor(userDataPath: string, requestId: string): string {
+  if (!isCliRequestId(requestId)) {
+    throw new Error('Invalid command request id');
+  }
+  return path.join(userDataPath, CLI_RESULTS_DIRNAME, `${requestId}.json`);
+}
+
+export async function writeCliResult(filePath: string, result: CliResult): Promise<void> {
+  await mkdir(path.dirname(filePath), { recursive: true });
+  await writeFileAtomic(filePath, JSON.stringify(result));
+}
+
+function isCliResult(value: unknown): value is CliResult {
+  if (!value || typeof value !== 'object') {
+    return false;
+  }
+
+  const candidate = value as { ok?: unknown; output?: unknown; message?: unknown };
+  return candidate.ok === true ? typeof candidate.output === 'string' : typeof candidate.message === 'string';
+}
+
+/**
+ * Waits for the running instance to report a handed-over command, then removes the report.
+ * No report in time counts as a failure, since the command may not have run.
+ */
+export async function waitForCliResult(filePath: string, timeoutMs: number): Promise<CliResult> {
+  const deadline = Date.now() + timeoutMs;
+
+  while (Date.now() < deadline) {
+    let parsed: unknown = null;
+    try {
+      parsed = JSON.parse(await readFile(filePath, 'utf8'));
+    } catch {
+      // Not written yet.
+    }
+
+    if (isCliResult(parsed)) {
+      await rm(filePath, { force: true });
+      return parsed;
+    }
+    await new Promise((resolve) => setTimeout(resolve, CLI_RESULT_POLL_MS));
+  }
+
+  return { ok: false, message: 'The running Always Memo did not report whether the command succeeded.' };
+}
@@ -0,0 +1,122 @@
+import type { MemoDoc } from '../src/shared/types';
+
+const BLOCK_SEPARATOR = '\n';
+
+function collectText(node: MemoDoc, parts: string[]): void {
+  if (node.type === 'text') {
+    parts.push(node.text ?? '');
+    return;
+  }
+
+  if (node.type === 'hardBreak') {
+    parts.push('\n');
+    return;
+  }
+
+  const children = node.content ?? [];
+  children.forEach((child, index) => {
+    collectText(child, parts);
+    if (index < children.length - 1 && child.type !== 'text' && child.type !== 'hardBreak') {
+      parts.push(BLOCK_SEPARATOR);
+    }
+  });
+}
+
+export function docPlainText(doc: MemoDoc): string {
+  const parts: string[] = [];
+  collectText(doc, parts);
+  return parts.join('');
+}
+
+export function countNodes(doc: MemoDoc, type: string): number {
+  const own = doc.type === type ? 1 : 0;
+  return own + (doc.content ?? []).reduce((total, child) => total + countNodes(child, type), 0);
+}
+
+export function paragraphFromText(text: string): MemoDoc {
+  return text ? { type: 'paragraph', content: [{ type: 'text', text }] } : { type: 'paragraph' };
+}
+
+export function docFromPlainText(text: string): MemoDoc {
+  const lines = text.replace(/\r\n?/g, '\n').split('\n');
+  return {
+    type: 'doc',
+    content: lines.map(paragraphFromText)
+  };
+}
+
+export function imageIdFromSrc(src: string): string | null {
+  try {
+    const parsed = new URL(src);
+    if (parsed.protocol !== 'memo-image:') {
+      return null;
+    }
+    const id = parsed.host || parsed.pathname.replace(/^\/+/, '');
+    return id || null;
+  } catch {
+    return null;
+  }
+}
+
+export function collectImageIds(doc: MemoDoc, ids = new Set<string>()): Set<string> {
+  const src = doc.type === 'image' ? doc.attrs?.src : undefined;
+  if (typeof src === 'string') {
+    const id = imageIdFromSrc(src);
+    if (id) {
+      ids.add(id.toLowerCase());
+    }
+  }
+
+  for (const child of doc.content ?? []) {
+    collectImageIds(child, ids);
+  }
+  return ids;
+}
+
+/** Points image nodes at new ids from `idMap`. Returns null when no image was changed. */
+export function replaceImageIds(doc: MemoDoc, idMap: Map<string, string>): MemoDoc | null {
+  let changed = false;
+
+  const visit = (node: MemoDoc): MemoDoc => {
+    let next = node;
+    const src = node.type === 'image' ? node.attrs?.src : undefined;
+    const id = typeof src === 'string' ? imageIdFromSrc(src) : null;
+    const replacement = id ? idMap.get(id.toLowerCase()) : undefined;
+    if (replacement) {
+      next = { ...node, attrs: { ...node.attrs, src: `memo-image://${replacement}` } };
+      changed = true;
+    }
+    return next.content ? { ...next, content: next.content.map(visit) } : next;
+  };
+
+  const result = visit(doc);
+  return changed ? result : null;
+}
+
+export type DocTask = {
+  index: number;
+  checked: boolean;
+  text: string;
+  due: string | null;
+};
+
+/**
+ * Lists task items in document order. `index` counts every task item, nested ones
+ * included, so it matches the order the editor walks the same document in.
+ */
+export function collectTasks(doc: MemoDoc, tasks: DocTask[] = []): DocTask[] {
+  if (doc.type === 'taskItem') {
+    const [firstBlock] = doc.content ?? [];
+    tasks.push({
+      index: tasks.length,
+      checked: doc.attrs?.checked === true,
+      text: firstBlock ? docPlainText(firstBlock).trim() : '',
+      due: typeof doc.attrs?.due === 'string' ? doc.attrs.due : null
+    });
+  }
+
+  for (const child of doc.content ?? []) {
+    collectTasks(child, tasks);
+  }
+  return tasks;
+}
@@ -0,0 +1,216 @@
+import { createCipheriv, createDecipheriv, createHash, randomBytes, scrypt } from 'node:crypto';
+import { readFile } from 'node:fs/promises';
+
+/**
+ * The keys memo files are encrypted with. `writeKey` is null while encryption is off or
+ * locked; `readKeys` also holds keys being retired by a passphrase change. `resealPending`
+ * is set while files written before encryption was turned on may still be plaintext.
+ */
+export type StorageVault = {
+  enabled: boolean;
+  writeKey: Buffer | null;
+  readKeys: Buffer[];
+  resealPending: boolean;
+};
+
+type ScryptParams = {
+  N: number;
+  r: number;
+  p: number;
+};
+
+export type EncryptionConfig = {
+  version: 1;
+  salt: string;
+  scrypt: ScryptParams;
+  verifier: string;
+  // Keys from before an unfinished passphrase change, sealed with the current key.
+  retiredKeys: string[];
+  // Set until every file has been encrypted after turning encryption on, or while turning it off.
+  resealPending?: boolean;
+};
+
+export class StorageLockedError extends Error {
+  constructor() {
+    super('Memos are encrypted and locked. Unlock them with your passphrase first.');
+    this.name = 'StorageLockedError';
+  }
+}
+
+const SEALED_MAGIC = Buffer.from('AMEMOENC', 'latin1');
+const KEY_ID_LENGTH = 8;
+const IV_LENGTH = 12;
+const TAG_LENGTH = 16;
+const HEADER_LENGTH = SEALED_MAGIC.length + KEY_ID_LENGTH + IV_LENGTH + TAG_LENGTH;
+const KEY_LENGTH = 32;
+const SALT_LENGTH = 16;
+const DEFAULT_SCRYPT_PARAMS: ScryptParams = { N: 2 ** 15, r: 8, p: 1 };
+const VERIFIER_TEXT = 'always-memo vault';
+const MIN_PASSPHRASE_LENGTH = 8;
+
+const vaultWriteQueues = new WeakMap<StorageVault, Promise<unknown>>();
+
+export function createVault(): StorageVault {
+  return { enabled: false, writeKey: null, readKeys: [], resealPending: false };
+}
+
+export function isVaultLocked(vault: StorageVault): boolean {
+  return vault.enabled && vault.writeKey === null;
+}
+
+function keyId(key: Buffer): Buffer {
+  return createHash('sha256').update(key).digest().subarray(0, KEY_ID_LENGTH);
+}
+
+export function isSealed(data: Buffer): boolean {
+  return data.length >= HEADER_LENGTH && data.subarray(0, SEALED_MAGIC.length).equals(SEALED_MAGIC);
+}
+
+function sealWithKey(key: Buffer, data: Buffer): Buffer {
+  const iv = randomBytes(IV_LENGTH);
+  const cipher = createCipheriv('aes-256-gcm', key, iv);
+  const ciphertext = Buffer.concat([cipher.update(data), cipher.final()]);
+  return Buffer.concat([SEALED_MAGIC, keyId(key), iv, cipher.getAuthTag(), ciphertext]);
+}
+
+function openWithKeys(keys: Buffer[], data: Buffer): Buffer {
+  let offset = SEALED_MAGIC.length;
+  const id = data.subarray(offset, (offset += KEY_ID_LENGTH));
+  const iv = data.subarray(offset, (offset += IV_LENGTH));
+  const tag = data.subarray(offset, (offset += TAG_LENGTH));
+
+  const key = keys.find((candidate) => keyId(candidate).equals(id));
+  if (!key) {
+    throw new Error('This file was encrypted with a different passphrase.');
+  }
+
+  try {
+    const decipher = createDecipheriv('aes-256-gcm', key, iv);
+    decipher.setAuthTag(tag);
+    return Buffer.concat([decipher.update(data.subarray(offset)), decipher.final()]);
+  } catch {
+    throw new Error('This file could not be decrypted. It may be damaged or have been modified.');
+  }
+}
+
+/** Encrypts data for writing when encryption is on. Refuses to write plaintext while locked. */
+export function sealData(vault: StorageVault, data: Buffer): Buffer {
+  if (vault.writeKey) {
+    return sealWithKey(vault.writeKey, data);
+  }
+  if (vault.enabled) {
+    throw new StorageLockedError();
+  }
+  return data;
+}
+
+/**
+ * Decrypts data read from disk. Plaintext passes through while encryption is off or its
+ * files are still being re-encrypted; after that an unencrypted file was put there by someone else.
+ */
+export function openData(vault: StorageVault, data: Buffer): Buffer {
+  if (!isSealed(data)) {
+    if (!vault.enabled || vault.resealPending) {
+      return data;
+    }
+    if (isVaultLocked(vault)) {
+      throw new StorageLockedError();
+    }
+    throw new Error('This file is not encrypted although encryption is on. It may have been replaced by another app.');
+  }
+  if (vault.readKeys.length === 0) {
+    throw new StorageLockedError();
+  }
+  return openWithKeys(vault.readKeys, data);
+}
+
+/**
+ * Runs a write of sealed data, or a re-encryption of every file, one at a time per vault.
+ * Writers seal inside `task`, so a save can never land between a reseal's read and rewrite.
+ */
+export function withVaultWrites<T>(vault: StorageVault, task: () => Promise<T>): Promise<T> {
+  const run = (vaultWriteQueues.get(vault) ?? Promise.resolve()).then(task);
+  vaultWriteQueues.set(vault, run.catch(() => undefined));
+  return run;
+}
+
+export function validatePassphrase(passphrase: unknown): string {
+  if (typeof passphrase !== 'string' || passphrase.length < MIN_PASSPHRASE_LENGTH) {
+    throw new Error(`Passphrase must be at least ${MIN_PASSPHRASE_LENGTH} characters.`);
+  }
+  return passphrase;
+}
+
+function deriveKey(passphrase: string, salt: Buffer, params: ScryptParams): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const maxmem = 256 * params.N * params.r;
+    scrypt(passphrase, salt, KEY_LENGTH, { ...params, maxmem }, (error, key) => (error ? reject(error) : resolve(key)));
+  });
+}
+
+function isEncryptionConfig(value: unknown): value is EncryptionConfig {
+  if (!value || typeof value !== 'object') {
+    return false;
+  }
+  const config = value as Partial<EncryptionConfig>;
+  return (
+    config.version === 1 &&
+    typeof config.salt === 'string' &&
+    typeof config.verifier === 'string' &&
+    Array.isArray(config.retiredKeys) &&
+    config.retiredKeys.every((entry) => typeof entry === 'string') &&
+    (config.resealPending === undefined || typeof config.resealPending === 'boolean') &&
+    !!config.scrypt &&
+    [config.scrypt.N, config.scrypt.r, config.scrypt.p].every((param) => Number.isInteger(param) && param > 0)
+  );
+}
+
+/** Reads the encryption config; null means encryption is off. */
+export async function loadEncryptionConfig(filePath: string): Promise<EncryptionConfig | null> {
+  let raw: string;
+  try {
+    raw = await readFile(filePath, 'utf8');
+  } catch (error: unknown) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return null;
+    }
+    throw error;
+  }
+
+  const parsed: unknown = JSON.parse(raw);
+  if (!isEncryptionConfig(parsed)) {
+    throw new Error('The encryption settings file is invalid.');
+  }
+  return parsed;
+}
+
+/** Creates a config for a new passphrase. `retiredKeys` stay readable after unlocking with it. */
+export async function createEncryptionConfig(
+  passphrase: string,
+  retiredKeys: Buffer[] = [],
+  params: ScryptParams = DEFAULT_SCRYPT_PARAMS
+): Promise<{ config: EncryptionConfig; key: Buffer }> {
+  const salt = randomBytes(SALT_LENGTH);
+  const key = await deriveKey(validatePassphrase(passphrase), salt, params);
+  return {
+    key,
+    config: {
+      version: 1,
+      salt: salt.toString('base64'),
+      scrypt: params,
+      verifier: sealWithKey(key, Buffer.from(VERIFIER_TEXT)).toString('base64'),
+      retiredKeys: retiredKeys.map((retired) => sealWithKey(key, retired).toString('base64'))
+    }
+  };
+}
+
+/** Derives the key for `passphrase` and returns it with any retired keys, or throws on a wrong passphrase. */
+export async function unlockKeys(config: EncryptionConfig, passphrase: string): Promise<Buffer[]> {
+  const key = await deriveKey(passphrase, Buffer.from(config.salt, 'base64'), config.scrypt);
+  try {
+    openWithKeys([key], Buffer.from(config.verifier, 'base64'));
+  } catch {
+    throw new Error('Wrong passphrase.');
+  }
+  return [key, ...config.retiredKeys.map((retired) => openWithKeys([key], Buffer.from(retired, 'base64')))];
+}
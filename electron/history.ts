@@ -0,0 +1,289 @@
+import { mkdir, readdir, readFile, rm } from 'node:fs/promises';
+import path from 'node:path';
+import type { MemoDoc, MemoRecord, MemoSnapshot, MemoSnapshotSummary, SnapshotReason } from '../src/shared/types';
+import { countNodes, docPlainText } from './doc';
+import { openData, sealData, StorageLockedError, withVaultWrites } from './encryption';
+import type { StorageVault } from './encryption';
+import { writeFileAtomic } from './storage';
+
+type SnapshotFile = {
+  version: 1;
+  createdAt: string;
+  reason: SnapshotReason;
+  doc: MemoDoc;
+};
+
+type SnapshotEntry = {
+  id: string;
+  createdMs: number;
+  reason: SnapshotReason;
+};
+
+type RetentionRule = {
+  maxAgeMs: number;
+  bucketMs: number;
+};
+
+const MINUTE_MS = 60 * 1000;
+const HOUR_MS = 60 * MINUTE_MS;
+const DAY_MS = 24 * HOUR_MS;
+
+const SNAPSHOT_INTERVAL_MS = 15 * MINUTE_MS;
+const SIGNIFICANT_CHANGE_CHARS = 200;
+const SIGNIFICANT_SHRINK_MIN_CHARS = 20;
+const SIGNIFICANT_SHRINK_RATIO = 0.5;
+const IMAGE_WEIGHT_CHARS = 100;
+const PREVIEW_LENGTH = 80;
+const SNAPSHOT_ID_PATTERN = /^(\d+)-(periodic|significant_change|corrupt|before_restore)$/;
+
+// Everything from the last hour, then one per hour for a day, then one per day for a month.
+const RETENTION_RULES: RetentionRule[] = [
+  { maxAgeMs: HOUR_MS, bucketMs: 0 },
+  { maxAgeMs: DAY_MS, bucketMs: HOUR_MS },
+  { maxAgeMs: 30 * DAY_MS, bucketMs: DAY_MS }
+];
+// A corrupt memo's only copy and the content replaced by a restore are never thinned, just expired late.
+const KEPT_REASONS: SnapshotReason[] = ['corrupt', 'before_restore'];
+const KEPT_REASON_MAX_AGE_MS = 180 * DAY_MS;
+
+function parseSnapshotId(id: string): SnapshotEntry | null {
+  const match = id.match(SNAPSHOT_ID_PATTERN);
+  if (!match) {
+    return null;
+  }
+
+  return {
+    id,
+    createdMs: Number(match[1]),
+    reason: match[2] as SnapshotReason
+  };
+}
+
+function isSnapshotFile(value: unknown): value is SnapshotFile {
+  if (!value || typeof value !== 'object') {
+    return false;
+  }
+
+  const candidate = value as Partial<SnapshotFile>;
+  return candidate.version === 1 && typeof candidate.createdAt === 'string' && !!candidate.doc;
+}
+
+function docWeight(doc: MemoDoc): number {
+  return docPlainText(doc).length + countNodes(doc, 'image') * IMAGE_WEIGHT_CHARS;
+}
+
+function previewText(doc: MemoDoc): string {
+  return docPlainText(doc).replace(/\s+/g, ' ').trim().slice(0, PREVIEW_LENGTH);
+}
+
+function snapshotPath(historyDirPath: string, id: string): string {
+  if (!parseSnapshotId(id)) {
+    throw new Error('Invalid snapshot id');
+  }
+  return path.join(historyDirPath, `${id}.json`);
+}
+
+async function listSnapshotEntries(historyDirPath: string): Promise<SnapshotEntry[]> {
+  let files: string[];
+  try {
+    files = await readdir(historyDirPath);
+  } catch (error: unknown) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return [];
+    }
+    throw error;
+  }
+
+  return files
+    .filter((file) => file.endsWith('.json'))
+    .map((file) => parseSnapshotId(file.slice(0, -'.json'.length)))
+    .filter((entry): entry is SnapshotEntry => !!entry)
+    .sort((a, b) => b.createdMs - a.createdMs);
+}
+
+async function readSnapshotFile(historyDirPath: string, id: string, vault: StorageVault): Promise<SnapshotFile> {
+  const raw = openData(vault, await readFile(snapshotPath(historyDirPath, id))).toString('utf8');
+  const parsed: unknown = JSON.parse(raw);
+  if (!isSnapshotFile(parsed)) {
+    throw new Error('Invalid snapshot file');
+  }
+  return parsed;
+}
+
+export function isSignificantChange(previous: MemoDoc, next: MemoDoc): boolean {
+  const before = docWeight(previous);
+  const after = docWeight(next);
+  const delta = Math.abs(before - after);
+
+  if (delta >= SIGNIFICANT_CHANGE_CHARS) {
+    return true;
+  }
+
+  return after < before && delta >= SIGNIFICANT_SHRINK_MIN_CHARS && delta >= before * SIGNIFICANT_SHRINK_RATIO;
+}
+
+export function snapshotsToPrune<T extends { createdMs: number; reason: SnapshotReason }>(
+  snapshots: T[],
+  nowMs: number
+): T[] {
+  const keptBuckets = new Set<string>();
+  const pruned: T[] = [];
+
+  for (const snapshot of [...snapshots].sort((a, b) => b.createdMs - a.createdMs)) {
+    const age = nowMs - snapshot.createdMs;
+    if (KEPT_REASONS.includes(snapshot.reason)) {
+      if (age >= KEPT_REASON_MAX_AGE_MS) {
+        pruned.push(snapshot);
+      }
+      continue;
+    }
+
+    const ruleIndex = RETENTION_RULES.findIndex((rule) => age < rule.maxAgeMs);
+
+    if (ruleIndex < 0) {
+      pruned.push(snapshot);
+      continue;
+    }
+
+    const rule = RETENTION_RULES[ruleIndex];
+    if (rule.bucketMs === 0) {
+      continue;
+    }
+
+    const bucket = `${ruleIndex}:${Math.floor(snapshot.createdMs / rule.bucketMs)}`;
+    if (keptBuckets.has(bucket)) {
+      pruned.push(snapshot);
+      continue;
+    }
+    keptBuckets.add(bucket);
+  }
+
+  return pruned;
+}
+
+export async function writeSnapshot(
+  historyDirPath: string,
+  vault: StorageVault,
+  reason: SnapshotReason,
+  doc: MemoDoc,
+  createdAt = new Date().toISOString()
+): Promise<string> {
+  await mkdir(historyDirPath, { recursive: true });
+
+  const id = `${Date.parse(createdAt)}-${reason}`;
+  const payload: SnapshotFile = {
+    version: 1,
+    createdAt,
+    reason,
+    doc
+  };
+
+  const data = Buffer.from(JSON.stringify(payload, null, 2));
+  await withVaultWrites(vault, () => writeFileAtomic(snapshotPath(historyDirPath, id), sealData(vault, data)));
+  return id;
+}
+
+export async function pruneSnapshots(historyDirPath: string, nowMs = Date.now()): Promise<void> {
+  const entries = await listSnapshotEntries(historyDirPath);
+  for (const entry of snapshotsToPrune(entries, nowMs)) {
+    await rm(snapshotPath(historyDirPath, entry.id), { force: true });
+  }
+}
+
+/**
+ * Records snapshots around a save: the previous record before a significant change,
+ * and the new record when no snapshot was taken within the periodic interval.
+ */
+export async function recordSaveSnapshots(
+  historyDirPath: string,
+  vault: StorageVault,
+  previous: MemoRecord | null,
+  next: MemoRecord
+): Promise<void> {
+  const entries = await listSnapshotEntries(historyDirPath);
+  const snapshotTimes = new Set(entries.map((entry) => entry.createdMs));
+  const latestMs = entries[0]?.createdMs ?? 0;
+
+  if (previous && !snapshotTimes.has(Date.parse(previous.updatedAt)) && isSignificantChange(previous.doc, next.doc)) {
+    await writeSnapshot(historyDirPath, vault, 'significant_change', previous.doc, previous.updatedAt);
+  } else if (Date.parse(next.updatedAt) - latestMs >= SNAPSHOT_INTERVAL_MS) {
+    await writeSnapshot(historyDirPath, vault, 'periodic', next.doc, next.updatedAt);
+  }
+
+  await pruneSnapshots(historyDirPath, Date.parse(next.updatedAt));
+}
+
+export async function listSnapshots(historyDirPath: string, vault: StorageVault): Promise<MemoSnapshotSummary[]> {
+  const entries = await listSnapshotEntries(historyDirPath);
+  const summaries: MemoSnapshotSummary[] = [];
+
+  for (const entry of entries) {
+    try {
+      const snapshot = await readSnapshotFile(historyDirPath, entry.id, vault);
+      summaries.push({
+        id: entry.id,
+        createdAt: snapshot.createdAt,
+        reason: entry.reason,
+        preview: previewText(snapshot.doc)
+      });
+    } catch {
+      // Skip unreadable snapshots; they are pruned by age like any other.
+    }
+  }
+
+  return summaries;
+}
+
+export async function readSnapshotDocs(historyDirPath: string, vault: StorageVault): Promise<MemoDoc[]> {
+  const entries = await listSnapshotEntries(historyDirPath);
+  const docs: MemoDoc[] = [];
+
+  for (const entry of entries) {
+    docs.push((await readSnapshotFile(historyDirPath, entry.id, vault)).doc);
+  }
+  return docs;
+}
+
+/**
+ * Rewrites every snapshot whose document `rewrite` changes, keeping its id and creation
+ * time. `rewrite` returns null to leave a snapshot untouched. Returns how many changed.
+ */
+export async function rewriteSnapshotDocs(
+  historyDirPath: string,
+  vault: StorageVault,
+  rewrite: (doc: MemoDoc) => MemoDoc | null
+): Promise<number> {
+  let rewrittenCount = 0;
+
+  for (const entry of await listSnapshotEntries(historyDirPath)) {
+    const snapshot = await readSnapshotFile(historyDirPath, entry.id, vault);
+    const doc = rewrite(snapshot.doc);
+    if (doc) {
+      const payload = JSON.stringify({ ...snapshot, doc }, null, 2);
+      await withVaultWrites(vault, () =>
+        writeFileAtomic(snapshotPath(historyDirPath, entry.id), sealData(vault, Buffer.from(payload)))
+      );
+      rewrittenCount += 1;
+    }
+  }
+  return rewrittenCount;
+}
+
+export async function loadSnapshot(historyDirPath: string, id: string, vault: StorageVault): Promise<MemoSnapshot> {
+  const entry = parseSnapshotId(id);
+  if (!entry) {
+    throw new Error('Invalid snapshot id');
+  }
+
+  const snapshot = await readSnapshotFile(historyDirPath, id, vault).catch((error: unknown) => {
+    throw error instanceof StorageLockedError ? error : new Error('Snapshot not found');
+  });
+
+  return {
+    id,
+    createdAt: snapshot.createdAt,
+    reason: entry.reason,
+    preview: previewText(snapshot.doc),
+    doc: snapshot.doc
+  };
+}
@@ -0,0 +1,206 @@
+import { mkdir, readdir, rename, rm, stat, utimes } from 'node:fs/promises';
+import path from 'node:path';
+import type { MemoDoc } from '../src/shared/types';
+import { collectImageIds } from './doc';
+import { readSnapshotDocs } from './history';
+import {
+  findImageFile,
+  historyDirForMemo,
+  listMemos,
+  memoPathForId,
+  parseImageFilename,
+  readStoredFile
+} from './storage';
+import type { StoragePaths } from './storage';
+
+export type ImageCleanupResult = {
+  scannedCount: number;
+  referencedCount: number;
+  quarantinedCount: number;
+  quarantinedBytes: number;
+  deletedCount: number;
+  reclaimedBytes: number;
+};
+
+export type ImageCleanupOptions = {
+  nowMs?: number;
+  gracePeriodMs?: number;
+  quarantineRetentionMs?: number;
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DEFAULT_GRACE_PERIOD_MS = DAY_MS;
+const DEFAULT_QUARANTINE_RETENTION_MS = 7 * DAY_MS;
+const QUARANTINE_ORIGINALS_DIRNAME = 'originals';
+
+function imageIdFromFilename(filename: string): string | null {
+  return parseImageFilename(filename)?.id ?? null;
+}
+
+async function listImageFiles(dirPath: string): Promise<string[]> {
+  try {
+    return (await readdir(dirPath)).filter((file) => imageIdFromFilename(file) !== null);
+  } catch (error: unknown) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return [];
+    }
+    throw error;
+  }
+}
+
+function quarantineOriginalsDir(paths: StoragePaths): string {
+  return path.join(paths.imageQuarantineDirPath, QUARANTINE_ORIGINALS_DIRNAME);
+}
+
+/** Moves the full-size original of a downscaled image, if it has one, alongside the display copy. */
+async function moveOriginal(file: string, fromDirPath: string, toDirPath: string): Promise<number> {
+  const fromPath = path.join(fromDirPath, file);
+  try {
+    const info = await stat(fromPath);
+    await mkdir(toDirPath, { recursive: true });
+    await rename(fromPath, path.join(toDirPath, file));
+    return info.size;
+  } catch (error: unknown) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return 0;
+    }
+    throw error;
+  }
+}
+
+async function readMemoDoc(paths: StoragePaths, memoFilePath: string): Promise<MemoDoc | null> {
+  try {
+    const parsed = JSON.parse((await readStoredFile(paths, memoFilePath)).toString('utf8')) as { doc?: MemoDoc };
+    if (!parsed.doc) {
+      throw new Error('invalid memo schema');
+    }
+    return parsed.doc;
+  } catch (error: unknown) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return null;
+    }
+    // An unreadable memo may still reference images; refuse to sweep rather than guess.
+    throw new Error(`Image cleanup skipped: ${path.basename(memoFilePath)} could not be read.`);
+  }
+}
+
+async function collectReferencedImageIds(paths: StoragePaths): Promise<Set<string>> {
+  const ids = new Set<string>();
+  const { memos } = await listMemos(paths);
+
+  for (const memo of memos) {
+    const doc = await readMemoDoc(paths, memoPathForId(paths, memo.id));
+    if (doc) {
+      collectImageIds(doc, ids);
+    }
+
+    for (const snapshotDoc of await readSnapshotDocs(historyDirForMemo(paths, memo.id), paths.vault)) {
+      collectImageIds(snapshotDoc, ids);
+    }
+  }
+
+  return ids;
+}
+
+/**
+ * Moves an image file (and its original, if any) from the images directory into
+ * quarantine and returns how many bytes were moved.
+ */
+export async function quarantineImage(paths: StoragePaths, file: string, quarantinedAt = new Date()): Promise<number> {
+  const quarantinePath = path.join(paths.imageQuarantineDirPath, file);
+  const info = await stat(path.join(paths.imagesDirPath, file));
+
+  await mkdir(paths.imageQuarantineDirPath, { recursive: true });
+  await rename(path.join(paths.imagesDirPath, file), quarantinePath);
+  // The mtime records when the image entered quarantine, so retention starts from there.
+  await utimes(quarantinePath, quarantinedAt, quarantinedAt);
+  return info.size + (await moveOriginal(file, paths.imageOriginalsDirPath, quarantineOriginalsDir(paths)));
+}
+
+/**
+ * Moves images no memo or snapshot references into quarantine once they are older than
+ * the grace period, and deletes quarantined images once their retention has passed.
+ */
+export async function cleanUpUnusedImages(
+  paths: StoragePaths,
+  options: ImageCleanupOptions = {}
+): Promise<ImageCleanupResult> {
+  const nowMs = options.nowMs ?? Date.now();
+  const gracePeriodMs = options.gracePeriodMs ?? DEFAULT_GRACE_PERIOD_MS;
+  const quarantineRetentionMs = options.quarantineRetentionMs ?? DEFAULT_QUARANTINE_RETENTION_MS;
+
+  const referenced = await collectReferencedImageIds(paths);
+  const result: ImageCleanupResult = {
+    scannedCount: 0,
+    referencedCount: 0,
+    quarantinedCount: 0,
+    quarantinedBytes: 0,
+    deletedCount: 0,
+    reclaimedBytes: 0
+  };
+
+  await mkdir(paths.imageQuarantineDirPath, { recursive: true });
+
+  for (const file of await listImageFiles(paths.imagesDirPath)) {
+    const id = imageIdFromFilename(file) as string;
+    const filePath = path.join(paths.imagesDirPath, file);
+    result.scannedCount += 1;
+
+    if (referenced.has(id)) {
+      result.referencedCount += 1;
+      continue;
+    }
+
+    const info = await stat(filePath);
+    if (nowMs - info.mtimeMs < gracePeriodMs) {
+      continue;
+    }
+
+    result.quarantinedCount += 1;
+    result.quarantinedBytes += await quarantineImage(paths, file, new Date(nowMs));
+  }
+
+  for (const file of await listImageFiles(paths.imageQuarantineDirPath)) {
+    const id = imageIdFromFilename(file) as string;
+    const filePath = path.join(paths.imageQuarantineDirPath, file);
+
+    if (referenced.has(id)) {
+      await rename(filePath, path.join(paths.imagesDirPath, file));
+      await moveOriginal(file, quarantineOriginalsDir(paths), paths.imageOriginalsDirPath);
+      continue;
+    }
+
+    const info = await stat(filePath);
+    if (nowMs - info.mtimeMs < quarantineRetentionMs) {
+      continue;
+    }
+
+    const originalPath = path.join(quarantineOriginalsDir(paths), file);
+    const originalBytes = (await stat(originalPath).catch(() => null))?.size ?? 0;
+    await rm(filePath, { force: true });
+    await rm(originalPath, { force: true });
+    result.deletedCount += 1;
+    result.reclaimedBytes += info.size + originalBytes;
+  }
+
+  return result;
+}
+
+/**
+ * Moves a quarantined image back into the images directory, for references that
+ * reappear after a sweep (for example through undo). Returns false when there is none.
+ */
+export async function restoreQuarantinedImage(paths: StoragePaths, id: string): Promise<boolean> {
+  try {
+    const quarantined = await findImageFile(paths.imageQuarantineDirPath, id);
+    if (!quarantined) {
+      return false;
+    }
+    const file = path.basename(quarantined.filePath);
+    await rename(quarantined.filePath, path.join(paths.imagesDirPath, file));
+    await moveOriginal(file, quarantineOriginalsDir(paths), paths.imageOriginalsDirPath);
+    return true;
+  } catch {
+    return false;
+  }
+}
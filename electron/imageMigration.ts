@@ -0,0 +1,103 @@
+import { access, copyFile, mkdir, readdir } from 'node:fs/promises';
+import path from 'node:path';
+import { replaceImageIds } from './doc';
+import { rewriteSnapshotDocs } from './history';
+import { quarantineImage } from './imageGc';
+import {
+  contentImageId,
+  findImageFile,
+  historyDirForMemo,
+  imageFilename,
+  isContentImageId,
+  listMemos,
+  loadMemo,
+  parseImageFilename,
+  readStoredFile,
+  saveMemo
+} from './storage';
+import type { ImageFormat, StoragePaths } from './storage';
+
+export type ImageMigrationResult = {
+  imageCount: number;
+  memoCount: number;
+  snapshotCount: number;
+};
+
+type LegacyImageFile = {
+  file: string;
+  id: string;
+  format: ImageFormat;
+};
+
+async function fileExists(filePath: string): Promise<boolean> {
+  return access(filePath).then(
+    () => true,
+    () => false
+  );
+}
+
+async function listLegacyImageFiles(dirPath: string): Promise<LegacyImageFile[]> {
+  try {
+    return (await readdir(dirPath)).flatMap((file) => {
+      const image = parseImageFilename(file);
+      return image && !isContentImageId(image.id) ? [{ file, ...image }] : [];
+    });
+  } catch (error: unknown) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return [];
+    }
+    throw error;
+  }
+}
+
+/**
+ * Copies images saved under random UUIDs to the hash of their bytes and points every
+ * memo and snapshot at the new names. The old files go to quarantine only after every
+ * reference is rewritten, so an interrupted run breaks nothing and can be repeated.
+ */
+export async function migrateImagesToContentIds(paths: StoragePaths): Promise<ImageMigrationResult> {
+  const idMap = new Map<string, string>();
+  const legacyFiles = await listLegacyImageFiles(paths.imagesDirPath);
+
+  for (const { file, id: legacyId, format } of legacyFiles) {
+    const displayPath = path.join(paths.imagesDirPath, file);
+    const originalPath = path.join(paths.imageOriginalsDirPath, file);
+    const hasOriginal = await fileExists(originalPath);
+
+    // saveImage hashes the bytes it was given, which is the original when one was kept.
+    const id = contentImageId(await readStoredFile(paths, hasOriginal ? originalPath : displayPath));
+    const filename = imageFilename(id, format);
+
+    if (!(await findImageFile(paths.imagesDirPath, id))) {
+      await copyFile(displayPath, path.join(paths.imagesDirPath, filename));
+    }
+    if (hasOriginal && !(await fileExists(path.join(paths.imageOriginalsDirPath, filename)))) {
+      await mkdir(paths.imageOriginalsDirPath, { recursive: true });
+      await copyFile(originalPath, path.join(paths.imageOriginalsDirPath, filename));
+    }
+    idMap.set(legacyId, id);
+  }
+
+  const result: ImageMigrationResult = { imageCount: idMap.size, memoCount: 0, snapshotCount: 0 };
+  if (idMap.size === 0) {
+    return result;
+  }
+
+  const { memos } = await listMemos(paths);
+  for (const memo of memos) {
+    const record = await loadMemo(paths, memo.id);
+    const doc = replaceImageIds(record.doc, idMap);
+    if (doc) {
+      await saveMemo(paths, memo.id, doc);
+      result.memoCount += 1;
+    }
+    result.snapshotCount += await rewriteSnapshotDocs(historyDirForMemo(paths, memo.id), paths.vault, (snapshotDoc) =>
+      replaceImageIds(snapshotDoc, idMap)
+    );
+  }
+
+  for (const { file } of legacyFiles) {
+    await quarantineImage(paths, file);
+  }
+  return result;
+}
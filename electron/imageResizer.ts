@@ -0,0 +1,28 @@
+import { nativeImage } from 'electron';
+import type { ImageResizer } from './storage';
+
+const JPEG_QUALITY = 85;
+
+/**
+ * Downscales PNG and JPEG images with Electron's decoder. GIFs are left alone so
+ * animations keep playing, and WebP is left alone because it cannot be re-encoded here.
+ */
+export const resizeImageForDisplay: ImageResizer = (buffer, format, maxWidth) => {
+  if (format !== 'png' && format !== 'jpeg') {
+    return null;
+  }
+
+  const image = nativeImage.createFromBuffer(buffer);
+  const size = image.getSize();
+  if (image.isEmpty() || size.width <= maxWidth) {
+    return null;
+  }
+
+  const resized = image.resize({ width: maxWidth, quality: 'best' });
+  const resizedSize = resized.getSize();
+  return {
+    buffer: format === 'jpeg' ? resized.toJPEG(JPEG_QUALITY) : resized.toPNG(),
+    width: resizedSize.width,
+    height: resizedSize.height
+  };
+};
@@ -1,22 +1,173 @@
+import { randomUUID } from 'node:crypto';
+import { rmSync } from 'node:fs';
+import { mkdtemp, rm, writeFile } from 'node:fs/promises';
 import path from 'node:path';
-import { readFile } from 'node:fs/promises';
-import { app, BrowserWindow, clipboard, ipcMain, Menu, protocol, shell } from 'electron';
-import type { MenuItemConstructorOptions } from 'electron';
-import type { ImageSaveRequest, MemoDoc, TopState, UpdateStatusPayload } from '../src/shared/types';
-import { createStoragePaths, imagePathForId, loadMemo, saveImage, saveMemo } from './storage';
+import {
+  app,
+  BrowserWindow,
+  clipboard,
+  dialog,
+  globalShortcut,
+  ipcMain,
+  Menu,
+  nativeImage,
+  Notification,
+  powerMonitor,
+  protocol,
+  screen,
+  shell,
+  Tray
+} from 'electron';
+import type {
+  IpcMainEvent,
+  MenuItemConstructorOptions,
+  MessageBoxOptions,
+  OpenDialogOptions,
+  SaveDialogOptions
+} from 'electron';
+import type {
+  AppSettings,
+  BackupExportResponse,
+  BackupImportResponse,
+  FlushResult,
+  MarkdownExportResponse,
+  MarkdownImageMode,
+  MemoChangeEvent,
+  MemoDoc,
+  MemoSummary,
+  MemoTask,
+  MenuCommand,
+  OverlayState,
+  TaskRevealRequest,
+  TopState,
+  UpdateStatusPayload,
+  VaultStatus
+} from '../src/shared/types';
+import { validateFlushResult, validateIpcRequest } from '../src/shared/validation';
+import type { IpcChannel, IpcRequests } from '../src/shared/validation';
+import { exportBackup, importBackup } from './backup';
+import {
+  cliResultPathFor,
+  isCliRequestId,
+  isReadOnlyCommand,
+  parseCliArgs,
+  runCliCommand,
+  waitForCliResult,
+  writeCliResult
+} from './cli';
+import type { CliCommand, CliResult } from './cli';
+import { countNodes, imageIdFromSrc } from './doc';
+import { isVaultLocked } from './encryption';
+import { cleanUpUnusedImages, restoreQuarantinedImage } from './imageGc';
+import { migrateImagesToContentIds } from './imageMigration';
+import { resizeImageForDisplay } from './imageResizer';
+import { exportMemoToMarkdown, importMarkdownFile } from './markdown';
+import { collectDueReminders, listOpenTasks, parseDueDate, reminderStatePathFor } from './reminders';
+import { DEFAULT_SETTINGS, loadSettings, settingsPathFor, updateSettings, validateSettingsPatch } from './settings';
+import type { SaveImageOptions, StoragePaths } from './storage';
+import {
+  appendToMemo,
+  createMemo,
+  createStoragePaths,
+  deleteMemo,
+  findImageFile,
+  imageContentType,
+  isValidImageId,
+  listMemos,
+  listMemoSnapshots,
+  loadMemo,
+  loadMemoSnapshot,
+  readStoredFile,
+  renameMemo,
+  restoreMemoSnapshot,
+  saveImage,
+  saveMemo,
+  setActiveMemo
+} from './storage';
+import { watchStorage } from './storageWatcher';
+import { shouldHideDockIcon, shouldHideOnBlur } from './trayMode';
+import { downloadUpdate, launchUpdateInstaller, stageUpdate } from './updateInstaller';
+import { checkForUpdate, createReleaseSource, fetchReleases, findRelease } from './updates';
+import { changePassphrase, disableEncryption, enableEncryption, lockVault, openVault, unlockVault, vaultStatus } from './vault';
+import {
+  clampBoundsToDisplays,
+  clampOpacity,
+  loadNoteWindowStates,
+  loadWindowState,
+  noteWindowStatePathFor,
+  saveNoteWindowStates,
+  saveWindowState,
+  windowStatePathFor
+} from './windowState';
+import type { NoteWindowStates, WindowBounds, WindowState } from './windowState';
 
 let mainWindow: BrowserWindow | null = null;
+let captureWindow: BrowserWindow | null = null;
+let tray: Tray | null = null;
+// Sticky-note windows by the memo they show; a memo has at most one.
+const noteWindows = new Map<string, BrowserWindow>();
+const clickThroughWindows = new Set<BrowserWindow>();
+let quickCaptureAccelerator = '';
+let clickThroughAccelerator = '';
 const ZOOM_STEP = 0.1;
 const MIN_ZOOM = 0.5;
 const MAX_ZOOM = 2;
+const DEFAULT_WINDOW_WIDTH = 420;
+const DEFAULT_WINDOW_HEIGHT = 640;
+const WINDOW_STATE_SAVE_DELAY_MS = 500;
+const CAPTURE_WINDOW_WIDTH = 420;
+const CAPTURE_WINDOW_HEIGHT = 150;
+const NOTE_WINDOW_WIDTH = 300;
+const NOTE_WINDOW_HEIGHT = 320;
+const NOTE_WINDOW_OFFSET = 24;
 const UPDATE_STATUS_CHANNEL = 'app:updateStatus';
-const RELEASE_API_URL = 'https://api.github.com/repos/Accord33/always-memo/releases/latest';
+const UPDATE_PROGRESS_CHANNEL = 'app:updateProgress';
+const MENU_COMMAND_CHANNEL = 'app:menuCommand';
+const MEMO_CHANGED_CHANNEL = 'memo:changed';
+const SETTINGS_CHANGED_CHANNEL = 'settings:changed';
+const FLUSH_REQUEST_CHANNEL = 'app:flushRequest';
+const FLUSH_COMPLETE_CHANNEL = 'app:flushComplete';
+const FLUSH_TIMEOUT_MS = 5000;
+const VAULT_STATUS_CHANNEL = 'vault:status';
+const AUTO_LOCK_CHECK_MS = 30 * 1000;
+const TASK_REVEAL_CHANNEL = 'tasks:reveal';
+const TOP_STATE_CHANNEL = 'window:topState';
+const OVERLAY_STATE_CHANNEL = 'window:overlayState';
+const TRAY_ICON_SIZE = 18;
+const REMINDER_CHECK_MS = 30 * 1000;
+const RELEASES_API_URL = 'https://api.github.com/repos/Accord33/always-memo/releases?per_page=20';
+const UPDATE_CHECK_INTERVAL_MS = 6 * 60 * 60 * 1000;
+// Long enough for the running instance to flush its editors first.
+const FORWARDED_COMMAND_TIMEOUT_MS = 30 * 1000;
 const RELEASE_URL_PATTERN = /^https:\/\/github\.com\/Accord33\/always-memo\/releases\/tag\/.+/;
 
+let isQuitting = false;
+let settings: AppSettings = { ...DEFAULT_SETTINGS };
+let windowStateFilePath: string | null = null;
+let savedWindowState: WindowState | null = null;
+let windowStateTimer: ReturnType<typeof setTimeout> | null = null;
+let noteWindowStateFilePath: string | null = null;
+let noteWindowStates: NoteWindowStates = {};
+let noteWindowStateTimer: ReturnType<typeof setTimeout> | null = null;
+let storageServicesStarted = false;
+// Dialogs take focus from the window without the user leaving the app, so hide-on-blur waits for them.
+let openDialogCount = 0;
+// Decrypted copies of encrypted images opened in another app; removed on lock and quit.
+let openedImagesDirPath: string | null = null;
+// Shown notifications are kept referenced so their click handlers survive garbage collection.
+const taskNotifications = new Set<Notification>();
+
 let latestUpdateStatus: UpdateStatusPayload = {
   state: 'idle',
   currentVersion: app.getVersion()
 };
+let updateCheck: Promise<unknown> = Promise.resolve();
+let updateDownload: Promise<UpdateStatusPayload> | null = null;
+// The unpacked app bundle of a verified download, swapped in when the app quits to restart.
+let stagedUpdateAppPath: string | null = null;
+let restartToUpdate = false;
+// The environment variable points update checks at a stand-in server for testing.
+const releaseSource = createReleaseSource(process.env.ALWAYS_MEMO_RELEASES_URL || RELEASES_API_URL);
 
 protocol.registerSchemesAsPrivileged([
   {
@@ -27,283 +178,1477 @@ protocol.registerSchemesAsPrivileged([
       supportFetchAPI: true,
       stream: true
     }
-  }
-]);
+  }
+]);
+
+/** Every window showing the editor: the main window and the sticky notes. */
+function editorWindows(): BrowserWindow[] {
+  return [mainWindow, ...noteWindows.values()].filter(
+    (window): window is BrowserWindow => !!window && !window.isDestroyed()
+  );
+}
+
+/** Sends to every editor window, except the one the change came from when `except` is given. */
+function broadcast(channel: string, payload: unknown, except?: BrowserWindow): void {
+  for (const window of editorWindows()) {
+    if (window !== except) {
+      window.webContents.send(channel, payload);
+    }
+  }
+}
+
+/** The editor window in front, for menu items that act on one window; the main window otherwise. */
+function focusedEditorWindow(): BrowserWindow | null {
+  const focused = BrowserWindow.getFocusedWindow();
+  return focused && editorWindows().includes(focused) ? focused : mainWindow;
+}
+
+function getTopState(window: BrowserWindow | null): TopState {
+  return {
+    alwaysOnTop: !!window?.isAlwaysOnTop()
+  };
+}
+
+function setAlwaysOnTop(window: BrowserWindow, alwaysOnTop: boolean): TopState {
+  window.setAlwaysOnTop(alwaysOnTop);
+  scheduleStateSave(window);
+  // The menus and preferences can change it too, so the toolbar and the tray menu are told about every change.
+  window.webContents.send(TOP_STATE_CHANNEL, { alwaysOnTop });
+  refreshTrayMenu();
+  return { alwaysOnTop };
+}
+
+function toggleAlwaysOnTop(window: BrowserWindow | null): TopState {
+  return window ? setAlwaysOnTop(window, !window.isAlwaysOnTop()) : { alwaysOnTop: false };
+}
+
+function getOverlayState(window: BrowserWindow | null): OverlayState {
+  return {
+    opacity: window?.getOpacity() ?? 1,
+    clickThrough: !!window && clickThroughWindows.has(window)
+  };
+}
+
+function pushOverlayState(window: BrowserWindow): OverlayState {
+  const state = getOverlayState(window);
+  window.webContents.send(OVERLAY_STATE_CHANNEL, state);
+  refreshTrayMenu();
+  return state;
+}
+
+function setWindowOpacity(window: BrowserWindow, opacity: number): OverlayState {
+  window.setOpacity(clampOpacity(opacity));
+  scheduleStateSave(window);
+  return pushOverlayState(window);
+}
+
+/**
+ * Lets clicks pass through a window to the app underneath. It is only turned on once
+ * the global shortcut that turns it off again has been registered.
+ */
+function setClickThrough(window: BrowserWindow, enabled: boolean): OverlayState {
+  if (enabled && !clickThroughAccelerator && !registerClickThroughShortcut(settings.clickThroughShortcut)) {
+    throw new Error(
+      settings.clickThroughShortcut
+        ? `Click-through was not turned on because the shortcut ${settings.clickThroughShortcut} could not be ` +
+          'registered. Choose another one in Preferences.'
+        : 'Set a click-through shortcut in Preferences first, so click-through can be turned off again.'
+    );
+  }
+
+  if (enabled) {
+    clickThroughWindows.add(window);
+  } else {
+    clickThroughWindows.delete(window);
+  }
+  if (clickThroughWindows.size === 0) {
+    unregisterClickThroughShortcut();
+  }
+
+  window.setIgnoreMouseEvents(enabled);
+  scheduleStateSave(window);
+  return pushOverlayState(window);
+}
+
+function toggleClickThrough(window: BrowserWindow | null): void {
+  if (!window) {
+    return;
+  }
+
+  try {
+    setClickThrough(window, !clickThroughWindows.has(window));
+  } catch (error) {
+    dialog.showErrorBox('Click-through is off', error instanceof Error ? error.message : 'Unknown error');
+  }
+}
+
+/** The shortcut turns click-through off everywhere, since no window can be clicked to pick one. */
+function clearClickThrough(): void {
+  for (const window of [...clickThroughWindows]) {
+    setClickThrough(window, false);
+  }
+}
+
+function forgetClickThrough(window: BrowserWindow): void {
+  clickThroughWindows.delete(window);
+  if (clickThroughWindows.size === 0) {
+    unregisterClickThroughShortcut();
+  }
+}
+
+function currentWindowState(window: BrowserWindow): WindowState {
+  const bounds = window.getNormalBounds();
+  return {
+    bounds,
+    displayId: screen.getDisplayMatching(bounds).id,
+    zoomFactor: window.webContents.getZoomFactor(),
+    alwaysOnTop: window.isAlwaysOnTop(),
+    opacity: window.getOpacity(),
+    clickThrough: clickThroughWindows.has(window)
+  };
+}
+
+function persistWindowState(): void {
+  if (windowStateTimer) {
+    clearTimeout(windowStateTimer);
+    windowStateTimer = null;
+  }
+  if (!mainWindow || mainWindow.isDestroyed() || !windowStateFilePath) {
+    return;
+  }
+
+  savedWindowState = currentWindowState(mainWindow);
+  void saveWindowState(windowStateFilePath, savedWindowState).catch(() => undefined);
+}
+
+function scheduleWindowStateSave(): void {
+  if (windowStateTimer) {
+    clearTimeout(windowStateTimer);
+  }
+  windowStateTimer = setTimeout(persistWindowState, WINDOW_STATE_SAVE_DELAY_MS);
+}
+
+function persistNoteWindowStates(): void {
+  if (noteWindowStateTimer) {
+    clearTimeout(noteWindowStateTimer);
+    noteWindowStateTimer = null;
+  }
+  for (const [memoId, window] of noteWindows) {
+    if (!window.isDestroyed()) {
+      noteWindowStates[memoId] = { ...currentWindowState(window), open: true };
+    }
+  }
+  if (noteWindowStateFilePath) {
+    void saveNoteWindowStates(noteWindowStateFilePath, noteWindowStates).catch(() => undefined);
+  }
+}
+
+function scheduleNoteWindowStatesSave(): void {
+  if (noteWindowStateTimer) {
+    clearTimeout(noteWindowStateTimer);
+  }
+  noteWindowStateTimer = setTimeout(persistNoteWindowStates, WINDOW_STATE_SAVE_DELAY_MS);
+}
+
+function scheduleStateSave(window: BrowserWindow): void {
+  if (window === mainWindow) {
+    scheduleWindowStateSave();
+  } else {
+    scheduleNoteWindowStatesSave();
+  }
+}
+
+function pushMemoChange(event: MemoChangeEvent): void {
+  broadcast(MEMO_CHANGED_CHANNEL, event);
+}
+
+// Find and export act on the memo in front; the rest open panels or memos in the main window.
+const NOTE_MENU_COMMANDS: MenuCommand[] = ['find', 'findNext', 'findPrevious', 'exportMarkdown'];
+
+function sendMenuCommand(command: MenuCommand): void {
+  const window = NOTE_MENU_COMMANDS.includes(command) ? focusedEditorWindow() : mainWindow;
+  window?.webContents.send(MENU_COMMAND_CHANNEL, command);
+}
+
+/** Registers an invoke handler that only runs once the renderer's arguments pass validation. */
+function handleIpc<C extends IpcChannel>(channel: C, handler: (...args: IpcRequests[C]) => Promise<unknown>): void {
+  ipcMain.handle(channel, async (_event, ...args: unknown[]) => handler(...validateIpcRequest(channel, args)));
+}
+
+/** Like handleIpc, for requests that act on the window that sent them. */
+function handleWindowIpc<C extends IpcChannel>(
+  channel: C,
+  handler: (window: BrowserWindow, ...args: IpcRequests[C]) => Promise<unknown>
+): void {
+  ipcMain.handle(channel, async (event, ...args: unknown[]) => {
+    const request = validateIpcRequest(channel, args);
+    const window = BrowserWindow.fromWebContents(event.sender);
+    if (!window) {
+      throw new Error('The window that sent the request is closed.');
+    }
+    return handler(window, ...request);
+  });
+}
+
+function imageSaveOptions(): SaveImageOptions {
+  return {
+    maxWidth: settings.maxImageWidth,
+    keepOriginal: settings.keepOriginalImages,
+    resize: resizeImageForDisplay
+  };
+}
+
+async function whileDialogOpen<T>(show: () => Promise<T>): Promise<T> {
+  openDialogCount += 1;
+  try {
+    return await show();
+  } finally {
+    openDialogCount -= 1;
+  }
+}
+
+async function showSaveDialog(options: SaveDialogOptions): Promise<string | null> {
+  const parent = focusedEditorWindow();
+  const result = await whileDialogOpen(() =>
+    parent ? dialog.showSaveDialog(parent, options) : dialog.showSaveDialog(options)
+  );
+  return result.canceled || !result.filePath ? null : result.filePath;
+}
+
+async function showOpenDialog(options: OpenDialogOptions): Promise<string | null> {
+  const parent = focusedEditorWindow();
+  const result = await whileDialogOpen(() =>
+    parent ? dialog.showOpenDialog(parent, options) : dialog.showOpenDialog(options)
+  );
+  return result.canceled ? null : (result.filePaths[0] ?? null);
+}
+
+async function showMessageBox(options: MessageBoxOptions): Promise<number> {
+  const parent = focusedEditorWindow();
+  const result = await whileDialogOpen(() =>
+    parent ? dialog.showMessageBox(parent, options) : dialog.showMessageBox(options)
+  );
+  return result.response;
+}
+
+async function exportMarkdownWithDialog(
+  storagePaths: StoragePaths,
+  memoId: string
+): Promise<MarkdownExportResponse | null> {
+  const [{ memos }, memo] = await Promise.all([listMemos(storagePaths), loadMemo(storagePaths, memoId)]);
+  const title = memos.find((summary) => summary.id === memoId)?.title ?? 'Memo';
+
+  const filePath = await showSaveDialog({
+    title: 'Export as Markdown',
+    defaultPath: `${title.replace(/[\\/:*?"<>|]/g, '-')}.md`,
+    filters: [{ name: 'Markdown', extensions: ['md'] }]
+  });
+  if (!filePath) {
+    return null;
+  }
+
+  let imageMode: MarkdownImageMode = 'copy';
+  if (countNodes(memo.doc, 'image') > 0) {
+    const response = await showMessageBox({
+      type: 'question',
+      message: 'How should images be exported?',
+      detail: 'Copying keeps the Markdown self-contained. Linking points at the image files stored by Always Memo.',
+      buttons: ['Copy Images Alongside', 'Link to Stored Images', 'Cancel'],
+      defaultId: 0,
+      cancelId: 2
+    });
+    if (response === 2) {
+      return null;
+    }
+    imageMode = response === 0 ? 'copy' : 'link';
+  }
+
+  return exportMemoToMarkdown(storagePaths, memoId, filePath, imageMode);
+}
+
+async function importMarkdownWithDialog(storagePaths: StoragePaths): Promise<MemoSummary | null> {
+  const filePath = await showOpenDialog({
+    title: 'Import Markdown',
+    properties: ['openFile'],
+    filters: [{ name: 'Markdown', extensions: ['md', 'markdown', 'txt'] }]
+  });
+  return filePath ? importMarkdownFile(storagePaths, filePath, imageSaveOptions()) : null;
+}
+
+async function exportBackupWithDialog(storagePaths: StoragePaths): Promise<BackupExportResponse | null> {
+  const date = new Date().toISOString().slice(0, 10);
+  const filePath = await showSaveDialog({
+    title: 'Export Backup',
+    defaultPath: `always-memo-backup-${date}.tar.gz`,
+    filters: [{ name: 'Always Memo Backup', extensions: ['gz'] }]
+  });
+  return filePath ? exportBackup(storagePaths, filePath, app.getVersion()) : null;
+}
+
+async function importBackupWithDialog(storagePaths: StoragePaths): Promise<BackupImportResponse | null> {
+  const filePath = await showOpenDialog({
+    title: 'Import Backup',
+    properties: ['openFile'],
+    filters: [{ name: 'Always Memo Backup', extensions: ['gz'] }]
+  });
+  if (!filePath) {
+    return null;
+  }
+
+  const response = await showMessageBox({
+    type: 'question',
+    message: 'How should the backup be imported?',
+    detail: 'Merge adds the backed-up memos next to your current ones. Replace deletes your current memos first.',
+    buttons: ['Merge', 'Replace All Memos', 'Cancel'],
+    defaultId: 0,
+    cancelId: 2
+  });
+  if (response === 2) {
+    return null;
+  }
+
+  return importBackup(storagePaths, filePath, response === 1 ? 'replace' : 'merge');
+}
+
+function formatBytes(bytes: number): string {
+  if (bytes < 1024) {
+    return `${bytes} B`;
+  }
+  if (bytes < 1024 * 1024) {
+    return `${(bytes / 1024).toFixed(1)} KB`;
+  }
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+async function runImageCleanup(storagePaths: StoragePaths): Promise<void> {
+  try {
+    const result = await cleanUpUnusedImages(storagePaths);
+    await showMessageBox({
+      type: 'info',
+      message: 'Unused images cleaned up.',
+      detail: [
+        `Scanned ${result.scannedCount} images; ${result.referencedCount} are in use.`,
+        `Moved ${result.quarantinedCount} unused images (${formatBytes(result.quarantinedBytes)}) to quarantine.`,
+        `Deleted ${result.deletedCount} expired quarantined images, reclaiming ${formatBytes(result.reclaimedBytes)}.`
+      ].join('\n')
+    });
+  } catch (error) {
+    dialog.showErrorBox('Image cleanup failed', error instanceof Error ? error.message : 'Unknown error');
+  }
+}
+
+async function runImageMigration(storagePaths: StoragePaths): Promise<void> {
+  try {
+    await flushEditorWindows();
+    const result = await migrateImagesToContentIds(storagePaths);
+    await showMessageBox({
+      type: 'info',
+      message: result.imageCount > 0 ? 'Images renamed by content.' : 'All images are already named by content.',
+      detail:
+        result.imageCount > 0
+          ? [
+              `Renamed ${result.imageCount} images and updated ${result.memoCount} memos and ${result.snapshotCount} history snapshots.`,
+              'The old files were moved to quarantine and are deleted after a week.'
+            ].join('\n')
+          : undefined
+    });
+  } catch (error) {
+    dialog.showErrorBox('Image renaming failed', error instanceof Error ? error.message : 'Unknown error');
+  }
+}
+
+function createAppMenu(storagePaths: StoragePaths): void {
+  const template: MenuItemConstructorOptions[] = [];
+
+  if (process.platform === 'darwin') {
+    template.push({ role: 'appMenu' });
+  }
+
+  template.push({
+    label: 'File',
+    submenu: [
+      {
+        label: 'Preferences…',
+        accelerator: 'CommandOrControl+,',
+        click: () => sendMenuCommand('openPreferences')
+      },
+      {
+        label: 'Lock Memos',
+        accelerator: 'CommandOrControl+L',
+        click: () => {
+          void lockApp(storagePaths);
+        }
+      },
+      { type: 'separator' },
+      {
+        label: 'Import Markdown…',
+        click: () => sendMenuCommand('importMarkdown')
+      },
+      {
+        label: 'Export as Markdown…',
+        click: () => sendMenuCommand('exportMarkdown')
+      },
+      { type: 'separator' },
+      {
+        label: 'Import Backup…',
+        click: () => sendMenuCommand('importBackup')
+      },
+      {
+        label: 'Export Backup…',
+        click: () => sendMenuCommand('exportBackup')
+      },
+      { type: 'separator' },
+      {
+        label: 'Clean Up Unused Images…',
+        click: () => {
+          void runImageCleanup(storagePaths);
+        }
+      },
+      {
+        label: 'Rename Images by Content…',
+        click: () => {
+          void runImageMigration(storagePaths);
+        }
+      }
+    ]
+  });
+
+  template.push({
+    label: 'Edit',
+    submenu: [
+      { role: 'undo' },
+      { role: 'redo' },
+      { type: 'separator' },
+      { role: 'cut' },
+      { role: 'copy' },
+      { role: 'paste' },
+      { role: 'pasteAndMatchStyle' },
+      { role: 'delete' },
+      { role: 'selectAll' },
+      { type: 'separator' },
+      {
+        label: 'Find…',
+        accelerator: 'CommandOrControl+F',
+        click: () => sendMenuCommand('find')
+      },
+      {
+        label: 'Find Next',
+        accelerator: 'CommandOrControl+G',
+        click: () => sendMenuCommand('findNext')
+      },
+      {
+        label: 'Find Previous',
+        accelerator: 'CommandOrControl+Shift+G',
+        click: () => sendMenuCommand('findPrevious')
+      }
+    ]
+  });
+
+  template.push({
+    label: 'Window',
+    submenu: [
+      {
+        label: 'Toggle Always On Top',
+        accelerator: 'CommandOrControl+Shift+T',
+        click: () => {
+          toggleAlwaysOnTop(focusedEditorWindow());
+        }
+      },
+      {
+        label: 'Toggle Click-Through',
+        click: () => toggleClickThrough(focusedEditorWindow())
+      },
+      { type: 'separator' },
+      { role: 'minimize' },
+      { role: 'close' }
+    ]
+  });
+
+  template.push({
+    role: 'help',
+    submenu: [
+      {
+        label: 'Check for Updates…',
+        click: () => {
+          void runManualUpdateCheck();
+        }
+      }
+    ]
+  });
+
+  Menu.setApplicationMenu(Menu.buildFromTemplate(template));
+}
+
+function clampZoom(value: number): number {
+  return Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, value));
+}
+
+function setZoomFactor(window: BrowserWindow, value: number): void {
+  window.webContents.setZoomFactor(clampZoom(value));
+  scheduleStateSave(window);
+}
+
+function changeZoomFactor(window: BrowserWindow, delta: number): void {
+  const current = window.webContents.getZoomFactor();
+  setZoomFactor(window, current + delta);
+}
+
+function handleZoomKeys(window: BrowserWindow): void {
+  window.webContents.on('before-input-event', (event, input) => {
+    if (input.type !== 'keyDown' || (!input.control && !input.meta)) {
+      return;
+    }
+
+    const key = input.key.toLowerCase();
+
+    if (key === '0') {
+      event.preventDefault();
+      setZoomFactor(window, 1);
+      return;
+    }
+
+    if (key === '+' || key === '=' || key === 'add') {
+      event.preventDefault();
+      changeZoomFactor(window, ZOOM_STEP);
+      return;
+    }
+
+    if (key === '-' || key === '_' || key === 'subtract') {
+      event.preventDefault();
+      changeZoomFactor(window, -ZOOM_STEP);
+    }
+  });
+}
+
+function requestRendererFlush(window: BrowserWindow): Promise<FlushResult> {
+  return new Promise((resolve) => {
+    const finish = (result: FlushResult) => {
+      clearTimeout(timer);
+      ipcMain.removeListener(FLUSH_COMPLETE_CHANNEL, onComplete);
+      resolve(result);
+    };
+    const onComplete = (event: IpcMainEvent, result: unknown) => {
+      if (event.sender === window.webContents) {
+        try {
+          finish(validateFlushResult(result));
+        } catch (error) {
+          finish({ ok: false, message: error instanceof Error ? error.message : 'Save failed' });
+        }
+      }
+    };
+    const timer = setTimeout(() => {
+      finish({ ok: false, message: 'The editor did not finish saving in time.' });
+    }, FLUSH_TIMEOUT_MS);
+
+    ipcMain.on(FLUSH_COMPLETE_CHANNEL, onComplete);
+    window.webContents.send(FLUSH_REQUEST_CHANNEL);
+  });
+}
+
+/**
+ * Holds a window open until its renderer has written pending edits. When the save fails
+ * the user chooses between keeping the window open and closing without the last edits.
+ */
+function closeWhenFlushed(window: BrowserWindow): void {
+  let flushed = false;
+  let flushing = false;
+
+  window.on('close', (event) => {
+    if (flushed || window.webContents.isCrashed()) {
+      return;
+    }
+
+    event.preventDefault();
+    if (flushing) {
+      return;
+    }
+    flushing = true;
+
+    void (async () => {
+      const result = await requestRendererFlush(window);
+      flushing = false;
+
+      if (!result.ok) {
+        const response = await whileDialogOpen(() =>
+          dialog.showMessageBox(window, {
+            type: 'warning',
+            message: 'Your latest changes could not be saved.',
+            detail: result.message,
+            buttons: ['Keep Editing', 'Close Anyway'],
+            defaultId: 0,
+            cancelId: 0
+          })
+        );
+        if (response.response === 0) {
+          isQuitting = false;
+          restartToUpdate = false;
+          return;
+        }
+      }
+
+      flushed = true;
+      window.close();
+      if (isQuitting) {
+        app.quit();
+      }
+    })();
+  });
+}
+
+function loadRenderer(window: BrowserWindow, hash?: string): void {
+  const devUrl = process.env.VITE_DEV_SERVER_URL;
+  if (devUrl) {
+    void window.loadURL(hash ? `${devUrl}#${hash}` : devUrl);
+  } else {
+    const indexPath = path.join(app.getAppPath(), 'dist/renderer/index.html');
+    void window.loadFile(indexPath, { hash });
+  }
+}
+
+function openCaptureWindow(): void {
+  if (captureWindow) {
+    captureWindow.show();
+    captureWindow.focus();
+    return;
+  }
+
+  // Open on the display the user is working on, not necessarily the one with the memo.
+  const { workArea } = screen.getDisplayNearestPoint(screen.getCursorScreenPoint());
+  captureWindow = new BrowserWindow({
+    x: Math.round(workArea.x + (workArea.width - CAPTURE_WINDOW_WIDTH) / 2),
+    y: Math.round(workArea.y + workArea.height / 4),
+    width: CAPTURE_WINDOW_WIDTH,
+    height: CAPTURE_WINDOW_HEIGHT,
+    title: 'Quick Capture',
+    frame: false,
+    resizable: false,
+    alwaysOnTop: true,
+    skipTaskbar: true,
+    show: false,
+    webPreferences: {
+      preload: path.join(__dirname, 'preload.js'),
+      contextIsolation: true,
+      nodeIntegration: false,
+      sandbox: false
+    }
+  });
+
+  loadRenderer(captureWindow, 'capture');
+  captureWindow.once('ready-to-show', () => {
+    captureWindow?.show();
+  });
+  captureWindow.on('closed', () => {
+    captureWindow = null;
+  });
+}
+
+function registerGlobalShortcut(accelerator: string, callback: () => void): boolean {
+  try {
+    return globalShortcut.register(accelerator, callback);
+  } catch {
+    return false;
+  }
+}
+
+function registerQuickCaptureShortcut(accelerator: string): boolean {
+  if (quickCaptureAccelerator) {
+    globalShortcut.unregister(quickCaptureAccelerator);
+    quickCaptureAccelerator = '';
+  }
+  if (!accelerator) {
+    return true;
+  }
+
+  if (!registerGlobalShortcut(accelerator, openCaptureWindow)) {
+    return false;
+  }
+  quickCaptureAccelerator = accelerator;
+  return true;
+}
+
+function registerClickThroughShortcut(accelerator: string): boolean {
+  unregisterClickThroughShortcut();
+  if (!accelerator || !registerGlobalShortcut(accelerator, clearClickThrough)) {
+    return false;
+  }
+  clickThroughAccelerator = accelerator;
+  return true;
+}
+
+function unregisterClickThroughShortcut(): void {
+  if (clickThroughAccelerator) {
+    globalShortcut.unregister(clickThroughAccelerator);
+    clickThroughAccelerator = '';
+  }
+}
+
+async function flushEditorWindows(): Promise<void> {
+  // Let the editors write their pending edits first so changes made from outside do not race them.
+  await Promise.all(editorWindows().map(requestRendererFlush));
+}
+
+async function captureToActiveMemo(storagePaths: StoragePaths, text: string): Promise<void> {
+  await flushEditorWindows();
+
+  const { activeMemoId } = await listMemos(storagePaths);
+  await appendToMemo(storagePaths, activeMemoId, text);
+  captureWindow?.close();
+}
+
+function createWindow(): void {
+  const restored = savedWindowState;
+  const placement = restored
+    ? placeOnDisplay(restored.bounds, restored.displayId)
+    : { width: DEFAULT_WINDOW_WIDTH, height: DEFAULT_WINDOW_HEIGHT };
+
+  const window = new BrowserWindow({
+    ...placement,
+    minWidth: 340,
+    minHeight: 360,
+    title: 'Always Memo',
+    alwaysOnTop: restored?.alwaysOnTop ?? settings.alwaysOnTopByDefault,
+    opacity: restored?.opacity ?? 1,
+    titleBarStyle: process.platform === 'darwin' ? 'hiddenInset' : 'default',
+    webPreferences: {
+      preload: path.join(__dirname, 'preload.js'),
+      contextIsolation: true,
+      nodeIntegration: false,
+      sandbox: false
+    }
+  });
+
+  mainWindow = window;
+
+  loadRenderer(window);
+  closeWhenFlushed(window);
+  restoreWindowState(window, restored);
+  window.on('move', scheduleWindowStateSave);
+  window.on('resize', scheduleWindowStateSave);
+  window.on('close', persistWindowState);
+  window.on('blur', hideMainWindowOnBlur);
+
+  window.on('closed', () => {
+    mainWindow = null;
+    forgetClickThrough(window);
+    refreshTrayMenu();
+  });
+  refreshTrayMenu();
+  handleZoomKeys(window);
+}
+
+/** Applies the zoom and click-through a window was saved with; bounds, top and opacity are set at creation. */
+function restoreWindowState(window: BrowserWindow, restored: WindowState | null): void {
+  window.webContents.once('did-finish-load', () => {
+    if (restored) {
+      window.webContents.setZoomFactor(clampZoom(restored.zoomFactor));
+    }
+  });
+
+  if (restored?.clickThrough) {
+    try {
+      setClickThrough(window, true);
+    } catch {
+      // The shortcut is taken now, so the window opens clickable rather than stuck.
+    }
+  }
+}
+
+function placeOnDisplay(bounds: WindowBounds, displayId: number | null): WindowBounds {
+  return clampBoundsToDisplays(
+    bounds,
+    displayId,
+    screen.getAllDisplays().map((display) => ({ id: display.id, workArea: display.workArea })),
+    screen.getPrimaryDisplay().id
+  ).bounds;
+}
+
+/** Opens a memo in its own small always-on-top window, or brings its open one to the front. */
+function openNoteWindow(memoId: string): void {
+  const existing = noteWindows.get(memoId);
+  if (existing) {
+    existing.show();
+    existing.focus();
+    return;
+  }
+
+  // A new note goes beside the main window, stepped so several do not cover each other.
+  const anchor = mainWindow?.getBounds() ?? screen.getPrimaryDisplay().workArea;
+  const step = noteWindows.size * NOTE_WINDOW_OFFSET;
+  const restored = noteWindowStates[memoId] ?? null;
+  const placement = restored
+    ? placeOnDisplay(restored.bounds, restored.displayId)
+    : placeOnDisplay(
+        { x: anchor.x + anchor.width + step, y: anchor.y + step, width: NOTE_WINDOW_WIDTH, height: NOTE_WINDOW_HEIGHT },
+        null
+      );
+
+  const window = new BrowserWindow({
+    ...placement,
+    minWidth: 220,
+    minHeight: 160,
+    title: 'Always Memo',
+    alwaysOnTop: restored?.alwaysOnTop ?? true,
+    opacity: restored?.opacity ?? 1,
+    titleBarStyle: process.platform === 'darwin' ? 'hiddenInset' : 'default',
+    webPreferences: {
+      preload: path.join(__dirname, 'preload.js'),
+      contextIsolation: true,
+      nodeIntegration: false,
+      sandbox: false
+    }
+  });
+  noteWindows.set(memoId, window);
+
+  loadRenderer(window, `note=${encodeURIComponent(memoId)}`);
+  closeWhenFlushed(window);
+  restoreWindowState(window, restored);
+  window.on('move', scheduleNoteWindowStatesSave);
+  window.on('resize', scheduleNoteWindowStatesSave);
+  window.on('close', persistNoteWindowStates);
+
+  window.on('closed', () => {
+    noteWindows.delete(memoId);
+    forgetClickThrough(window);
+    // Notes still open when the app quits open again at the next launch.
+    const state = noteWindowStates[memoId];
+    if (state && !isQuitting) {
+      state.open = false;
+    }
+    persistNoteWindowStates();
+    refreshTrayMenu();
+  });
+  handleZoomKeys(window);
+  scheduleNoteWindowStatesSave();
+}
+
+function closeNoteWindow(memoId: string): void {
+  noteWindows.get(memoId)?.destroy();
+  delete noteWindowStates[memoId];
+  persistNoteWindowStates();
+}
+
+async function reopenNoteWindows(storagePaths: StoragePaths): Promise<void> {
+  const openIds = Object.keys(noteWindowStates).filter((memoId) => noteWindowStates[memoId].open);
+  if (openIds.length === 0) {
+    return;
+  }
+
+  // While locked the memo list cannot be read, so every note opens behind the lock screen.
+  const existing = isVaultLocked(storagePaths.vault)
+    ? null
+    : new Set((await listMemos(storagePaths)).memos.map((memo) => memo.id));
+  for (const memoId of openIds) {
+    if (!existing || existing.has(memoId)) {
+      openNoteWindow(memoId);
+    }
+  }
+}
+
+function pushUpdateStatus(payload: UpdateStatusPayload): void {
+  latestUpdateStatus = payload;
+  broadcast(UPDATE_STATUS_CHANNEL, payload);
+}
+
+async function runUpdateCheck(manual: boolean): Promise<UpdateStatusPayload> {
+  const currentVersion = app.getVersion();
+
+  // Keep the download's progress or "Restart to update" on screen instead of replacing it.
+  if (latestUpdateStatus.state === 'downloading' || latestUpdateStatus.state === 'ready') {
+    return latestUpdateStatus;
+  }
+
+  if (!manual) {
+    if (!app.isPackaged && !process.env.ALWAYS_MEMO_RELEASES_URL) {
+      latestUpdateStatus = {
+        state: 'idle',
+        currentVersion,
+        message: 'Update check is disabled in development.'
+      };
+      return latestUpdateStatus;
+    }
+
+    if (!settings.checkForUpdates) {
+      latestUpdateStatus = {
+        state: 'idle',
+        currentVersion,
+        message: 'Update check is turned off in Preferences.'
+      };
+      return latestUpdateStatus;
+    }
+  }
+
+  // A background re-check leaves an update banner in place until it has an answer.
+  if (manual || latestUpdateStatus.state !== 'available') {
+    pushUpdateStatus({
+      state: 'checking',
+      currentVersion
+    });
+  }
+
+  try {
+    pushUpdateStatus(
+      await checkForUpdate(releaseSource, {
+        currentVersion,
+        channel: settings.updateChannel,
+        skippedVersion: manual ? undefined : settings.skippedUpdateVersion
+      })
+    );
+  } catch (error) {
+    pushUpdateStatus({
+      state: 'error',
+      currentVersion,
+      message: error instanceof Error ? error.message : 'Failed to check updates.'
+    });
+  }
+  return latestUpdateStatus;
+}
+
+/** Runs update checks one at a time, so two checks never race on the cached release list. */
+function checkForUpdates(manual: boolean): Promise<UpdateStatusPayload> {
+  const check = updateCheck.then(() => runUpdateCheck(manual));
+  updateCheck = check;
+  return check;
+}
+
+function startUpdateChecks(): void {
+  const check = () => {
+    void checkForUpdates(false);
+  };
+
+  check();
+  setInterval(check, UPDATE_CHECK_INTERVAL_MS);
+}
+
+function updatesDirectoryPath(): string {
+  return path.join(app.getPath('userData'), 'updates');
+}
+
+/** The running app bundle; the executable sits at `<bundle>.app/Contents/MacOS/<name>`. */
+function installedAppPath(): string | null {
+  const bundlePath = path.resolve(path.dirname(app.getPath('exe')), '..', '..');
+  return bundlePath.endsWith('.app') ? bundlePath : null;
+}
+
+async function runUpdateDownload(): Promise<UpdateStatusPayload> {
+  const { currentVersion, latestVersion, releaseUrl } = latestUpdateStatus;
+  if (latestUpdateStatus.state !== 'available' || !latestVersion) {
+    throw new Error('No update is available to download.');
+  }
+
+  try {
+    if (process.platform !== 'darwin' || !app.isPackaged || !installedAppPath()) {
+      throw new Error('Updates can only be installed from the app on macOS. Use Open Download instead.');
+    }
 
-function getTopState(): TopState {
-  return {
-    alwaysOnTop: !!mainWindow?.isAlwaysOnTop()
-  };
+    pushUpdateStatus({ state: 'downloading', currentVersion, latestVersion, releaseUrl });
+    const release = findRelease(await fetchReleases(releaseSource), latestVersion);
+    if (!release) {
+      throw new Error(`Version ${latestVersion} is no longer published. Check for updates again.`);
+    }
+
+    const update = await downloadUpdate(release, {
+      arch: process.arch,
+      directory: updatesDirectoryPath(),
+      onProgress: (progress) => broadcast(UPDATE_PROGRESS_CHANNEL, progress)
+    });
+    stagedUpdateAppPath = await stageUpdate(update);
+    pushUpdateStatus({ state: 'ready', currentVersion, latestVersion, releaseUrl });
+  } catch (error) {
+    pushUpdateStatus({
+      state: 'error',
+      currentVersion,
+      latestVersion,
+      releaseUrl,
+      message: error instanceof Error ? error.message : 'Failed to download the update.'
+    });
+  }
+  return latestUpdateStatus;
 }
 
-function toggleAlwaysOnTop(): TopState {
-  if (!mainWindow) {
-    return { alwaysOnTop: false };
+function startUpdateDownload(): Promise<UpdateStatusPayload> {
+  if (!updateDownload) {
+    updateDownload = runUpdateDownload().finally(() => {
+      updateDownload = null;
+    });
   }
+  return updateDownload;
+}
 
-  const nextValue = !mainWindow.isAlwaysOnTop();
-  mainWindow.setAlwaysOnTop(nextValue);
-  return { alwaysOnTop: nextValue };
+/** Quits through the usual save-on-close path; the staged bundle is swapped in once the quit goes ahead. */
+function installStagedUpdate(): void {
+  if (latestUpdateStatus.state !== 'ready' || !stagedUpdateAppPath) {
+    throw new Error('No downloaded update is ready to install.');
+  }
+  restartToUpdate = true;
+  app.quit();
 }
 
-function createAppMenu(): void {
-  const template: MenuItemConstructorOptions[] = [];
+async function runManualUpdateCheck(): Promise<void> {
+  const status = await checkForUpdates(true);
 
-  if (process.platform === 'darwin') {
-    template.push({ role: 'appMenu' });
+  if (status.state === 'error') {
+    dialog.showErrorBox('Update check failed', status.message ?? 'Unknown error');
+    return;
   }
 
-  template.push({ role: 'editMenu' });
+  if (status.state === 'available') {
+    const response = await showMessageBox({
+      type: 'info',
+      message: `Version ${status.latestVersion} is available.`,
+      detail: `You are running version ${status.currentVersion}.`,
+      buttons: ['Download and Install', 'Open Download', 'Later'],
+      defaultId: 0,
+      cancelId: 2
+    });
+    if (response === 0) {
+      await startUpdateDownload();
+    } else if (response === 1 && status.releaseUrl && RELEASE_URL_PATTERN.test(status.releaseUrl)) {
+      await shell.openExternal(status.releaseUrl);
+    }
+    return;
+  }
 
-  template.push({
-    label: 'Window',
-    submenu: [
-      {
-        label: 'Toggle Always On Top',
-        accelerator: 'CommandOrControl+Shift+T',
-        click: () => {
-          toggleAlwaysOnTop();
-        }
-      },
-      { type: 'separator' },
-      { role: 'minimize' },
-      { role: 'close' }
-    ]
-  });
+  if (status.state === 'downloading') {
+    await showMessageBox({ type: 'info', message: `Version ${status.latestVersion} is downloading.` });
+    return;
+  }
 
-  Menu.setApplicationMenu(Menu.buildFromTemplate(template));
+  if (status.state === 'ready') {
+    const response = await showMessageBox({
+      type: 'info',
+      message: `Version ${status.latestVersion} is ready to install.`,
+      buttons: ['Restart to Update', 'Later'],
+      defaultId: 0,
+      cancelId: 1
+    });
+    if (response === 0) {
+      installStagedUpdate();
+    }
+    return;
+  }
+
+  await showMessageBox({
+    type: 'info',
+    message: 'Always Memo is up to date.',
+    detail: status.message ?? `Version ${status.currentVersion} is the newest ${settings.updateChannel} release.`
+  });
 }
 
-function clampZoom(value: number): number {
-  return Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, value));
+async function runHeadless(command: CliCommand): Promise<void> {
+  app.dock?.hide();
+  try {
+    const storagePaths = createStoragePaths(app.getPath('userData'));
+    // An encrypted vault stays locked here, so commands fail instead of writing plaintext.
+    await openVault(storagePaths);
+    process.stdout.write(await runCliCommand(storagePaths, command));
+    app.exit(0);
+  } catch (error) {
+    process.stderr.write(`${error instanceof Error ? error.message : 'Command failed.'}\n`);
+    app.exit(1);
+  }
 }
 
-function setZoomFactor(value: number): void {
-  if (!mainWindow) {
+/** Starts the image sweep and the file watcher, which both need to read memos. */
+function startStorageServices(storagePaths: StoragePaths): void {
+  if (storageServicesStarted || isVaultLocked(storagePaths.vault)) {
     return;
   }
+  storageServicesStarted = true;
 
-  mainWindow.webContents.setZoomFactor(clampZoom(value));
+  void cleanUpUnusedImages(storagePaths).catch(() => undefined);
+  // listMemos creates the memos directory on first run, so the watcher has something to watch.
+  void listMemos(storagePaths)
+    .then(() => watchStorage(storagePaths, pushMemoChange))
+    .catch(() => undefined);
 }
 
-function changeZoomFactor(delta: number): void {
-  if (!mainWindow) {
-    return;
+function pushVaultStatus(storagePaths: StoragePaths): VaultStatus {
+  const status = vaultStatus(storagePaths);
+  broadcast(VAULT_STATUS_CHANNEL, status);
+  return status;
+}
+
+/** Returns a file another app can open: encrypted images are decrypted into a private temporary copy. */
+async function viewableImagePath(storagePaths: StoragePaths, filePath: string): Promise<string> {
+  if (!storagePaths.vault.enabled) {
+    return filePath;
   }
 
-  const current = mainWindow.webContents.getZoomFactor();
-  setZoomFactor(current + delta);
+  openedImagesDirPath ??= await mkdtemp(path.join(app.getPath('temp'), 'always-memo-images-'));
+  const copyPath = path.join(openedImagesDirPath, path.basename(filePath));
+  await writeFile(copyPath, await readStoredFile(storagePaths, filePath), { mode: 0o600 });
+  return copyPath;
 }
 
-function createWindow(): void {
-  mainWindow = new BrowserWindow({
-    width: 420,
-    height: 640,
-    minWidth: 340,
-    minHeight: 360,
-    title: 'Always Memo',
-    alwaysOnTop: true,
-    titleBarStyle: process.platform === 'darwin' ? 'hiddenInset' : 'default',
-    webPreferences: {
-      preload: path.join(__dirname, 'preload.js'),
-      contextIsolation: true,
-      nodeIntegration: false,
-      sandbox: false
-    }
-  });
+function removeOpenedImages(): void {
+  if (openedImagesDirPath) {
+    rmSync(openedImagesDirPath, { recursive: true, force: true });
+    openedImagesDirPath = null;
+  }
+}
 
-  const devUrl = process.env.VITE_DEV_SERVER_URL;
-  if (devUrl) {
-    void mainWindow.loadURL(devUrl);
-  } else {
-    const indexPath = path.join(app.getAppPath(), 'dist/renderer/index.html');
-    void mainWindow.loadFile(indexPath);
+async function lockApp(storagePaths: StoragePaths): Promise<void> {
+  if (isVaultLocked(storagePaths.vault) || !storagePaths.vault.enabled) {
+    return;
   }
 
-  mainWindow.on('closed', () => {
-    mainWindow = null;
-  });
+  // Write pending edits while the key is still available; locking discards the editor content.
+  await flushEditorWindows();
+  captureWindow?.close();
+  lockVault(storagePaths);
+  removeOpenedImages();
+  pushVaultStatus(storagePaths);
+}
 
-  mainWindow.webContents.on('before-input-event', (event, input) => {
-    if (input.type !== 'keyDown' || (!input.control && !input.meta)) {
-      return;
+function startAutoLock(storagePaths: StoragePaths): void {
+  const lock = () => {
+    void lockApp(storagePaths);
+  };
+
+  powerMonitor.on('lock-screen', lock);
+  powerMonitor.on('suspend', lock);
+  setInterval(() => {
+    if (settings.autoLockMinutes > 0 && powerMonitor.getSystemIdleTime() >= settings.autoLockMinutes * 60) {
+      lock();
     }
+  }, AUTO_LOCK_CHECK_MS);
+}
 
-    const key = input.key.toLowerCase();
+function showMainWindow(): void {
+  if (!mainWindow) {
+    createWindow();
+    return;
+  }
+  if (mainWindow.isMinimized()) {
+    mainWindow.restore();
+  }
+  mainWindow.show();
+  mainWindow.focus();
+}
 
-    if (key === '0') {
-      event.preventDefault();
-      setZoomFactor(1);
-      return;
-    }
+function toggleMainWindow(): void {
+  if (mainWindow?.isVisible()) {
+    mainWindow.hide();
+    return;
+  }
+  showMainWindow();
+}
 
-    if (key === '+' || key === '=' || key === 'add') {
-      event.preventDefault();
-      changeZoomFactor(ZOOM_STEP);
-      return;
-    }
+function hideMainWindowOnBlur(): void {
+  if (!settings.hideOnBlur) {
+    return;
+  }
 
-    if (key === '-' || key === '_' || key === 'subtract') {
-      event.preventDefault();
-      changeZoomFactor(-ZOOM_STEP);
+  // Wait for focus to land before deciding whether it left the app.
+  setTimeout(() => {
+    if (
+      mainWindow &&
+      shouldHideOnBlur(settings, {
+        hasTray: !!tray,
+        platform: process.platform,
+        windowVisible: mainWindow.isVisible(),
+        openDialogCount,
+        appWindowFocused: !!BrowserWindow.getFocusedWindow(),
+        devToolsFocused: mainWindow.webContents.isDevToolsFocused()
+      })
+    ) {
+      mainWindow.hide();
     }
-  });
+  }, 0);
 }
 
-function imageIdFromRequestUrl(requestUrl: string): string | null {
-  try {
-    const parsed = new URL(requestUrl);
-    const id = parsed.host || parsed.pathname.replace(/^\/+/, '');
-    return id || null;
-  } catch {
-    return null;
+function buildTrayMenu(): Menu {
+  return Menu.buildFromTemplate([
+    { label: 'Show/Hide Memo', click: toggleMainWindow },
+    {
+      label: 'Always On Top',
+      type: 'checkbox',
+      checked: getTopState(mainWindow).alwaysOnTop,
+      click: () => {
+        toggleAlwaysOnTop(mainWindow);
+      }
+    },
+    {
+      label: 'Click-Through',
+      type: 'checkbox',
+      checked: getOverlayState(mainWindow).clickThrough,
+      click: () => toggleClickThrough(mainWindow)
+    },
+    { label: 'Quick Capture', click: openCaptureWindow },
+    { type: 'separator' },
+    { label: 'Quit Always Memo', click: () => app.quit() }
+  ]);
+}
+
+function refreshTrayMenu(): void {
+  tray?.setContextMenu(buildTrayMenu());
+}
+
+/** Adds or removes the tray icon, and hides the Dock icon only while the tray can bring the app back. */
+function applyTraySettings(): void {
+  if (settings.showTrayIcon && !tray) {
+    const icon = nativeImage
+      .createFromPath(path.join(app.getAppPath(), 'icon.png'))
+      .resize({ width: TRAY_ICON_SIZE, height: TRAY_ICON_SIZE });
+    tray = new Tray(icon);
+    tray.setToolTip('Always Memo');
+    // macOS opens the menu on click; elsewhere a click toggles the window and the menu is on right-click.
+    tray.on('click', () => {
+      if (process.platform !== 'darwin') {
+        toggleMainWindow();
+      }
+    });
+    refreshTrayMenu();
+  } else if (!settings.showTrayIcon && tray) {
+    tray.destroy();
+    tray = null;
+  }
+
+  if (shouldHideDockIcon(settings)) {
+    app.dock?.hide();
+  } else {
+    void app.dock?.show();
   }
 }
 
-function parseVersion(input: string): [number, number, number] | null {
-  const match = input.trim().match(/^(\d+)\.(\d+)\.(\d+)(?:[-+].*)?$/);
-  if (!match) {
-    return null;
+async function revealTask(storagePaths: StoragePaths, request: TaskRevealRequest): Promise<void> {
+  if (!mainWindow) {
+    // A new window opens the active memo, so switch to it before creating one.
+    await setActiveMemo(storagePaths, request.memoId);
+    showMainWindow();
+    return;
   }
 
-  return [Number(match[1]), Number(match[2]), Number(match[3])];
+  showMainWindow();
+  mainWindow.webContents.send(TASK_REVEAL_CHANNEL, request);
 }
 
-function compareVersions(a: string, b: string): number {
-  const parsedA = parseVersion(a);
-  const parsedB = parseVersion(b);
+function showTaskReminder(storagePaths: StoragePaths, task: MemoTask): void {
+  const due = task.due ? parseDueDate(task.due) : null;
+  const notification = new Notification({
+    title: task.text || 'Task due',
+    body: due ? `${task.memoTitle} · due ${due.toLocaleString()}` : task.memoTitle
+  });
 
-  if (!parsedA || !parsedB) {
-    return 0;
-  }
+  notification.on('click', () => {
+    taskNotifications.delete(notification);
+    void revealTask(storagePaths, { memoId: task.memoId, taskIndex: task.taskIndex }).catch(() => undefined);
+  });
+  notification.on('close', () => taskNotifications.delete(notification));
+  taskNotifications.add(notification);
+  notification.show();
+}
 
-  for (let i = 0; i < 3; i += 1) {
-    if (parsedA[i] > parsedB[i]) {
-      return 1;
-    }
-    if (parsedA[i] < parsedB[i]) {
-      return -1;
-    }
+async function checkTaskReminders(storagePaths: StoragePaths, stateFilePath: string): Promise<void> {
+  // While locked the tasks cannot be read; the stored check time holds them until unlock.
+  if (isVaultLocked(storagePaths.vault) || !Notification.isSupported()) {
+    return;
   }
 
-  return 0;
+  for (const task of await collectDueReminders(storagePaths, stateFilePath)) {
+    showTaskReminder(storagePaths, task);
+  }
 }
 
-function versionFromTag(tag: string): string | null {
-  const trimmed = tag.trim();
-  const withoutPrefix = trimmed.startsWith('v') ? trimmed.slice(1) : trimmed;
-  return parseVersion(withoutPrefix) ? withoutPrefix : null;
-}
+function startTaskReminders(storagePaths: StoragePaths, stateFilePath: string): void {
+  const check = () => {
+    void checkTaskReminders(storagePaths, stateFilePath).catch(() => undefined);
+  };
 
-function pushUpdateStatus(payload: UpdateStatusPayload): void {
-  latestUpdateStatus = payload;
-  mainWindow?.webContents.send(UPDATE_STATUS_CHANNEL, payload);
+  check();
+  setInterval(check, REMINDER_CHECK_MS);
 }
 
-async function checkForUpdatesOnStartup(): Promise<void> {
-  const currentVersion = app.getVersion();
+async function handleSecondInstance(
+  storagePaths: StoragePaths,
+  argv: string[],
+  workingDirectory: string,
+  additionalData: unknown
+): Promise<void> {
+  const requestId = (additionalData as { cliRequestId?: unknown } | null)?.cliRequestId;
+  let command: CliCommand | null;
+  try {
+    command = parseCliArgs(argv, workingDirectory);
+  } catch {
+    // The launching process has already reported the bad arguments.
+    return;
+  }
 
-  if (!app.isPackaged) {
-    latestUpdateStatus = {
-      state: 'idle',
-      currentVersion,
-      message: 'Update check is disabled in development.'
-    };
+  if (!command) {
+    showMainWindow();
     return;
   }
 
-  pushUpdateStatus({
-    state: 'checking',
-    currentVersion
-  });
+  if (isReadOnlyCommand(command)) {
+    return;
+  }
 
+  let result: CliResult;
   try {
-    const response = await fetch(RELEASE_API_URL, {
-      headers: {
-        accept: 'application/vnd.github+json',
-        'user-agent': 'always-memo-update-check'
-      }
-    });
+    await flushEditorWindows();
+    result = { ok: true, output: await runCliCommand(storagePaths, command) };
+  } catch (error) {
+    result = { ok: false, message: error instanceof Error ? error.message : 'Command failed.' };
+  }
 
-    if (!response.ok) {
-      throw new Error(`Release API returned ${response.status}`);
-    }
+  // The launching process prints the outcome; without a request id nobody is waiting for it.
+  if (isCliRequestId(requestId)) {
+    await writeCliResult(cliResultPathFor(app.getPath('userData'), requestId), result);
+  } else if (!result.ok) {
+    dialog.showErrorBox('Command failed', result.message);
+  }
+}
 
-    const release = (await response.json()) as {
-      tag_name?: string;
-      html_url?: string;
-    };
+/** Exits with the outcome of a command the running instance carried out for this process. */
+async function reportForwardedCommand(requestId: string): Promise<void> {
+  const resultPath = cliResultPathFor(app.getPath('userData'), requestId);
+  const result = await waitForCliResult(resultPath, FORWARDED_COMMAND_TIMEOUT_MS);
+  if (result.ok) {
+    process.stdout.write(result.output);
+    app.exit(0);
+  } else {
+    process.stderr.write(`${result.message}\n`);
+    app.exit(1);
+  }
+}
 
-    const latestVersion = versionFromTag(release.tag_name ?? '');
-    if (!latestVersion) {
-      throw new Error('Failed to parse latest release version.');
-    }
+let cliCommand: CliCommand | null = null;
+let cliError: string | null = null;
+try {
+  cliCommand = parseCliArgs(process.argv);
+} catch (error) {
+  cliError = error instanceof Error ? error.message : 'Invalid arguments.';
+}
 
-    if (compareVersions(latestVersion, currentVersion) > 0) {
-      pushUpdateStatus({
-        state: 'available',
-        currentVersion,
-        latestVersion,
-        releaseUrl: release.html_url
-      });
-      return;
-    }
+// A second launch hands its arguments to the running instance through `second-instance`,
+// except for reads, which it can answer itself. Without a running instance commands run headless.
+// Handed-over commands carry an id under which the running instance reports how they went.
+const cliRequestId = cliCommand && !isReadOnlyCommand(cliCommand) ? randomUUID() : null;
+const hasInstanceLock = cliError === null && app.requestSingleInstanceLock({ cliRequestId });
+const startsGui = hasInstanceLock && cliCommand === null;
 
-    pushUpdateStatus({
-      state: 'not_available',
-      currentVersion,
-      latestVersion
-    });
-  } catch (error) {
-    pushUpdateStatus({
-      state: 'error',
-      currentVersion,
-      message: error instanceof Error ? error.message : 'Failed to check updates.'
-    });
-  }
+if (cliError !== null) {
+  process.stderr.write(`${cliError}\n`);
+  app.exit(2);
+} else if (cliCommand && (hasInstanceLock || isReadOnlyCommand(cliCommand))) {
+  void runHeadless(cliCommand);
+} else if (!hasInstanceLock && cliRequestId) {
+  void reportForwardedCommand(cliRequestId);
+} else if (!hasInstanceLock) {
+  app.quit();
 }
 
-app.whenReady().then(() => {
+app.whenReady().then(async () => {
+  if (!startsGui) {
+    return;
+  }
+
   const storagePaths = createStoragePaths(app.getPath('userData'));
+  const settingsFilePath = settingsPathFor(app.getPath('userData'));
+  settings = await loadSettings(settingsFilePath);
+  windowStateFilePath = windowStatePathFor(app.getPath('userData'));
+  savedWindowState = await loadWindowState(windowStateFilePath);
+  noteWindowStateFilePath = noteWindowStatePathFor(app.getPath('userData'));
+  noteWindowStates = await loadNoteWindowStates(noteWindowStateFilePath);
+  try {
+    await openVault(storagePaths);
+  } catch (error) {
+    dialog.showErrorBox('Encryption settings could not be read', error instanceof Error ? error.message : 'Unknown error');
+    app.exit(1);
+    return;
+  }
 
   protocol.handle('memo-image', async (request) => {
-    const imageId = imageIdFromRequestUrl(request.url);
-    if (!imageId) {
+    const imageId = imageIdFromSrc(request.url);
+    if (!imageId || !isValidImageId(imageId)) {
       return new Response('Bad request', { status: 400 });
     }
 
-    let imagePath: string;
     try {
-      imagePath = imagePathForId(storagePaths, imageId);
-    } catch {
-      return new Response('Bad request', { status: 400 });
-    }
+      let image = await findImageFile(storagePaths.imagesDirPath, imageId);
+      if (!image && (await restoreQuarantinedImage(storagePaths, imageId))) {
+        image = await findImageFile(storagePaths.imagesDirPath, imageId);
+      }
+      if (!image) {
+        return new Response('Not found', { status: 404 });
+      }
 
-    try {
-      const imageBuffer = await readFile(imagePath);
-      return new Response(imageBuffer, {
+      return new Response(await readStoredFile(storagePaths, image.filePath), {
         status: 200,
-        headers: { 'content-type': 'image/png' }
+        headers: { 'content-type': imageContentType(image.format) }
       });
     } catch {
       return new Response('Not found', { status: 404 });
     }
   });
 
-  createAppMenu();
+  createAppMenu(storagePaths);
+  applyTraySettings();
   createWindow();
-  void checkForUpdatesOnStartup();
+  void reopenNoteWindows(storagePaths).catch(() => undefined);
+  registerQuickCaptureShortcut(settings.quickCaptureShortcut);
+  // A finished update has been swapped in by now; an unfinished one is downloaded again.
+  void rm(updatesDirectoryPath(), { recursive: true, force: true }).catch(() => undefined);
+  startUpdateChecks();
+  startStorageServices(storagePaths);
+  startAutoLock(storagePaths);
+  startTaskReminders(storagePaths, reminderStatePathFor(app.getPath('userData')));
+
+  app.on('second-instance', (_event, argv, workingDirectory, additionalData) => {
+    void handleSecondInstance(storagePaths, argv, workingDirectory, additionalData).catch(() => undefined);
+  });
+
+  handleIpc('memo:list', async () => listMemos(storagePaths));
+
+  handleIpc('memo:create', async (title) => createMemo(storagePaths, title));
+
+  handleIpc('memo:rename', async (id, title) => renameMemo(storagePaths, id, title));
 
-  ipcMain.handle('memo:load', async () => loadMemo(storagePaths));
+  handleIpc('memo:delete', async (id) => {
+    const list = await deleteMemo(storagePaths, id);
+    closeNoteWindow(id);
+    return list;
+  });
+
+  handleIpc('memo:setActive', async (id) => setActiveMemo(storagePaths, id));
+
+  handleIpc('memo:load', async (id) => loadMemo(storagePaths, id));
+
+  handleWindowIpc('memo:save', async (window, id, doc, baseUpdatedAt) => {
+    const result = await saveMemo(storagePaths, id, doc, baseUpdatedAt);
+    // Other windows on the same memo reload now instead of waiting for the file watcher.
+    if (result.ok) {
+      broadcast(MEMO_CHANGED_CHANNEL, { kind: 'memo', memoId: id, updatedAt: result.updatedAt }, window);
+    }
+    return result;
+  });
+
+  handleIpc('history:list', async (memoId) => listMemoSnapshots(storagePaths, memoId));
+
+  handleIpc('history:load', async (memoId, snapshotId) =>
+    loadMemoSnapshot(storagePaths, memoId, snapshotId)
+  );
 
-  ipcMain.handle('memo:save', async (_event, doc: MemoDoc) => saveMemo(storagePaths, doc));
+  handleIpc('history:restore', async (memoId, snapshotId) =>
+    restoreMemoSnapshot(storagePaths, memoId, snapshotId)
+  );
 
-  ipcMain.handle('image:saveBytes', async (_event, payload: ImageSaveRequest) => {
+  handleIpc('tasks:listOpen', async () => listOpenTasks(storagePaths));
+
+  handleIpc('markdown:export', async (memoId) => exportMarkdownWithDialog(storagePaths, memoId));
+
+  handleIpc('markdown:import', async () => importMarkdownWithDialog(storagePaths));
+
+  handleIpc('backup:export', async () => exportBackupWithDialog(storagePaths));
+
+  handleIpc('backup:import', async () => importBackupWithDialog(storagePaths));
+
+  handleIpc('image:saveBytes', async (payload) => {
     const imageBuffer = Buffer.from(payload.buffer);
-    return saveImage(storagePaths, imageBuffer, payload.width, payload.height);
+    return saveImage(storagePaths, imageBuffer, payload.width, payload.height, imageSaveOptions());
   });
 
-  ipcMain.handle('image:pasteFromClipboard', async () => {
+  handleIpc('image:pasteFromClipboard', async () => {
     const image = clipboard.readImage();
     if (image.isEmpty()) {
       throw new Error('No image in clipboard');
@@ -311,16 +1656,147 @@ app.whenReady().then(() => {
 
     const size = image.getSize();
     const imageBuffer = image.toPNG();
-    return saveImage(storagePaths, imageBuffer, size.width, size.height);
+    return saveImage(storagePaths, imageBuffer, size.width, size.height, imageSaveOptions());
+  });
+
+  handleIpc('image:openOriginal', async (src) => {
+    const imageId = imageIdFromSrc(src);
+    if (!imageId || !isValidImageId(imageId)) {
+      throw new Error('Not a memo image.');
+    }
+
+    const image =
+      (await findImageFile(storagePaths.imageOriginalsDirPath, imageId)) ??
+      (await findImageFile(storagePaths.imagesDirPath, imageId));
+    if (!image) {
+      throw new Error('Image file not found.');
+    }
+
+    const errorMessage = await shell.openPath(await viewableImagePath(storagePaths, image.filePath));
+    if (errorMessage) {
+      throw new Error(errorMessage);
+    }
+  });
+
+  handleIpc('vault:status', async () => vaultStatus(storagePaths));
+
+  handleIpc('vault:unlock', async (passphrase) => {
+    await unlockVault(storagePaths, passphrase);
+    startStorageServices(storagePaths);
+    return pushVaultStatus(storagePaths);
+  });
+
+  handleIpc('vault:lock', async () => {
+    await lockApp(storagePaths);
+    return vaultStatus(storagePaths);
+  });
+
+  handleIpc('vault:enable', async (passphrase) => {
+    await flushEditorWindows();
+    await enableEncryption(storagePaths, passphrase);
+    return pushVaultStatus(storagePaths);
+  });
+
+  handleIpc('vault:changePassphrase', async (currentPassphrase, nextPassphrase) => {
+    await flushEditorWindows();
+    await changePassphrase(storagePaths, currentPassphrase, nextPassphrase);
+    return pushVaultStatus(storagePaths);
+  });
+
+  handleIpc('vault:disable', async (passphrase) => {
+    await flushEditorWindows();
+    await disableEncryption(storagePaths, passphrase);
+    return pushVaultStatus(storagePaths);
+  });
+
+  handleIpc('settings:get', async () => settings);
+
+  handleIpc('settings:update', async (patch) => {
+    const validated = validateSettingsPatch(patch);
+    const shortcut = validated.quickCaptureShortcut;
+    if (typeof shortcut === 'string' && shortcut !== settings.quickCaptureShortcut) {
+      if (!registerQuickCaptureShortcut(shortcut)) {
+        registerQuickCaptureShortcut(settings.quickCaptureShortcut);
+        throw new Error(`The shortcut ${shortcut} could not be registered. It may be invalid or used by another app.`);
+      }
+    }
+
+    // While click-through is on, its shortcut is the only way out, so a new one must register first.
+    const clickThroughShortcut = validated.clickThroughShortcut;
+    if (
+      clickThroughWindows.size > 0 &&
+      typeof clickThroughShortcut === 'string' &&
+      clickThroughShortcut !== settings.clickThroughShortcut
+    ) {
+      if (!registerClickThroughShortcut(clickThroughShortcut)) {
+        registerClickThroughShortcut(settings.clickThroughShortcut);
+        registerQuickCaptureShortcut(settings.quickCaptureShortcut);
+        throw new Error(
+          `The shortcut ${clickThroughShortcut || '(none)'} could not be registered for turning click-through off.`
+        );
+      }
+    }
+
+    const previousChannel = settings.updateChannel;
+    const previousAlwaysOnTop = settings.alwaysOnTopByDefault;
+    settings = await updateSettings(settingsFilePath, patch);
+    broadcast(SETTINGS_CHANGED_CHANNEL, settings);
+    applyTraySettings();
+    // The saved window state would otherwise keep the old value at every launch, so a changed default applies now.
+    if (mainWindow && settings.alwaysOnTopByDefault !== previousAlwaysOnTop) {
+      setAlwaysOnTop(mainWindow, settings.alwaysOnTopByDefault);
+    }
+    if (settings.updateChannel !== previousChannel) {
+      void checkForUpdates(false);
+    }
+    return settings;
+  });
+
+  handleIpc('capture:append', async (text) => captureToActiveMemo(storagePaths, text));
+
+  handleIpc('capture:close', async () => {
+    captureWindow?.close();
+  });
+
+  handleWindowIpc('window:toggleAlwaysOnTop', async (window) => toggleAlwaysOnTop(window));
+
+  handleWindowIpc('window:getAlwaysOnTop', async (window) => getTopState(window));
+
+  handleWindowIpc('window:getOverlayState', async (window) => getOverlayState(window));
+
+  handleWindowIpc('window:setOpacity', async (window, opacity) => setWindowOpacity(window, opacity));
+
+  handleWindowIpc('window:setClickThrough', async (window, enabled) => setClickThrough(window, enabled));
+
+  handleIpc('window:openNote', async (memoId) => {
+    // Fails for a memo that does not exist before a window is opened for it.
+    await loadMemo(storagePaths, memoId);
+    openNoteWindow(memoId);
   });
 
-  ipcMain.handle('window:toggleAlwaysOnTop', async () => toggleAlwaysOnTop());
+  handleIpc('app:getUpdateStatus', async () => latestUpdateStatus);
 
-  ipcMain.handle('window:getAlwaysOnTop', async () => getTopState());
+  handleIpc('app:checkForUpdates', async () => checkForUpdates(true));
 
-  ipcMain.handle('app:getUpdateStatus', async () => latestUpdateStatus);
+  handleIpc('app:downloadUpdate', async () => startUpdateDownload());
+
+  handleIpc('app:installUpdate', async () => {
+    installStagedUpdate();
+  });
+
+  handleIpc('app:skipUpdateVersion', async (version) => {
+    settings = await updateSettings(settingsFilePath, { skippedUpdateVersion: version });
+    broadcast(SETTINGS_CHANGED_CHANNEL, settings);
+    pushUpdateStatus({
+      state: 'not_available',
+      currentVersion: app.getVersion(),
+      latestVersion: latestUpdateStatus.latestVersion,
+      message: `Version ${version} is skipped.`
+    });
+    return latestUpdateStatus;
+  });
 
-  ipcMain.handle('app:openLatestRelease', async () => {
+  handleIpc('app:openLatestRelease', async () => {
     const releaseUrl = latestUpdateStatus.releaseUrl;
     if (!releaseUrl || !RELEASE_URL_PATTERN.test(releaseUrl)) {
       throw new Error('No valid release URL is available.');
@@ -329,14 +1805,29 @@ app.whenReady().then(() => {
   });
 
   app.on('activate', () => {
-    if (BrowserWindow.getAllWindows().length === 0) {
-      createWindow();
+    // Clicking the Dock icon also brings back a window hidden on blur or from the tray.
+    if (!mainWindow || !mainWindow.isVisible()) {
+      showMainWindow();
     }
   });
 });
 
+app.on('before-quit', () => {
+  isQuitting = true;
+});
+
+app.on('will-quit', () => {
+  globalShortcut.unregisterAll();
+  removeOpenedImages();
+  const appPath = installedAppPath();
+  if (restartToUpdate && stagedUpdateAppPath && appPath) {
+    launchUpdateInstaller(stagedUpdateAppPath, appPath);
+  }
+});
+
 app.on('window-all-closed', () => {
-  if (process.platform !== 'darwin') {
+  // With a tray icon the app keeps running so the tray can open the memo again.
+  if (process.platform !== 'darwin' && !tray) {
     app.quit();
   }
 });
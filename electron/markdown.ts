@@ -0,0 +1,717 @@
+import { mkdir, readFile, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import { DEFAULT_IMAGE_ALIGN, parseImageAlign, parseImageWidth } from '../src/shared/image';
+import type { MarkdownExportResponse, MarkdownImageMode, MemoDoc, MemoSummary } from '../src/shared/types';
+import { imageIdFromSrc } from './doc';
+import { createMemo, findImageFile, imagePathForId, loadMemo, readStoredFile, saveImage, saveMemo } from './storage';
+import type { SaveImageOptions, StoragePaths } from './storage';
+
+type MarkName = 'bold' | 'italic' | 'strike' | 'code';
+
+type InlineSpan = {
+  nodes: MemoDoc[];
+  end: number;
+};
+
+const MARK_ORDER: MarkName[] = ['bold', 'italic', 'strike', 'code'];
+const MARK_DELIMITERS: Array<[string, MarkName]> = [
+  ['**', 'bold'],
+  ['~~', 'strike'],
+  ['*', 'italic']
+];
+const ESCAPABLE_CHARS = '\\`*_{}[]()#+-.!~<>|=';
+const EMPTY_PARAGRAPH_MARKER = '<br>';
+
+const FENCE_PATTERN = /^(`{3,}|~{3,})\s*([^`\s]*)\s*$/;
+const HEADING_PATTERN = /^(#{1,6})(?:\s+(.*))?$/;
+const RULE_PATTERN = /^(?:-{3,}|\*{3,}|_{3,})\s*$/;
+const QUOTE_PATTERN = /^ {0,3}> ?/;
+const LIST_ITEM_PATTERN = /^( {0,3})([-+*]|\d{1,9}[.)])( +|$)(.*)$/;
+const TASK_MARKER_PATTERN = /^\[([ xX])\](?: +|$)(.*)$/;
+const IMAGE_LINE_PATTERN = /^!\[((?:\\.|[^\]\\])*)\]\(\s*(<[^>]*>|\S+?)(?:\s+"((?:\\.|[^"\\])*)")?\s*\)\s*$/;
+const HTML_IMAGE_PATTERN = /^<img\s([^>]*?)\/?>$/i;
+const HTML_FIGURE_PATTERN = /^<figure>\s*<img\s([^>]*?)\/?>\s*<figcaption>([^<]*)<\/figcaption>\s*<\/figure>$/i;
+const HTML_ATTRIBUTE_PATTERN = /([a-z][a-z0-9-]*)\s*=\s*(?:"([^"]*)"|'([^']*)')/gi;
+const HTML_ESCAPES: Record<string, string> = { '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', '\n': '&#10;' };
+const HTML_ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'" };
+
+/* ---------- Tiptap JSON -> Markdown ---------- */
+
+function escapeText(text: string): string {
+  return text.replace(/[\\`*_[\]~<>]/g, (char) => `\\${char}`);
+}
+
+function escapeLineStarts(markdown: string): string {
+  return markdown
+    .split('\n')
+    .map((line) => line.replace(/^(\s*)([#>+=|-])/, '$1\\$2').replace(/^(\s*\d+)([.)])/, '$1\\$2'))
+    .join('\n');
+}
+
+function codeSpan(text: string): string {
+  const longestRun = Math.max(0, ...(text.match(/`+/g) ?? []).map((run) => run.length));
+  const fence = '`'.repeat(longestRun + 1);
+  const padding = text.startsWith('`') || text.endsWith('`') ? ' ' : '';
+  return `${fence}${padding}${text}${padding}${fence}`;
+}
+
+function markDelimiter(mark: MarkName): string {
+  return mark === 'bold' ? '**' : mark === 'italic' ? '*' : '~~';
+}
+
+function nodeMarks(node: MemoDoc): MarkName[] {
+  const names = (node.marks ?? []).map((mark) => mark.type as MarkName);
+  return MARK_ORDER.filter((mark) => names.includes(mark));
+}
+
+function serializeInline(nodes: MemoDoc[]): string {
+  let output = '';
+  const active: MarkName[] = [];
+
+  const closeTo = (depth: number) => {
+    while (active.length > depth) {
+      output += markDelimiter(active.pop() as MarkName);
+    }
+  };
+
+  for (const node of nodes) {
+    if (node.type === 'hardBreak') {
+      closeTo(0);
+      output += '\\\n';
+      continue;
+    }
+
+    if (node.type !== 'text' || !node.text) {
+      continue;
+    }
+
+    const marks = nodeMarks(node);
+    if (marks.includes('code')) {
+      closeTo(0);
+      output += codeSpan(node.text);
+      continue;
+    }
+
+    let shared = 0;
+    while (shared < active.length && shared < marks.length && active[shared] === marks[shared]) {
+      shared += 1;
+    }
+    closeTo(shared);
+
+    for (const mark of marks.slice(shared)) {
+      output += markDelimiter(mark);
+      active.push(mark);
+    }
+    output += escapeText(node.text);
+  }
+
+  closeTo(0);
+  return escapeLineStarts(output);
+}
+
+function prefixLines(text: string, first: string, rest: string): string {
+  return text
+    .split('\n')
+    .map((line, index) => {
+      if (index === 0) {
+        return `${first}${line}`;
+      }
+      return line ? `${rest}${line}` : line;
+    })
+    .join('\n');
+}
+
+function escapeHtml(text: string): string {
+  return text.replace(/[&<>"\n]/g, (char) => HTML_ESCAPES[char]);
+}
+
+/** Images with a width, alignment or caption are written as one line of HTML, which Markdown has no syntax for. */
+function serializeHtmlImage(node: MemoDoc, src: string, width: number | null, caption: string): string {
+  const attributes: Array<[string, unknown]> = [
+    ['src', src],
+    ['alt', node.attrs?.alt],
+    ['title', node.attrs?.title],
+    ['width', width],
+    ['data-align', parseImageAlign(node.attrs?.align)]
+  ];
+  const image = `<img ${attributes
+    .filter(([, value]) => value !== null && value !== undefined && value !== '')
+    .map(([name, value]) => `${name}="${escapeHtml(String(value))}"`)
+    .join(' ')}>`;
+  return caption ? `<figure>${image}<figcaption>${escapeHtml(caption)}</figcaption></figure>` : image;
+}
+
+function serializeImage(node: MemoDoc, resolveImageSrc: (src: string) => string): string {
+  const src = resolveImageSrc(String(node.attrs?.src ?? ''));
+  const width = parseImageWidth(node.attrs?.width);
+  const caption = node.attrs?.caption ? String(node.attrs.caption) : '';
+  if (width || caption || parseImageAlign(node.attrs?.align) !== DEFAULT_IMAGE_ALIGN) {
+    return serializeHtmlImage(node, src, width, caption);
+  }
+
+  const alt = String(node.attrs?.alt ?? '').replace(/[\\\]]/g, (char) => `\\${char}`);
+  const title = node.attrs?.title ? ` "${String(node.attrs.title).replace(/["\\]/g, (char) => `\\${char}`)}"` : '';
+  const target = /[\s()<>]/.test(src) ? `<${src}>` : src;
+  return `![${alt}](${target}${title})`;
+}
+
+function serializeBlock(node: MemoDoc, resolveImageSrc: (src: string) => string): string {
+  const children = node.content ?? [];
+
+  switch (node.type) {
+    case 'paragraph':
+      return children.length > 0 ? serializeInline(children) : EMPTY_PARAGRAPH_MARKER;
+    case 'heading':
+      return `${'#'.repeat(Number(node.attrs?.level ?? 1))} ${serializeInline(children)}`;
+    case 'blockquote':
+      return prefixLines(serializeBlocks(children, resolveImageSrc), '> ', '> ').replace(/^$/gm, '>');
+    case 'codeBlock': {
+      const text = children.map((child) => child.text ?? '').join('');
+      const longestFence = Math.max(2, ...(text.match(/^`{3,}/gm) ?? []).map((run) => run.length));
+      const fence = '`'.repeat(longestFence + 1);
+      return `${fence}${String(node.attrs?.language ?? '')}\n${text}${text ? '\n' : ''}${fence}`;
+    }
+    case 'horizontalRule':
+      return '---';
+    case 'image':
+      return serializeImage(node, resolveImageSrc);
+    case 'bulletList':
+    case 'orderedList': {
+      const start = Number(node.attrs?.start ?? 1);
+      return children
+        .map((item, index) => {
+          const marker = node.type === 'orderedList' ? `${start + index}. ` : '- ';
+          const body = serializeBlocks(item.content ?? [], resolveImageSrc, true);
+          return prefixLines(body, marker, ' '.repeat(marker.length));
+        })
+        .join('\n');
+    }
+    case 'taskList':
+      return children
+        .map((item) => {
+          const marker = item.attrs?.checked === true ? '- [x] ' : '- [ ] ';
+          const body = serializeBlocks(item.content ?? [], resolveImageSrc, true);
+          return prefixLines(body, marker, '  ');
+        })
+        .join('\n');
+    default:
+      return children.length > 0 ? serializeBlocks(children, resolveImageSrc) : '';
+  }
+}
+
+function serializeBlocks(nodes: MemoDoc[], resolveImageSrc: (src: string) => string, inListItem = false): string {
+  let output = '';
+
+  nodes.forEach((node, index) => {
+    if (index > 0) {
+      const isList = node.type === 'bulletList' || node.type === 'orderedList' || node.type === 'taskList';
+      output += inListItem && isList ? '\n' : '\n\n';
+    }
+    output += serializeBlock(node, resolveImageSrc);
+  });
+
+  return output;
+}
+
+export function docToMarkdown(doc: MemoDoc, resolveImageSrc: (src: string) => string = (src) => src): string {
+  const markdown = serializeBlocks(doc.content ?? [], resolveImageSrc);
+  return markdown ? `${markdown}\n` : '';
+}
+
+/* ---------- Markdown -> Tiptap JSON ---------- */
+
+function unescapeMarkdown(text: string): string {
+  return text.replace(/\\(.)/g, (match, char: string) => (ESCAPABLE_CHARS.includes(char) ? char : match));
+}
+
+function textNode(text: string, marks: MarkName[]): MemoDoc {
+  return marks.length > 0
+    ? { type: 'text', text, marks: marks.map((mark) => ({ type: mark })) }
+    : { type: 'text', text };
+}
+
+function mergeTextNodes(nodes: MemoDoc[]): MemoDoc[] {
+  const merged: MemoDoc[] = [];
+
+  for (const node of nodes) {
+    const previous = merged[merged.length - 1];
+    if (
+      previous?.type === 'text' &&
+      node.type === 'text' &&
+      JSON.stringify(previous.marks ?? []) === JSON.stringify(node.marks ?? [])
+    ) {
+      merged[merged.length - 1] = { ...previous, text: `${previous.text ?? ''}${node.text ?? ''}` };
+      continue;
+    }
+    merged.push(node);
+  }
+
+  return merged;
+}
+
+/**
+ * Parses inline markup up to `closer`. Returns null when the closer never appears,
+ * so the caller can fall back to treating the opening delimiter as plain text.
+ */
+function parseSpan(source: string, start: number, marks: MarkName[], closer: string | null): InlineSpan | null {
+  const nodes: MemoDoc[] = [];
+  let buffer = '';
+  let index = start;
+
+  const flush = () => {
+    if (buffer) {
+      nodes.push(textNode(buffer, marks));
+      buffer = '';
+    }
+  };
+
+  while (index < source.length) {
+    if (closer && source.startsWith(closer, index) && (buffer || nodes.length > 0)) {
+      flush();
+      return { nodes, end: index + closer.length };
+    }
+
+    const char = source[index];
+
+    if (char === '\\' && index + 1 < source.length && ESCAPABLE_CHARS.includes(source[index + 1])) {
+      buffer += source[index + 1];
+      index += 2;
+      continue;
+    }
+
+    if (char === '\n') {
+      flush();
+      nodes.push({ type: 'hardBreak' });
+      index += 1;
+      continue;
+    }
+
+    if (char === '`') {
+      const run = source.slice(index).match(/^`+/)?.[0] ?? '`';
+      const closeIndex = source.indexOf(run, index + run.length);
+      if (closeIndex > 0) {
+        let code = source.slice(index + run.length, closeIndex);
+        if (code.length > 2 && code.startsWith(' ') && code.endsWith(' ')) {
+          code = code.slice(1, -1);
+        }
+        flush();
+        nodes.push(textNode(code, ['code']));
+        index = closeIndex + run.length;
+        continue;
+      }
+      buffer += run;
+      index += run.length;
+      continue;
+    }
+
+    let matched = false;
+    for (const [delimiter, mark] of MARK_DELIMITERS) {
+      if (!source.startsWith(delimiter, index) || marks.includes(mark)) {
+        continue;
+      }
+
+      const nextMarks = MARK_ORDER.filter((name) => name === mark || marks.includes(name));
+      const inner = parseSpan(source, index + delimiter.length, nextMarks, delimiter);
+      if (inner) {
+        flush();
+        nodes.push(...inner.nodes);
+        index = inner.end;
+        matched = true;
+      }
+      break;
+    }
+
+    if (!matched) {
+      buffer += char;
+      index += 1;
+    }
+  }
+
+  if (closer) {
+    return null;
+  }
+
+  flush();
+  return { nodes, end: index };
+}
+
+function parseInline(lines: string[]): MemoDoc[] {
+  // Hard breaks become '\n' for parseSpan; soft line breaks collapse to spaces.
+  const source = lines
+    .map((line, index) => {
+      const trimmed = line.trimStart();
+      if (/(^|[^\\])(\\\\)*\\$/.test(trimmed)) {
+        return `${trimmed.slice(0, -1)}\n`;
+      }
+      if (index === lines.length - 1) {
+        return trimmed.trimEnd();
+      }
+      if (/ {2,}$/.test(trimmed)) {
+        return `${trimmed.trimEnd()}\n`;
+      }
+      return `${trimmed.trimEnd()} `;
+    })
+    .join('');
+
+  return mergeTextNodes(parseSpan(source, 0, [], null)?.nodes ?? []);
+}
+
+function indentOf(line: string): number {
+  return line.length - line.trimStart().length;
+}
+
+function isBlank(line: string): boolean {
+  return line.trim() === '';
+}
+
+function listKind(match: RegExpMatchArray): string {
+  const marker = match[2];
+  return /\d/.test(marker) ? `ordered${marker.slice(-1)}` : `bullet${marker}`;
+}
+
+function startsBlock(line: string): boolean {
+  return (
+    FENCE_PATTERN.test(line) ||
+    HEADING_PATTERN.test(line) ||
+    RULE_PATTERN.test(line) ||
+    QUOTE_PATTERN.test(line) ||
+    LIST_ITEM_PATTERN.test(line) ||
+    IMAGE_LINE_PATTERN.test(line) ||
+    HTML_IMAGE_PATTERN.test(line.trim()) ||
+    HTML_FIGURE_PATTERN.test(line.trim()) ||
+    line.trim() === EMPTY_PARAGRAPH_MARKER
+  );
+}
+
+function unescapeHtml(text: string): string {
+  return text.replace(/&(#\d{1,6}|[a-z]+);/gi, (match, entity: string) => {
+    if (!entity.startsWith('#')) {
+      return HTML_ENTITIES[entity.toLowerCase()] ?? match;
+    }
+    const codePoint = Number(entity.slice(1));
+    return codePoint <= 0x10ffff ? String.fromCodePoint(codePoint) : match;
+  });
+}
+
+function parseHtmlImageLine(line: string): MemoDoc | null {
+  const match = line.match(HTML_IMAGE_PATTERN) ?? line.match(HTML_FIGURE_PATTERN);
+  if (!match) {
+    return null;
+  }
+
+  const attributes = new Map<string, string>();
+  for (const attribute of match[1].matchAll(HTML_ATTRIBUTE_PATTERN)) {
+    attributes.set(attribute[1].toLowerCase(), unescapeHtml(attribute[2] ?? attribute[3]));
+  }
+  if (!attributes.get('src')) {
+    return null;
+  }
+
+  return {
+    type: 'image',
+    attrs: {
+      src: attributes.get('src'),
+      alt: attributes.get('alt') || null,
+      title: attributes.get('title') || null,
+      width: parseImageWidth(attributes.get('width')),
+      align: parseImageAlign(attributes.get('data-align')),
+      caption: match[2] ? unescapeHtml(match[2]) : null
+    }
+  };
+}
+
+function parseImageLine(line: string): MemoDoc | null {
+  const match = line.match(IMAGE_LINE_PATTERN);
+  if (!match) {
+    return parseHtmlImageLine(line);
+  }
+
+  const target = match[2].startsWith('<') ? match[2].slice(1, -1) : match[2];
+  return {
+    type: 'image',
+    attrs: {
+      src: target,
+      alt: match[1] ? unescapeMarkdown(match[1]) : null,
+      title: match[3] ? unescapeMarkdown(match[3]) : null
+    }
+  };
+}
+
+function parseList(lines: string[], start: number): { node: MemoDoc; end: number } {
+  const first = lines[start].match(LIST_ITEM_PATTERN) as RegExpMatchArray;
+  const kind = listKind(first);
+  const ordered = kind.startsWith('ordered');
+  // Literal brackets are escaped on export, so a leading `[ ]` or `[x]` is always a checkbox.
+  const tasks = !ordered && TASK_MARKER_PATTERN.test(first[4]);
+  const items: MemoDoc[] = [];
+  let index = start;
+
+  while (index < lines.length) {
+    const match = lines[index].match(LIST_ITEM_PATTERN);
+    if (!match || listKind(match) !== kind) {
+      break;
+    }
+
+    const contentIndent = match[1].length + match[2].length + Math.max(1, Math.min(match[3].length, 4));
+    const taskMarker = tasks ? match[4].match(TASK_MARKER_PATTERN) : null;
+    const itemLines = [taskMarker ? taskMarker[2] : match[4]];
+    index += 1;
+
+    while (index < lines.length) {
+      const line = lines[index];
+      if (isBlank(line)) {
+        let next = index;
+        while (next < lines.length && isBlank(lines[next])) {
+          next += 1;
+        }
+        if (next < lines.length && indentOf(lines[next]) >= contentIndent) {
+          itemLines.push(...lines.slice(index, next).map(() => ''));
+          index = next;
+          continue;
+        }
+        break;
+      }
+      if (indentOf(line) < contentIndent) {
+        break;
+      }
+      itemLines.push(line.slice(contentIndent));
+      index += 1;
+    }
+
+    const content = parseBlocks(itemLines);
+    if (content[0]?.type !== 'paragraph') {
+      content.unshift({ type: 'paragraph' });
+    }
+    items.push(
+      tasks
+        ? { type: 'taskItem', attrs: { checked: taskMarker?.[1].toLowerCase() === 'x' }, content }
+        : { type: 'listItem', content }
+    );
+
+    let next = index;
+    while (next < lines.length && isBlank(lines[next])) {
+      next += 1;
+    }
+    const following = next < lines.length ? lines[next].match(LIST_ITEM_PATTERN) : null;
+    if (!following || listKind(following) !== kind) {
+      break;
+    }
+    index = next;
+  }
+
+  const node: MemoDoc = ordered
+    ? { type: 'orderedList', attrs: { start: Number.parseInt(first[2], 10), type: null }, content: items }
+    : { type: tasks ? 'taskList' : 'bulletList', content: items };
+  return { node, end: index };
+}
+
+function parseBlocks(lines: string[]): MemoDoc[] {
+  const blocks: MemoDoc[] = [];
+  let index = 0;
+
+  while (index < lines.length) {
+    const line = lines[index];
+
+    if (isBlank(line)) {
+      index += 1;
+      continue;
+    }
+
+    const fence = line.match(FENCE_PATTERN);
+    if (fence) {
+      const body: string[] = [];
+      index += 1;
+      while (index < lines.length) {
+        const closing = lines[index].trim();
+        if (closing.startsWith(fence[1][0]) && /^(`+|~+)$/.test(closing) && closing.length >= fence[1].length) {
+          index += 1;
+          break;
+        }
+        body.push(lines[index]);
+        index += 1;
+      }
+      const text = body.join('\n');
+      blocks.push({
+        type: 'codeBlock',
+        attrs: { language: fence[2] || null },
+        ...(text ? { content: [{ type: 'text', text }] } : {})
+      });
+      continue;
+    }
+
+    const heading = line.match(HEADING_PATTERN);
+    if (heading) {
+      const content = parseInline([heading[2] ?? '']);
+      blocks.push({
+        type: 'heading',
+        attrs: { level: heading[1].length },
+        ...(content.length > 0 ? { content } : {})
+      });
+      index += 1;
+      continue;
+    }
+
+    if (RULE_PATTERN.test(line)) {
+      blocks.push({ type: 'horizontalRule' });
+      index += 1;
+      continue;
+    }
+
+    if (QUOTE_PATTERN.test(line)) {
+      const quoted: string[] = [];
+      while (index < lines.length && QUOTE_PATTERN.test(lines[index])) {
+        quoted.push(lines[index].replace(QUOTE_PATTERN, ''));
+        index += 1;
+      }
+      const content = parseBlocks(quoted);
+      blocks.push({ type: 'blockquote', content: content.length > 0 ? content : [{ type: 'paragraph' }] });
+      continue;
+    }
+
+    if (LIST_ITEM_PATTERN.test(line)) {
+      const list = parseList(lines, index);
+      blocks.push(list.node);
+      index = list.end;
+      continue;
+    }
+
+    const image = parseImageLine(line.trim());
+    if (image) {
+      blocks.push(image);
+      index += 1;
+      continue;
+    }
+
+    if (line.trim() === EMPTY_PARAGRAPH_MARKER) {
+      blocks.push({ type: 'paragraph' });
+      index += 1;
+      continue;
+    }
+
+    const paragraph: string[] = [line];
+    index += 1;
+    while (index < lines.length && !isBlank(lines[index]) && !startsBlock(lines[index])) {
+      paragraph.push(lines[index]);
+      index += 1;
+    }
+    const content = parseInline(paragraph);
+    blocks.push(content.length > 0 ? { type: 'paragraph', content } : { type: 'paragraph' });
+  }
+
+  return blocks;
+}
+
+export function markdownToDoc(markdown: string): MemoDoc {
+  const lines = markdown.replace(/\r\n?/g, '\n').replace(/\t/g, '    ').split('\n');
+  const content = parseBlocks(lines);
+  return {
+    type: 'doc',
+    content: content.length > 0 ? content : [{ type: 'paragraph' }]
+  };
+}
+
+/* ---------- File import / export ---------- */
+
+async function mapImages(doc: MemoDoc, map: (node: MemoDoc) => Promise<MemoDoc>): Promise<MemoDoc> {
+  const mapped = doc.type === 'image' ? await map(doc) : doc;
+  if (!mapped.content) {
+    return mapped;
+  }
+
+  const content: MemoDoc[] = [];
+  for (const child of mapped.content) {
+    content.push(await mapImages(child, map));
+  }
+  return { ...mapped, content };
+}
+
+function toMarkdownPath(relativePath: string): string {
+  return relativePath.split(path.sep).map(encodeURIComponent).join('/');
+}
+
+function fromMarkdownPath(markdownPath: string): string {
+  try {
+    return decodeURIComponent(markdownPath);
+  } catch {
+    return markdownPath;
+  }
+}
+
+/**
+ * Writes a memo as Markdown. In `copy` mode images are copied into a `<name>.assets`
+ * folder next to the file; in `link` mode they point at the app's image store.
+ */
+export async function exportMemoToMarkdown(
+  paths: StoragePaths,
+  memoId: string,
+  filePath: string,
+  imageMode: MarkdownImageMode
+): Promise<MarkdownExportResponse> {
+  if (imageMode === 'link' && paths.vault.enabled) {
+    throw new Error('Encrypted images cannot be linked. Export with copied images instead.');
+  }
+
+  const memo = await loadMemo(paths, memoId);
+  const markdownDir = path.dirname(filePath);
+  const assetsDirName = `${path.basename(filePath, path.extname(filePath))}.assets`;
+  let imageCount = 0;
+
+  const doc = await mapImages(memo.doc, async (node) => {
+    const imageId = imageIdFromSrc(String(node.attrs?.src ?? ''));
+    if (!imageId) {
+      return node;
+    }
+
+    // Prefer the full-size original when the stored image is a downscaled display copy.
+    const image =
+      (await findImageFile(paths.imageOriginalsDirPath, imageId)) ?? (await findImageFile(paths.imagesDirPath, imageId));
+    const imagePath = image?.filePath ?? imagePathForId(paths, imageId);
+    let relativePath = path.relative(markdownDir, imagePath);
+
+    if (imageMode === 'copy') {
+      const assetsDirPath = path.join(markdownDir, assetsDirName);
+      await mkdir(assetsDirPath, { recursive: true });
+      const copiedPath = path.join(assetsDirPath, path.basename(imagePath));
+      await writeFile(copiedPath, await readStoredFile(paths, imagePath));
+      relativePath = path.relative(markdownDir, copiedPath);
+    }
+
+    imageCount += 1;
+    return { ...node, attrs: { ...node.attrs, src: toMarkdownPath(relativePath) } };
+  });
+
+  await writeFile(filePath, docToMarkdown(doc), 'utf8');
+  return { filePath, imageCount };
+}
+
+/**
+ * Creates a new memo from a Markdown file. Local image files referenced by relative
+ * path are copied into the image store; other image URLs are kept as written.
+ */
+export async function importMarkdownFile(
+  paths: StoragePaths,
+  filePath: string,
+  imageOptions: SaveImageOptions = {}
+): Promise<MemoSummary> {
+  const markdown = await readFile(filePath, 'utf8');
+  const markdownDir = path.dirname(filePath);
+
+  const doc = await mapImages(markdownToDoc(markdown), async (node) => {
+    const src = String(node.attrs?.src ?? '');
+    if (!src || imageIdFromSrc(src) || /^[a-z][a-z0-9+.-]*:/i.test(src)) {
+      return node;
+    }
+
+    try {
+      const imageBuffer = await readFile(path.resolve(markdownDir, fromMarkdownPath(src)));
+      const saved = await saveImage(paths, imageBuffer, 0, 0, imageOptions);
+      return { ...node, attrs: { ...node.attrs, src: saved.src } };
+    } catch {
+      return node;
+    }
+  });
+
+  const summary = await createMemo(paths, path.basename(filePath, path.extname(filePath)));
+  await saveMemo(paths, summary.id, doc);
+  return summary;
+}
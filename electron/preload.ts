@@ -1,15 +1,131 @@
 import { contextBridge, ipcRenderer } from 'electron';
-import type { ImageSaveRequest, MemoApi, MemoDoc, UpdateStatusPayload } from '../src/shared/types';
+import type {
+  AppSettings,
+  FlushResult,
+  ImageSaveRequest,
+  MemoApi,
+  MemoChangeEvent,
+  MemoDoc,
+  MenuCommand,
+  OverlayState,
+  TaskRevealRequest,
+  TopState,
+  UpdateProgress,
+  UpdateStatusPayload,
+  VaultStatus
+} from '../src/shared/types';
 
 const UPDATE_STATUS_CHANNEL = 'app:updateStatus';
+const UPDATE_PROGRESS_CHANNEL = 'app:updateProgress';
+const MENU_COMMAND_CHANNEL = 'app:menuCommand';
+const MEMO_CHANGED_CHANNEL = 'memo:changed';
+const SETTINGS_CHANGED_CHANNEL = 'settings:changed';
+const FLUSH_REQUEST_CHANNEL = 'app:flushRequest';
+const FLUSH_COMPLETE_CHANNEL = 'app:flushComplete';
+const VAULT_STATUS_CHANNEL = 'vault:status';
+const TASK_REVEAL_CHANNEL = 'tasks:reveal';
+const TOP_STATE_CHANNEL = 'window:topState';
+const OVERLAY_STATE_CHANNEL = 'window:overlayState';
 
 const api: MemoApi = {
-  loadMemo: async () => ipcRenderer.invoke('memo:load'),
-  saveMemo: async (doc: MemoDoc) => ipcRenderer.invoke('memo:save', doc),
+  listMemos: async () => ipcRenderer.invoke('memo:list'),
+  createMemo: async (title?: string) => ipcRenderer.invoke('memo:create', title),
+  renameMemo: async (id: string, title: string) => ipcRenderer.invoke('memo:rename', id, title),
+  deleteMemo: async (id: string) => ipcRenderer.invoke('memo:delete', id),
+  setActiveMemo: async (id: string) => ipcRenderer.invoke('memo:setActive', id),
+  loadMemo: async (id: string) => ipcRenderer.invoke('memo:load', id),
+  saveMemo: async (id: string, doc: MemoDoc, baseUpdatedAt?: string) =>
+    ipcRenderer.invoke('memo:save', id, doc, baseUpdatedAt),
+  onMemoChanged: (listener: (event: MemoChangeEvent) => void) => {
+    const wrapped = (_event: Electron.IpcRendererEvent, change: MemoChangeEvent) => {
+      listener(change);
+    };
+    ipcRenderer.on(MEMO_CHANGED_CHANNEL, wrapped);
+    return () => ipcRenderer.removeListener(MEMO_CHANGED_CHANNEL, wrapped);
+  },
+  listSnapshots: async (memoId: string) => ipcRenderer.invoke('history:list', memoId),
+  loadSnapshot: async (memoId: string, snapshotId: string) => ipcRenderer.invoke('history:load', memoId, snapshotId),
+  restoreSnapshot: async (memoId: string, snapshotId: string) =>
+    ipcRenderer.invoke('history:restore', memoId, snapshotId),
+  listOpenTasks: async () => ipcRenderer.invoke('tasks:listOpen'),
+  onRevealTask: (listener: (request: TaskRevealRequest) => void) => {
+    const wrapped = (_event: Electron.IpcRendererEvent, request: TaskRevealRequest) => {
+      listener(request);
+    };
+    ipcRenderer.on(TASK_REVEAL_CHANNEL, wrapped);
+    return () => ipcRenderer.removeListener(TASK_REVEAL_CHANNEL, wrapped);
+  },
+  exportMarkdown: async (memoId: string) => ipcRenderer.invoke('markdown:export', memoId),
+  importMarkdown: async () => ipcRenderer.invoke('markdown:import'),
+  exportBackup: async () => ipcRenderer.invoke('backup:export'),
+  importBackup: async () => ipcRenderer.invoke('backup:import'),
+  onMenuCommand: (listener: (command: MenuCommand) => void) => {
+    const wrapped = (_event: Electron.IpcRendererEvent, command: MenuCommand) => {
+      listener(command);
+    };
+    ipcRenderer.on(MENU_COMMAND_CHANNEL, wrapped);
+    return () => ipcRenderer.removeListener(MENU_COMMAND_CHANNEL, wrapped);
+  },
+  onFlushRequest: (listener: () => Promise<FlushResult>) => {
+    const wrapped = () => {
+      void listener()
+        .catch((error: unknown) => ({
+          ok: false,
+          message: error instanceof Error ? error.message : 'Save failed'
+        }))
+        .then((result) => ipcRenderer.send(FLUSH_COMPLETE_CHANNEL, result));
+    };
+    ipcRenderer.on(FLUSH_REQUEST_CHANNEL, wrapped);
+    return () => ipcRenderer.removeListener(FLUSH_REQUEST_CHANNEL, wrapped);
+  },
+  getSettings: async () => ipcRenderer.invoke('settings:get'),
+  updateSettings: async (patch: Partial<AppSettings>) => ipcRenderer.invoke('settings:update', patch),
+  onSettingsChanged: (listener: (settings: AppSettings) => void) => {
+    const wrapped = (_event: Electron.IpcRendererEvent, settings: AppSettings) => {
+      listener(settings);
+    };
+    ipcRenderer.on(SETTINGS_CHANGED_CHANNEL, wrapped);
+    return () => ipcRenderer.removeListener(SETTINGS_CHANGED_CHANNEL, wrapped);
+  },
+  appendCapture: async (text: string) => ipcRenderer.invoke('capture:append', text),
+  closeCapture: async () => ipcRenderer.invoke('capture:close'),
   saveImageFromBytes: async (payload: ImageSaveRequest) => ipcRenderer.invoke('image:saveBytes', payload),
   pasteImageFromClipboard: async () => ipcRenderer.invoke('image:pasteFromClipboard'),
+  openOriginalImage: async (src: string) => ipcRenderer.invoke('image:openOriginal', src),
+  getVaultStatus: async () => ipcRenderer.invoke('vault:status'),
+  unlockVault: async (passphrase: string) => ipcRenderer.invoke('vault:unlock', passphrase),
+  lockVault: async () => ipcRenderer.invoke('vault:lock'),
+  enableEncryption: async (passphrase: string) => ipcRenderer.invoke('vault:enable', passphrase),
+  changePassphrase: async (currentPassphrase: string, nextPassphrase: string) =>
+    ipcRenderer.invoke('vault:changePassphrase', currentPassphrase, nextPassphrase),
+  disableEncryption: async (passphrase: string) => ipcRenderer.invoke('vault:disable', passphrase),
+  onVaultStatus: (listener: (status: VaultStatus) => void) => {
+    const wrapped = (_event: Electron.IpcRendererEvent, status: VaultStatus) => {
+      listener(status);
+    };
+    ipcRenderer.on(VAULT_STATUS_CHANNEL, wrapped);
+    return () => ipcRenderer.removeListener(VAULT_STATUS_CHANNEL, wrapped);
+  },
   toggleAlwaysOnTop: async () => ipcRenderer.invoke('window:toggleAlwaysOnTop'),
   getAlwaysOnTop: async () => ipcRenderer.invoke('window:getAlwaysOnTop'),
+  onTopStateChanged: (listener: (state: TopState) => void) => {
+    const wrapped = (_event: Electron.IpcRendererEvent, state: TopState) => {
+      listener(state);
+    };
+    ipcRenderer.on(TOP_STATE_CHANNEL, wrapped);
+    return () => ipcRenderer.removeListener(TOP_STATE_CHANNEL, wrapped);
+  },
+  getOverlayState: async () => ipcRenderer.invoke('window:getOverlayState'),
+  setOpacity: async (opacity: number) => ipcRenderer.invoke('window:setOpacity', opacity),
+  setClickThrough: async (enabled: boolean) => ipcRenderer.invoke('window:setClickThrough', enabled),
+  onOverlayStateChanged: (listener: (state: OverlayState) => void) => {
+    const wrapped = (_event: Electron.IpcRendererEvent, state: OverlayState) => {
+      listener(state);
+    };
+    ipcRenderer.on(OVERLAY_STATE_CHANNEL, wrapped);
+    return () => ipcRenderer.removeListener(OVERLAY_STATE_CHANNEL, wrapped);
+  },
+  openNoteWindow: async (memoId: string) => ipcRenderer.invoke('window:openNote', memoId),
   getUpdateStatus: async () => ipcRenderer.invoke('app:getUpdateStatus'),
   onUpdateStatus: (listener: (payload: UpdateStatusPayload) => void) => {
     const wrapped = (_event: Electron.IpcRendererEvent, payload: UpdateStatusPayload) => {
@@ -18,7 +134,18 @@ const api: MemoApi = {
     ipcRenderer.on(UPDATE_STATUS_CHANNEL, wrapped);
     return () => ipcRenderer.removeListener(UPDATE_STATUS_CHANNEL, wrapped);
   },
-  openLatestRelease: async () => ipcRenderer.invoke('app:openLatestRelease')
+  openLatestRelease: async () => ipcRenderer.invoke('app:openLatestRelease'),
+  checkForUpdates: async () => ipcRenderer.invoke('app:checkForUpdates'),
+  skipUpdateVersion: async (version: string) => ipcRenderer.invoke('app:skipUpdateVersion', version),
+  downloadUpdate: async () => ipcRenderer.invoke('app:downloadUpdate'),
+  onUpdateProgress: (listener: (progress: UpdateProgress) => void) => {
+    const wrapped = (_event: Electron.IpcRendererEvent, progress: UpdateProgress) => {
+      listener(progress);
+    };
+    ipcRenderer.on(UPDATE_PROGRESS_CHANNEL, wrapped);
+    return () => ipcRenderer.removeListener(UPDATE_PROGRESS_CHANNEL, wrapped);
+  },
+  installUpdate: async () => ipcRenderer.invoke('app:installUpdate')
 };
 
 contextBridge.exposeInMainWorld('memo', api);
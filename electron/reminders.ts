@@ -0,0 +1,92 @@
+import { mkdir, readFile } from 'node:fs/promises';
+import path from 'node:path';
+import type { MemoTask } from '../src/shared/types';
+import { collectTasks } from './doc';
+import { listMemos, peekMemo, writeFileAtomic } from './storage';
+import type { StoragePaths } from './storage';
+
+const REMINDER_STATE_FILENAME = 'reminders.json';
+const REMINDER_STATE_VERSION = 1;
+const DUE_PATTERN = /^(\d{4})-(\d{2})-(\d{2})T(\d{2}):(\d{2})$/;
+
+export function reminderStatePathFor(userDataPath: string): string {
+  return path.join(userDataPath, REMINDER_STATE_FILENAME);
+}
+
+/** Reads a due date in local time. Returns null for anything a datetime-local input would not produce. */
+export function parseDueDate(due: string): Date | null {
+  const match = due.match(DUE_PATTERN);
+  if (!match) {
+    return null;
+  }
+
+  const [year, month, day, hours, minutes] = match.slice(1).map(Number);
+  const date = new Date(year, month - 1, day, hours, minutes);
+  return date.getMonth() === month - 1 && date.getDate() === day && hours < 24 && minutes < 60 ? date : null;
+}
+
+function dueTime(task: MemoTask): number {
+  return (task.due ? parseDueDate(task.due)?.getTime() : undefined) ?? Number.POSITIVE_INFINITY;
+}
+
+/**
+ * Lists unchecked tasks across every memo, soonest due first and undated ones last. Memos that
+ * cannot be read are skipped and left as they are for the editor to deal with when opened.
+ */
+export async function listOpenTasks(paths: StoragePaths): Promise<MemoTask[]> {
+  const { memos } = await listMemos(paths);
+  const tasks: MemoTask[] = [];
+
+  for (const memo of memos) {
+    const record = await peekMemo(paths, memo.id);
+    for (const task of record ? collectTasks(record.doc) : []) {
+      if (!task.checked) {
+        tasks.push({
+          memoId: memo.id,
+          memoTitle: memo.title,
+          taskIndex: task.index,
+          text: task.text,
+          due: task.due && parseDueDate(task.due) ? task.due : null
+        });
+      }
+    }
+  }
+
+  return tasks.sort((a, b) => dueTime(a) - dueTime(b));
+}
+
+async function loadLastCheckedAt(filePath: string): Promise<Date | null> {
+  try {
+    const parsed = JSON.parse(await readFile(filePath, 'utf8')) as { lastCheckedAt?: unknown };
+    const lastCheckedAt = typeof parsed.lastCheckedAt === 'string' ? new Date(parsed.lastCheckedAt) : null;
+    return lastCheckedAt && Number.isFinite(lastCheckedAt.getTime()) ? lastCheckedAt : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Returns the open tasks that came due since the previous check and records this one.
+ * The time is kept on disk so tasks that came due while the app was closed are still
+ * reported on the next start; the very first check only starts the clock.
+ */
+export async function collectDueReminders(
+  paths: StoragePaths,
+  stateFilePath: string,
+  now = new Date()
+): Promise<MemoTask[]> {
+  const lastCheckedAt = await loadLastCheckedAt(stateFilePath);
+  const due = lastCheckedAt
+    ? (await listOpenTasks(paths)).filter((task) => {
+        const time = dueTime(task);
+        return time > lastCheckedAt.getTime() && time <= now.getTime();
+      })
+    : [];
+
+  await mkdir(path.dirname(stateFilePath), { recursive: true });
+  await writeFileAtomic(
+    stateFilePath,
+    JSON.stringify({ version: REMINDER_STATE_VERSION, lastCheckedAt: now.toISOString() }, null, 2)
+  );
+  return due;
+}
@@ -0,0 +1,130 @@
+import { mkdir, readFile } from 'node:fs/promises';
+import path from 'node:path';
+import type { AppSettings } from '../src/shared/types';
+import { DEFAULT_MAX_IMAGE_WIDTH, writeFileAtomic } from './storage';
+import { parseSemver } from './updates';
+
+type SettingValidator = (value: unknown) => string | null;
+
+const SETTINGS_FILENAME = 'settings.json';
+const SETTINGS_FILE_VERSION = 1;
+
+export const DEFAULT_SETTINGS: AppSettings = {
+  alwaysOnTopByDefault: true,
+  autosaveDelayMs: 500,
+  maxImageWidth: DEFAULT_MAX_IMAGE_WIDTH,
+  keepOriginalImages: true,
+  checkForUpdates: true,
+  updateChannel: 'stable',
+  skippedUpdateVersion: '',
+  quickCaptureShortcut: 'CommandOrControl+Shift+M',
+  clickThroughShortcut: 'CommandOrControl+Alt+C',
+  autoLockMinutes: 10,
+  showTrayIcon: false,
+  hideDockIcon: false,
+  hideOnBlur: false
+};
+
+function booleanSetting(value: unknown): string | null {
+  return typeof value === 'boolean' ? null : 'must be true or false';
+}
+
+function integerSetting(min: number, max: number): SettingValidator {
+  return (value) =>
+    typeof value === 'number' && Number.isInteger(value) && value >= min && value <= max
+      ? null
+      : `must be a whole number from ${min} to ${max}`;
+}
+
+function choiceSetting(choices: string[]): SettingValidator {
+  return (value) =>
+    typeof value === 'string' && choices.includes(value) ? null : `must be one of ${choices.join(', ')}`;
+}
+
+function versionSetting(value: unknown): string | null {
+  return typeof value === 'string' && (value === '' || parseSemver(value)) ? null : 'must be a version number or empty';
+}
+
+function shortcutSetting(value: unknown): string | null {
+  // An empty shortcut turns quick capture off; whether a key combination is free is only known on registration.
+  return typeof value === 'string' && value.length <= 64 && !/\s/.test(value)
+    ? null
+    : 'must be an accelerator such as CommandOrControl+Shift+M, or empty';
+}
+
+const SETTINGS_SCHEMA: Record<keyof AppSettings, SettingValidator> = {
+  alwaysOnTopByDefault: booleanSetting,
+  autosaveDelayMs: integerSetting(100, 10000),
+  maxImageWidth: integerSetting(120, 4096),
+  keepOriginalImages: booleanSetting,
+  checkForUpdates: booleanSetting,
+  updateChannel: choiceSetting(['stable', 'prerelease']),
+  skippedUpdateVersion: versionSetting,
+  quickCaptureShortcut: shortcutSetting,
+  clickThroughShortcut: shortcutSetting,
+  // 0 turns auto-lock off; it only applies while encryption is on.
+  autoLockMinutes: integerSetting(0, 1440),
+  showTrayIcon: booleanSetting,
+  hideDockIcon: booleanSetting,
+  hideOnBlur: booleanSetting
+};
+
+function isSettingKey(key: string): key is keyof AppSettings {
+  return Object.prototype.hasOwnProperty.call(SETTINGS_SCHEMA, key);
+}
+
+export function settingsPathFor(userDataPath: string): string {
+  return path.join(userDataPath, SETTINGS_FILENAME);
+}
+
+/**
+ * Reads settings from untrusted JSON: every valid field is kept and anything missing,
+ * unknown or invalid falls back to its default.
+ */
+export function normalizeSettings(value: unknown): AppSettings {
+  const settings: AppSettings = { ...DEFAULT_SETTINGS };
+  if (!value || typeof value !== 'object') {
+    return settings;
+  }
+
+  for (const [key, fieldValue] of Object.entries(value)) {
+    if (isSettingKey(key) && SETTINGS_SCHEMA[key](fieldValue) === null) {
+      Object.assign(settings, { [key]: fieldValue });
+    }
+  }
+  return settings;
+}
+
+/** Checks a settings update from the renderer and throws on the first invalid field. */
+export function validateSettingsPatch(patch: unknown): Partial<AppSettings> {
+  if (!patch || typeof patch !== 'object' || Array.isArray(patch)) {
+    throw new Error('Settings update must be an object.');
+  }
+
+  for (const [key, value] of Object.entries(patch)) {
+    if (!isSettingKey(key)) {
+      throw new Error(`Unknown setting "${key}".`);
+    }
+    const problem = SETTINGS_SCHEMA[key](value);
+    if (problem) {
+      throw new Error(`Setting "${key}" ${problem}.`);
+    }
+  }
+  return patch as Partial<AppSettings>;
+}
+
+export async function loadSettings(filePath: string): Promise<AppSettings> {
+  try {
+    return normalizeSettings(JSON.parse(await readFile(filePath, 'utf8')));
+  } catch {
+    return { ...DEFAULT_SETTINGS };
+  }
+}
+
+export async function updateSettings(filePath: string, patch: unknown): Promise<AppSettings> {
+  const next: AppSettings = { ...(await loadSettings(filePath)), ...validateSettingsPatch(patch) };
+
+  await mkdir(path.dirname(filePath), { recursive: true });
+  await writeFileAtomic(filePath, JSON.stringify({ version: SETTINGS_FILE_VERSION, ...next }, null, 2));
+  return next;
+}
@@ -1,17 +1,109 @@
-import { randomUUID } from 'node:crypto';
-import { mkdir, readFile, rename, writeFile } from 'node:fs/promises';
+import { createHash, randomUUID } from 'node:crypto';
+import { access, copyFile, mkdir, readdir, readFile, rename, rm, utimes, writeFile } from 'node:fs/promises';
 import path from 'node:path';
-import type { ImageSaveResponse, MemoDoc, MemoRecord, SaveMemoResponse } from '../src/shared/types';
+import type {
+  ImageSaveResponse,
+  MemoDoc,
+  MemoList,
+  MemoRecord,
+  MemoSnapshot,
+  MemoSnapshotSummary,
+  MemoSummary,
+  SaveMemoResponse
+} from '../src/shared/types';
+import { docFromPlainText } from './doc';
+import { createVault, openData, sealData, withVaultWrites } from './encryption';
+import type { StorageVault } from './encryption';
+import { listSnapshots, loadSnapshot, recordSaveSnapshots, writeSnapshot } from './history';
 
 export type StoragePaths = {
-  memoFilePath: string;
+  legacyMemoFilePath: string;
+  memosDirPath: string;
+  memoIndexFilePath: string;
   imagesDirPath: string;
+  imageOriginalsDirPath: string;
+  imageQuarantineDirPath: string;
+  encryptionConfigFilePath: string;
+  // Shared by everything holding these paths, so locking or unlocking applies everywhere at once.
+  vault: StorageVault;
 };
 
-const MEMO_FILENAME = 'memo.json';
+type MemoIndex = MemoList & {
+  version: 1;
+};
+
+export type StoredRecord = Record<string, unknown> & {
+  version: number;
+};
+
+export type MemoRecordMigration = (record: StoredRecord) => StoredRecord;
+
+export type ImageFormat = 'png' | 'jpeg' | 'gif' | 'webp';
+
+export type ImageFile = {
+  filePath: string;
+  format: ImageFormat;
+};
+
+/**
+ * Produces a display-sized copy of an image, or null when it is already small enough or
+ * its format cannot be resized (animated GIFs, for example). Injected so storage stays
+ * independent of Electron.
+ */
+export type ImageResizer = (
+  buffer: Buffer,
+  format: ImageFormat,
+  maxWidth: number
+) => { buffer: Buffer; width: number; height: number } | null;
+
+export type SaveImageOptions = {
+  maxWidth?: number;
+  keepOriginal?: boolean;
+  resize?: ImageResizer;
+};
+
+export const MEMO_RECORD_VERSION = 1;
+
+/**
+ * Steps keyed by the version they upgrade from. Each step must return a record for
+ * exactly the next version; `migrateMemoRecord` chains them up to MEMO_RECORD_VERSION.
+ */
+const MEMO_RECORD_MIGRATIONS: Record<number, MemoRecordMigration> = {};
+
+export class UnsupportedMemoVersionError extends Error {
+  constructor(readonly version: number) {
+    super(`This memo was saved by a newer version of Always Memo (format ${version}). Update the app to open it.`);
+    this.name = 'UnsupportedMemoVersionError';
+  }
+}
+
+const LEGACY_MEMO_FILENAME = 'memo.json';
+const MEMOS_DIRNAME = 'memos';
+const MEMO_INDEX_FILENAME = 'index.json';
 const IMAGES_DIRNAME = 'images';
-const MAX_IMAGE_WIDTH = 640;
-const IMAGE_ID_PATTERN = /^[a-f0-9-]+$/i;
+const IMAGE_ORIGINALS_DIRNAME = 'images-originals';
+const IMAGE_QUARANTINE_DIRNAME = 'images-quarantine';
+const ENCRYPTION_CONFIG_FILENAME = 'encryption.json';
+const DEFAULT_MEMO_TITLE = 'Memo';
+const MAX_MEMO_TITLE_LENGTH = 80;
+export const DEFAULT_MAX_IMAGE_WIDTH = 640;
+// Images are named by a hash of their bytes; older ones keep the random UUID they were saved with.
+const CONTENT_IMAGE_ID_PREFIX = 'sha256-';
+const CONTENT_IMAGE_ID_PATTERN = /^sha256-[a-f0-9]{64}$/i;
+const IMAGE_ID_PATTERN = /^(?:[a-f0-9-]+|sha256-[a-f0-9]{64})$/i;
+const IMAGE_FILENAME_PATTERN = /^([a-f0-9-]+|sha256-[a-f0-9]{64})\.([a-z]+)$/i;
+const PNG_SIGNATURE = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+const IMAGE_FORMATS: Record<ImageFormat, { extension: string; contentType: string }> = {
+  png: { extension: 'png', contentType: 'image/png' },
+  jpeg: { extension: 'jpg', contentType: 'image/jpeg' },
+  gif: { extension: 'gif', contentType: 'image/gif' },
+  webp: { extension: 'webp', contentType: 'image/webp' }
+};
+const MEMO_ID_PATTERN = /^[a-f0-9-]+$/i;
+
+// Index changes read, modify and rewrite the whole file, so they run one at a time per index.
+const memoIndexQueues = new Map<string, Promise<unknown>>();
+const memoFileQueues = new Map<string, Promise<unknown>>();
 
 function nowIso(): string {
   return new Date().toISOString();
@@ -30,7 +122,7 @@ function defaultDoc(): MemoDoc {
 
 function fallbackRecord(): MemoRecord {
   return {
-    version: 1,
+    version: MEMO_RECORD_VERSION,
     updatedAt: nowIso(),
     doc: defaultDoc()
   };
@@ -42,31 +134,239 @@ function isMemoRecord(value: unknown): value is MemoRecord {
   }
 
   const candidate = value as Partial<MemoRecord>;
-  return candidate.version === 1 && typeof candidate.updatedAt === 'string' && !!candidate.doc;
+  return candidate.version === MEMO_RECORD_VERSION && typeof candidate.updatedAt === 'string' && !!candidate.doc;
+}
+
+function recordVersion(value: unknown): number | null {
+  if (!value || typeof value !== 'object') {
+    return null;
+  }
+
+  const version = (value as { version?: unknown }).version;
+  return typeof version === 'number' && Number.isInteger(version) && version > 0 ? version : null;
+}
+
+function isMemoSummary(value: unknown): value is MemoSummary {
+  if (!value || typeof value !== 'object') {
+    return false;
+  }
+
+  const candidate = value as Partial<MemoSummary>;
+  return (
+    typeof candidate.id === 'string' &&
+    isValidMemoId(candidate.id) &&
+    typeof candidate.title === 'string' &&
+    typeof candidate.createdAt === 'string'
+  );
+}
+
+function isMemoIndex(value: unknown): value is MemoIndex {
+  if (!value || typeof value !== 'object') {
+    return false;
+  }
+
+  const candidate = value as Partial<MemoIndex>;
+  return (
+    candidate.version === 1 &&
+    typeof candidate.activeMemoId === 'string' &&
+    Array.isArray(candidate.memos) &&
+    candidate.memos.length > 0 &&
+    candidate.memos.every(isMemoSummary) &&
+    candidate.memos.some((memo) => memo.id === candidate.activeMemoId)
+  );
+}
+
+function toMemoList(index: MemoIndex): MemoList {
+  return {
+    activeMemoId: index.activeMemoId,
+    memos: index.memos
+  };
+}
+
+function newMemoSummary(title: string): MemoSummary {
+  return {
+    id: randomUUID(),
+    title: normalizeMemoTitle(title),
+    createdAt: nowIso()
+  };
 }
 
 async function ensureStorageDirs(paths: StoragePaths): Promise<void> {
-  await mkdir(path.dirname(paths.memoFilePath), { recursive: true });
+  await mkdir(paths.memosDirPath, { recursive: true });
   await mkdir(paths.imagesDirPath, { recursive: true });
 }
 
+export async function writeFileAtomic(filePath: string, content: string | Buffer): Promise<void> {
+  // A unique name per write, so concurrent writes to one file never share a temp file.
+  const tempPath = `${filePath}.${process.pid}.${randomUUID()}.tmp`;
+  await writeFile(tempPath, content);
+  await rename(tempPath, filePath);
+}
+
+/** Reads a memo, snapshot or image file, decrypting it when it is encrypted. */
+export async function readStoredFile(paths: StoragePaths, filePath: string): Promise<Buffer> {
+  return openData(paths.vault, await readFile(filePath));
+}
+
+/** Writes a memo, snapshot or image file, encrypting it when encryption is on. */
+export async function writeStoredFile(paths: StoragePaths, filePath: string, content: string | Buffer): Promise<void> {
+  await withVaultWrites(paths.vault, () => writeFileAtomic(filePath, sealData(paths.vault, Buffer.from(content))));
+}
+
+async function writeMemoIndex(paths: StoragePaths, index: MemoIndex): Promise<void> {
+  await writeFileAtomic(paths.memoIndexFilePath, JSON.stringify(index, null, 2));
+}
+
+async function buildInitialIndex(paths: StoragePaths): Promise<MemoIndex> {
+  const memos: MemoSummary[] = [];
+
+  // Memo files without an index mean the index itself was lost; keep them reachable.
+  const entries = await readdir(paths.memosDirPath);
+  for (const entry of entries.sort()) {
+    const id = entry.endsWith('.json') ? entry.slice(0, -'.json'.length) : '';
+    if (entry === MEMO_INDEX_FILENAME || !isValidMemoId(id)) {
+      continue;
+    }
+    memos.push({ id, title: DEFAULT_MEMO_TITLE, createdAt: nowIso() });
+  }
+
+  if (memos.length === 0) {
+    const summary = newMemoSummary(DEFAULT_MEMO_TITLE);
+    await rename(paths.legacyMemoFilePath, memoPathForId(paths, summary.id)).catch((error: NodeJS.ErrnoException) => {
+      if (error.code !== 'ENOENT') {
+        throw error;
+      }
+    });
+    memos.push(summary);
+  }
+
+  return {
+    version: 1,
+    activeMemoId: memos[0].id,
+    memos
+  };
+}
+
+/** Runs `task` once every task queued before it under `key` has finished. */
+function runQueued<T>(queues: Map<string, Promise<unknown>>, key: string, task: () => Promise<T>): Promise<T> {
+  const run = (queues.get(key) ?? Promise.resolve()).then(task);
+  const settled = run.catch(() => undefined);
+  queues.set(key, settled);
+  void settled.then(() => {
+    if (queues.get(key) === settled) {
+      queues.delete(key);
+    }
+  });
+  return run;
+}
+
+/** Runs `task` after every index read or change queued before it has finished. */
+function withMemoIndex<T>(paths: StoragePaths, task: () => Promise<T>): Promise<T> {
+  return runQueued(memoIndexQueues, paths.memoIndexFilePath, task);
+}
+
+/** Runs a read-check-write of one memo file after the ones queued before it, so no save is lost between them. */
+function withMemoFile<T>(paths: StoragePaths, id: string, task: () => Promise<T>): Promise<T> {
+  return runQueued(memoFileQueues, memoPathForId(paths, id), task);
+}
+
+/** Reads the index, building it on first run. Only call it from inside withMemoIndex. */
+async function readMemoIndex(paths: StoragePaths): Promise<MemoIndex> {
+  await ensureStorageDirs(paths);
+
+  try {
+    const raw = await readFile(paths.memoIndexFilePath, 'utf8');
+    const parsed: unknown = JSON.parse(raw);
+
+    if (!isMemoIndex(parsed)) {
+      throw new Error('invalid memo index schema');
+    }
+
+    return parsed;
+  } catch (error: unknown) {
+    const err = error as NodeJS.ErrnoException;
+    if (err.code !== 'ENOENT') {
+      const backupPath = `${paths.memoIndexFilePath}.corrupt-${Date.now()}`;
+      await rename(paths.memoIndexFilePath, backupPath).catch(() => undefined);
+    }
+
+    const index = await buildInitialIndex(paths);
+    await writeMemoIndex(paths, index);
+    return index;
+  }
+}
+
+async function loadMemoIndex(paths: StoragePaths): Promise<MemoIndex> {
+  return withMemoIndex(paths, () => readMemoIndex(paths));
+}
+
+function requireMemoIn(index: MemoIndex, id: string): MemoIndex {
+  if (!index.memos.some((memo) => memo.id === id)) {
+    throw new Error('Memo not found');
+  }
+  return index;
+}
+
+async function requireMemo(paths: StoragePaths, id: string): Promise<MemoIndex> {
+  return requireMemoIn(await loadMemoIndex(paths), id);
+}
+
+/** Applies a change to the index with no other index change in between. */
+function updateMemoIndex<T>(paths: StoragePaths, change: (index: MemoIndex) => Promise<T>): Promise<T> {
+  return withMemoIndex(paths, async () => change(await readMemoIndex(paths)));
+}
+
 export function createStoragePaths(userDataPath: string): StoragePaths {
+  const memosDirPath = path.join(userDataPath, MEMOS_DIRNAME);
   return {
-    memoFilePath: path.join(userDataPath, MEMO_FILENAME),
-    imagesDirPath: path.join(userDataPath, IMAGES_DIRNAME)
+    legacyMemoFilePath: path.join(userDataPath, LEGACY_MEMO_FILENAME),
+    memosDirPath,
+    memoIndexFilePath: path.join(memosDirPath, MEMO_INDEX_FILENAME),
+    imagesDirPath: path.join(userDataPath, IMAGES_DIRNAME),
+    imageOriginalsDirPath: path.join(userDataPath, IMAGE_ORIGINALS_DIRNAME),
+    imageQuarantineDirPath: path.join(userDataPath, IMAGE_QUARANTINE_DIRNAME),
+    encryptionConfigFilePath: path.join(userDataPath, ENCRYPTION_CONFIG_FILENAME),
+    vault: createVault()
   };
 }
 
-export function normalizeImageDimensions(width: number, height: number): { width: number; height: number } {
+export function normalizeMemoTitle(title: string): string {
+  const collapsed = title.replace(/\s+/g, ' ').trim().slice(0, MAX_MEMO_TITLE_LENGTH).trim();
+  return collapsed || DEFAULT_MEMO_TITLE;
+}
+
+export function isValidMemoId(id: string): boolean {
+  return MEMO_ID_PATTERN.test(id);
+}
+
+export function memoPathForId(paths: StoragePaths, id: string): string {
+  if (!isValidMemoId(id)) {
+    throw new Error('Invalid memo id');
+  }
+  return path.join(paths.memosDirPath, `${id}.json`);
+}
+
+export function historyDirForMemo(paths: StoragePaths, id: string): string {
+  if (!isValidMemoId(id)) {
+    throw new Error('Invalid memo id');
+  }
+  return path.join(paths.memosDirPath, `${id}.history`);
+}
+
+export function normalizeImageDimensions(
+  width: number,
+  height: number,
+  maxWidth = DEFAULT_MAX_IMAGE_WIDTH
+): { width: number; height: number } {
   if (width <= 0 || height <= 0) {
     return { width: 0, height: 0 };
   }
 
-  if (width <= MAX_IMAGE_WIDTH) {
+  if (width <= maxWidth) {
     return { width, height };
   }
 
-  const ratio = MAX_IMAGE_WIDTH / width;
+  const ratio = maxWidth / width;
   return {
     width: Math.round(width * ratio),
     height: Math.round(height * ratio)
@@ -77,51 +377,304 @@ export function isValidImageId(id: string): boolean {
   return IMAGE_ID_PATTERN.test(id);
 }
 
-export function imagePathForId(paths: StoragePaths, id: string): string {
+export function isContentImageId(id: string): boolean {
+  return CONTENT_IMAGE_ID_PATTERN.test(id);
+}
+
+/** The id an image's bytes are stored under, so identical images share one file. */
+export function contentImageId(buffer: Buffer): string {
+  return `${CONTENT_IMAGE_ID_PREFIX}${createHash('sha256').update(buffer).digest('hex')}`;
+}
+
+/** Identifies an image by its leading bytes rather than trusting a file name or MIME type. */
+export function detectImageFormat(buffer: Buffer): ImageFormat | null {
+  if (buffer.subarray(0, PNG_SIGNATURE.length).equals(PNG_SIGNATURE)) {
+    return 'png';
+  }
+  if (buffer.length >= 3 && buffer[0] === 0xff && buffer[1] === 0xd8 && buffer[2] === 0xff) {
+    return 'jpeg';
+  }
+  const ascii = buffer.subarray(0, 12).toString('latin1');
+  if (ascii.startsWith('GIF87a') || ascii.startsWith('GIF89a')) {
+    return 'gif';
+  }
+  if (ascii.startsWith('RIFF') && ascii.slice(8, 12) === 'WEBP') {
+    return 'webp';
+  }
+  return null;
+}
+
+export function imageContentType(format: ImageFormat): string {
+  return IMAGE_FORMATS[format].contentType;
+}
+
+export function imageFilename(id: string, format: ImageFormat): string {
   if (!isValidImageId(id)) {
     throw new Error('Invalid image id');
   }
-  return path.join(paths.imagesDirPath, `${id}.png`);
+  return `${id}.${IMAGE_FORMATS[format].extension}`;
 }
 
-export async function loadMemo(paths: StoragePaths): Promise<MemoRecord> {
-  await ensureStorageDirs(paths);
+export function parseImageFilename(filename: string): { id: string; format: ImageFormat } | null {
+  const match = filename.match(IMAGE_FILENAME_PATTERN);
+  const extension = match?.[2].toLowerCase();
+  const format = (Object.keys(IMAGE_FORMATS) as ImageFormat[]).find((key) => IMAGE_FORMATS[key].extension === extension);
+  return match && format ? { id: match[1].toLowerCase(), format } : null;
+}
 
-  try {
-    const raw = await readFile(paths.memoFilePath, 'utf8');
-    const parsed: unknown = JSON.parse(raw);
+export function imagePathForId(paths: StoragePaths, id: string, format: ImageFormat = 'png'): string {
+  return path.join(paths.imagesDirPath, imageFilename(id, format));
+}
 
-    if (!isMemoRecord(parsed)) {
-      throw new Error('invalid memo schema');
+/** Finds the stored file for an image id in `dirPath`, whichever format it was saved as. */
+export async function findImageFile(dirPath: string, id: string): Promise<ImageFile | null> {
+  for (const format of Object.keys(IMAGE_FORMATS) as ImageFormat[]) {
+    const filePath = path.join(dirPath, imageFilename(id, format));
+    try {
+      await access(filePath);
+      return { filePath, format };
+    } catch {
+      // Try the next format.
     }
+  }
+  return null;
+}
 
-    return parsed;
-  } catch (error: unknown) {
-    const fallback = fallbackRecord();
+export async function listMemos(paths: StoragePaths): Promise<MemoList> {
+  return toMemoList(await loadMemoIndex(paths));
+}
+
+export async function createMemo(paths: StoragePaths, title = DEFAULT_MEMO_TITLE): Promise<MemoSummary> {
+  return updateMemoIndex(paths, async (index) => {
+    const summary = newMemoSummary(title);
+
+    await writeMemoIndex(paths, {
+      ...index,
+      activeMemoId: summary.id,
+      memos: [...index.memos, summary]
+    });
+
+    return summary;
+  });
+}
+
+export async function renameMemo(paths: StoragePaths, id: string, title: string): Promise<MemoSummary> {
+  return updateMemoIndex(paths, async (index) => {
+    const nextTitle = normalizeMemoTitle(title);
+    const memos = requireMemoIn(index, id).memos.map((memo) => (memo.id === id ? { ...memo, title: nextTitle } : memo));
+
+    await writeMemoIndex(paths, { ...index, memos });
+    return memos.find((memo) => memo.id === id) as MemoSummary;
+  });
+}
+
+export async function deleteMemo(paths: StoragePaths, id: string): Promise<MemoList> {
+  return updateMemoIndex(paths, async (index) => {
+    const memos = requireMemoIn(index, id).memos.filter((memo) => memo.id !== id);
+
+    if (memos.length === 0) {
+      memos.push(newMemoSummary(DEFAULT_MEMO_TITLE));
+    }
+
+    const activeMemoId = memos.some((memo) => memo.id === index.activeMemoId) ? index.activeMemoId : memos[0].id;
+    const nextIndex: MemoIndex = { ...index, activeMemoId, memos };
+
+    await writeMemoIndex(paths, nextIndex);
+    await rm(memoPathForId(paths, id), { force: true });
+    await rm(historyDirForMemo(paths, id), { recursive: true, force: true });
+    return toMemoList(nextIndex);
+  });
+}
+
+export async function setActiveMemo(paths: StoragePaths, id: string): Promise<MemoList> {
+  return updateMemoIndex(paths, async (index) => {
+    const nextIndex: MemoIndex = { ...requireMemoIn(index, id), activeMemoId: id };
+
+    if (index.activeMemoId !== id) {
+      await writeMemoIndex(paths, nextIndex);
+    }
+    return toMemoList(nextIndex);
+  });
+}
+
+export function migrateMemoRecord(
+  value: unknown,
+  migrations: Record<number, MemoRecordMigration> = MEMO_RECORD_MIGRATIONS,
+  targetVersion = MEMO_RECORD_VERSION
+): StoredRecord {
+  let version = recordVersion(value);
+  if (version === null) {
+    throw new Error('invalid memo schema');
+  }
+  if (version > targetVersion) {
+    throw new UnsupportedMemoVersionError(version);
+  }
+
+  let record = value as StoredRecord;
+  while (version < targetVersion) {
+    const migrate = migrations[version];
+    if (!migrate) {
+      throw new Error(`No migration from memo format ${version}.`);
+    }
+
+    record = migrate(record);
+    if (record.version !== version + 1) {
+      throw new Error(`Migration from memo format ${version} produced format ${String(record.version)}.`);
+    }
+    version = record.version;
+  }
+
+  return record;
+}
+
+/**
+ * Backs up an older memo file next to itself, then migrates it and writes the result
+ * in place. A failed migration leaves the original file untouched.
+ */
+export async function upgradeMemoFile(
+  memoFilePath: string,
+  stored: unknown,
+  migrations: Record<number, MemoRecordMigration> = MEMO_RECORD_MIGRATIONS,
+  targetVersion = MEMO_RECORD_VERSION,
+  vault: StorageVault = createVault()
+): Promise<StoredRecord> {
+  const version = recordVersion(stored);
+  const migrated = migrateMemoRecord(stored, migrations, targetVersion);
+
+  if (version !== targetVersion) {
+    await copyFile(memoFilePath, `${memoFilePath}.v${version}-${Date.now()}.bak`);
+    const payload = Buffer.from(JSON.stringify(migrated, null, 2));
+    await withVaultWrites(vault, () => writeFileAtomic(memoFilePath, sealData(vault, payload)));
+  }
+  return migrated;
+}
+
+async function preserveCorruptMemo(paths: StoragePaths, id: string, raw: string | null): Promise<void> {
+  const memoFilePath = memoPathForId(paths, id);
+
+  // Keep the unreadable content in history so it can be inspected and restored as text.
+  try {
+    if (raw === null) {
+      throw new Error('memo file is unreadable');
+    }
+    await writeSnapshot(historyDirForMemo(paths, id), paths.vault, 'corrupt', docFromPlainText(raw));
+    await rm(memoFilePath, { force: true });
+  } catch {
+    const backupPath = `${memoFilePath}.corrupt-${Date.now()}`;
+    await rename(memoFilePath, backupPath).catch(() => undefined);
+  }
+}
 
+export async function loadMemo(paths: StoragePaths, id: string): Promise<MemoRecord> {
+  await requireMemo(paths, id);
+  const memoFilePath = memoPathForId(paths, id);
+
+  let stored: Buffer;
+  try {
+    stored = await readFile(memoFilePath);
+  } catch (error: unknown) {
     const err = error as NodeJS.ErrnoException;
-    if (err.code === 'ENOENT') {
-      return fallback;
+    if (err.code !== 'ENOENT') {
+      await preserveCorruptMemo(paths, id, null);
     }
+    return fallbackRecord();
+  }
+  // A locked vault or a tampered file throws here and leaves the file alone.
+  const raw = openData(paths.vault, stored).toString('utf8');
+
+  let parsed: unknown = null;
+  try {
+    parsed = JSON.parse(raw);
+  } catch {
+    // Handled below as a record without a version.
+  }
 
-    const backupPath = `${paths.memoFilePath}.corrupt-${Date.now()}`;
-    await rename(paths.memoFilePath, backupPath).catch(() => undefined);
-    return fallback;
+  const version = recordVersion(parsed);
+  if (version === null || (version === MEMO_RECORD_VERSION && !isMemoRecord(parsed))) {
+    await preserveCorruptMemo(paths, id, raw);
+    return fallbackRecord();
   }
+
+  // Newer formats and failed migrations throw here without touching the file.
+  const record = await upgradeMemoFile(memoFilePath, parsed, MEMO_RECORD_MIGRATIONS, MEMO_RECORD_VERSION, paths.vault);
+  if (!isMemoRecord(record)) {
+    throw new Error('Memo migration produced an invalid record.');
+  }
+  return record;
 }
 
-export async function saveMemo(paths: StoragePaths, doc: MemoDoc): Promise<SaveMemoResponse> {
-  await ensureStorageDirs(paths);
+/**
+ * Reads a memo without touching its file: corrupt memos are not moved aside and older formats
+ * are migrated in memory only. Returns null for a memo that is missing or cannot be read.
+ */
+export async function peekMemo(paths: StoragePaths, id: string): Promise<MemoRecord | null> {
+  try {
+    const stored = await readFile(memoPathForId(paths, id));
+    const record = migrateMemoRecord(JSON.parse(openData(paths.vault, stored).toString('utf8')));
+    return isMemoRecord(record) ? record : null;
+  } catch {
+    return null;
+  }
+}
+
+async function readStoredRecord(paths: StoragePaths, memoFilePath: string): Promise<MemoRecord | null> {
+  let stored: Buffer;
+  try {
+    stored = await readFile(memoFilePath);
+  } catch {
+    return null;
+  }
+
+  // A locked vault or a tampered file throws rather than letting the save overwrite it.
+  const raw = openData(paths.vault, stored).toString('utf8');
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+  } catch {
+    return null;
+  }
+
+  const version = recordVersion(parsed);
+  if (version !== null && version > MEMO_RECORD_VERSION) {
+    throw new UnsupportedMemoVersionError(version);
+  }
+  return isMemoRecord(parsed) ? parsed : null;
+}
+
+function nextUpdatedAt(previous: MemoRecord | null): string {
+  const now = Date.now();
+  const previousMs = previous ? Date.parse(previous.updatedAt) : Number.NaN;
+  // Every write gets a distinct, increasing updatedAt so stale writers can be told apart.
+  return new Date(Number.isFinite(previousMs) && previousMs >= now ? previousMs + 1 : now).toISOString();
+}
+
+/** The body of saveMemo. Only call it from inside withMemoFile. */
+async function writeMemo(
+  paths: StoragePaths,
+  id: string,
+  doc: MemoDoc,
+  baseUpdatedAt?: string
+): Promise<SaveMemoResponse> {
+  const memoFilePath = memoPathForId(paths, id);
+  const previous = await readStoredRecord(paths, memoFilePath);
+
+  if (baseUpdatedAt !== undefined && previous && previous.updatedAt !== baseUpdatedAt) {
+    return {
+      ok: false,
+      reason: 'conflict',
+      updatedAt: previous.updatedAt
+    };
+  }
 
   const payload: MemoRecord = {
-    version: 1,
-    updatedAt: nowIso(),
+    version: MEMO_RECORD_VERSION,
+    updatedAt: nextUpdatedAt(previous),
     doc
   };
 
-  const tempPath = `${paths.memoFilePath}.tmp`;
-  await writeFile(tempPath, JSON.stringify(payload, null, 2), 'utf8');
-  await rename(tempPath, paths.memoFilePath);
+  await writeStoredFile(paths, memoFilePath, JSON.stringify(payload, null, 2));
+  // History is best effort; a failed snapshot must never fail the save itself.
+  await recordSaveSnapshots(historyDirForMemo(paths, id), paths.vault, previous, payload).catch(() => undefined);
 
   return {
     ok: true,
@@ -129,20 +682,125 @@ export async function saveMemo(paths: StoragePaths, doc: MemoDoc): Promise<SaveM
   };
 }
 
+/**
+ * Writes a memo. When `baseUpdatedAt` is given the write only happens if the file still
+ * carries that updatedAt; otherwise someone else changed it and a conflict is returned.
+ */
+export async function saveMemo(
+  paths: StoragePaths,
+  id: string,
+  doc: MemoDoc,
+  baseUpdatedAt?: string
+): Promise<SaveMemoResponse> {
+  await requireMemo(paths, id);
+  return withMemoFile(paths, id, () => writeMemo(paths, id, doc, baseUpdatedAt));
+}
+
+export async function listMemoSnapshots(paths: StoragePaths, id: string): Promise<MemoSnapshotSummary[]> {
+  await requireMemo(paths, id);
+  return listSnapshots(historyDirForMemo(paths, id), paths.vault);
+}
+
+export async function loadMemoSnapshot(paths: StoragePaths, id: string, snapshotId: string): Promise<MemoSnapshot> {
+  await requireMemo(paths, id);
+  return loadSnapshot(historyDirForMemo(paths, id), snapshotId, paths.vault);
+}
+
+export async function restoreMemoSnapshot(paths: StoragePaths, id: string, snapshotId: string): Promise<MemoRecord> {
+  const snapshot = await loadMemoSnapshot(paths, id, snapshotId);
+  const historyDirPath = historyDirForMemo(paths, id);
+
+  await withMemoFile(paths, id, async () => {
+    const current = await readStoredRecord(paths, memoPathForId(paths, id));
+    if (current) {
+      await writeSnapshot(historyDirPath, paths.vault, 'before_restore', current.doc);
+    }
+    await writeMemo(paths, id, snapshot.doc);
+  });
+  return loadMemo(paths, id);
+}
+
+function formatCaptureTime(at: Date): string {
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `${at.getFullYear()}-${pad(at.getMonth() + 1)}-${pad(at.getDate())} ${pad(at.getHours())}:${pad(at.getMinutes())}`;
+}
+
+function isEmptyDoc(doc: MemoDoc): boolean {
+  const blocks = doc.content ?? [];
+  return blocks.length === 0 || (blocks.length === 1 && blocks[0].type === 'paragraph' && !blocks[0].content?.length);
+}
+
+/**
+ * Appends captured text to a memo as one paragraph that starts with a local timestamp.
+ * Line breaks in the text become hard breaks inside that paragraph.
+ */
+export async function appendToMemo(
+  paths: StoragePaths,
+  id: string,
+  text: string,
+  at = new Date()
+): Promise<SaveMemoResponse> {
+  const lines = text.replace(/\r\n?/g, '\n').trim().split('\n');
+  if (!lines[0]) {
+    throw new Error('Nothing to append.');
+  }
+
+  const inline: MemoDoc[] = [{ type: 'text', text: `[${formatCaptureTime(at)}] ${lines[0]}` }];
+  for (const line of lines.slice(1)) {
+    inline.push({ type: 'hardBreak' });
+    if (line) {
+      inline.push({ type: 'text', text: line });
+    }
+  }
+
+  // Loaded and written in one turn of the memo's queue, so a save landing in between is not overwritten.
+  return withMemoFile(paths, id, async () => {
+    const { doc } = await loadMemo(paths, id);
+    const blocks = isEmptyDoc(doc) ? [] : (doc.content ?? []);
+    return writeMemo(paths, id, { ...doc, content: [...blocks, { type: 'paragraph', content: inline }] });
+  });
+}
+
+/**
+ * Stores an image under the hash of its bytes; saving the same bytes again reuses the
+ * stored file. Images wider than `maxWidth` are stored as a downscaled display copy,
+ * which is what memos load; the full-size original is kept next to it in the originals
+ * directory unless `keepOriginal` is false.
+ */
 export async function saveImage(
   paths: StoragePaths,
   imageBuffer: Buffer,
   width: number,
-  height: number
+  height: number,
+  options: SaveImageOptions = {}
 ): Promise<ImageSaveResponse> {
+  const format = detectImageFormat(imageBuffer);
+  if (!format) {
+    throw new Error('Unsupported image format. Use PNG, JPEG, GIF or WebP images.');
+  }
+
   await ensureStorageDirs(paths);
 
-  const id = randomUUID();
-  const filename = `${id}.png`;
-  const imagePath = path.join(paths.imagesDirPath, filename);
-  await writeFile(imagePath, imageBuffer);
+  const id = contentImageId(imageBuffer);
+  const maxWidth = options.maxWidth ?? DEFAULT_MAX_IMAGE_WIDTH;
+  let resized: ReturnType<ImageResizer> = null;
+
+  const existing = await findImageFile(paths.imagesDirPath, id);
+  if (existing) {
+    // Reused images count as new for the cleanup grace period; the memo referencing them may not be saved yet.
+    const now = new Date();
+    await utimes(existing.filePath, now, now);
+  } else {
+    resized = options.resize?.(imageBuffer, format, maxWidth) ?? null;
+    // Written atomically: a half-written file would otherwise be reused by every later save.
+    await writeStoredFile(paths, imagePathForId(paths, id, format), resized?.buffer ?? imageBuffer);
+    if (resized && options.keepOriginal !== false) {
+      await mkdir(paths.imageOriginalsDirPath, { recursive: true });
+      await writeStoredFile(paths, path.join(paths.imageOriginalsDirPath, imageFilename(id, format)), imageBuffer);
+    }
+  }
 
-  const normalized = normalizeImageDimensions(width, height);
+  const normalized = resized ?? normalizeImageDimensions(width, height, maxWidth);
 
   return {
     id,
@@ -0,0 +1,81 @@
+import { watch } from 'node:fs';
+import type { FSWatcher } from 'node:fs';
+import path from 'node:path';
+import type { MemoChangeEvent } from '../src/shared/types';
+import { readStoredFile } from './storage';
+import type { StoragePaths } from './storage';
+
+const CHANGE_SETTLE_MS = 200;
+const MEMO_FILE_PATTERN = /^([a-f0-9-]+)\.json$/i;
+
+async function readUpdatedAt(paths: StoragePaths, memoFilePath: string): Promise<string | null> {
+  try {
+    const parsed = JSON.parse((await readStoredFile(paths, memoFilePath)).toString('utf8')) as { updatedAt?: unknown };
+    return typeof parsed.updatedAt === 'string' ? parsed.updatedAt : null;
+  } catch {
+    // A sync client may still be writing the file; the next change event will catch up.
+    return null;
+  }
+}
+
+/**
+ * Watches the memos directory and reports changes to the index or to a memo file once
+ * they have settled for `settleMs`. Memo events carry the file's updatedAt so listeners
+ * can ignore their own writes, and are only sent when it differs from the last one
+ * reported, so a touched but unchanged file stays quiet. Returns a function that stops watching.
+ */
+export function watchStorage(
+  paths: StoragePaths,
+  onChange: (event: MemoChangeEvent) => void,
+  settleMs = CHANGE_SETTLE_MS
+): () => void {
+  const pending = new Map<string, ReturnType<typeof setTimeout>>();
+  const reportedUpdatedAt = new Map<string, string>();
+  const indexFilename = path.basename(paths.memoIndexFilePath);
+
+  const emit = async (filename: string) => {
+    pending.delete(filename);
+
+    if (filename === indexFilename) {
+      onChange({ kind: 'index' });
+      return;
+    }
+
+    const memoId = filename.match(MEMO_FILE_PATTERN)?.[1];
+    const updatedAt = memoId ? await readUpdatedAt(paths, path.join(paths.memosDirPath, filename)) : null;
+    if (memoId && updatedAt && reportedUpdatedAt.get(memoId) !== updatedAt) {
+      reportedUpdatedAt.set(memoId, updatedAt);
+      onChange({ kind: 'memo', memoId, updatedAt });
+    }
+  };
+
+  let watcher: FSWatcher;
+  try {
+    watcher = watch(paths.memosDirPath, (_eventType, filename) => {
+      if (!filename || (filename !== indexFilename && !MEMO_FILE_PATTERN.test(filename))) {
+        return;
+      }
+
+      clearTimeout(pending.get(filename));
+      pending.set(
+        filename,
+        setTimeout(() => {
+          void emit(filename);
+        }, settleMs)
+      );
+    });
+  } catch {
+    return () => undefined;
+  }
+
+  // Watching is best effort; losing the watcher must not take the app down.
+  watcher.on('error', () => undefined);
+
+  return () => {
+    watcher.close();
+    for (const timer of pending.values()) {
+      clearTimeout(timer);
+    }
+    pending.clear();
+  };
+}
@@ -0,0 +1,31 @@
+import type { AppSettings } from '../src/shared/types';
+
+type TraySettings = Pick<AppSettings, 'showTrayIcon' | 'hideDockIcon' | 'hideOnBlur'>;
+
+/** Where focus went after the main window was blurred. */
+export type BlurContext = {
+  hasTray: boolean;
+  platform: NodeJS.Platform;
+  windowVisible: boolean;
+  openDialogCount: number;
+  appWindowFocused: boolean;
+  devToolsFocused: boolean;
+};
+
+/** The Dock icon is hidden only while the tray icon can bring the app back. */
+export function shouldHideDockIcon(settings: TraySettings): boolean {
+  return settings.showTrayIcon && settings.hideDockIcon;
+}
+
+/** Whether a blurred main window should hide because another app took focus. */
+export function shouldHideOnBlur(settings: TraySettings, context: BlurContext): boolean {
+  // Without a tray icon only the Dock can bring a hidden window back, so elsewhere it stays up.
+  if (!settings.hideOnBlur || (!context.hasTray && context.platform !== 'darwin')) {
+    return false;
+  }
+
+  // Moving to Quick Capture, a dialog or the dev tools is not leaving the app.
+  return (
+    context.windowVisible && context.openDialogCount === 0 && !context.appWindowFocused && !context.devToolsFocused
+  );
+}
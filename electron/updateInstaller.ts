@@ -0,0 +1,226 @@
+import { execFile, spawn } from 'node:child_process';
+import { createHash } from 'node:crypto';
+import { mkdir, open, readdir, rename, rm } from 'node:fs/promises';
+import path from 'node:path';
+import { promisify } from 'node:util';
+import type { UpdateProgress } from '../src/shared/types';
+import type { ReleaseAsset, ReleaseInfo } from './updates';
+
+export type UpdateManifestFile = {
+  url: string;
+  sha512: string;
+  size: number | null;
+};
+
+export type DownloadedUpdate = {
+  version: string;
+  archivePath: string;
+};
+
+export type UpdateDownloadOptions = {
+  arch: string;
+  directory: string;
+  onProgress?: (progress: UpdateProgress) => void;
+};
+
+/** Written by electron-builder next to the mac zips; it lists each file with its SHA-512. */
+export const UPDATE_MANIFEST_NAME = 'latest-mac.yml';
+
+const FALLBACK_MESSAGE = 'Download it from the release page instead.';
+const execFileAsync = promisify(execFile);
+
+function unquote(value: string): string {
+  const trimmed = value.trim();
+  if (trimmed.length >= 2 && (trimmed[0] === '"' || trimmed[0] === "'") && trimmed.endsWith(trimmed[0])) {
+    return trimmed.slice(1, -1);
+  }
+  return trimmed;
+}
+
+/** Reads the `files` list of an electron-builder update manifest; the rest of the YAML is ignored. */
+export function parseUpdateManifest(text: string): UpdateManifestFile[] {
+  const entries: Record<string, string>[] = [];
+  let inFiles = false;
+  let current: Record<string, string> | null = null;
+
+  for (const line of text.split(/\r?\n/)) {
+    if (!line.trim() || line.trim().startsWith('#')) {
+      continue;
+    }
+    if (!/^[\s-]/.test(line)) {
+      inFiles = line.trim() === 'files:';
+      current = null;
+      continue;
+    }
+    if (!inFiles) {
+      continue;
+    }
+
+    const match = line.match(/^\s*(-\s+)?([A-Za-z0-9_]+):(.*)$/);
+    if (!match) {
+      continue;
+    }
+    if (match[1]) {
+      current = {};
+      entries.push(current);
+    }
+    if (current) {
+      current[match[2]] = unquote(match[3]);
+    }
+  }
+
+  return entries
+    .filter((entry) => entry.url && entry.sha512)
+    .map((entry) => ({
+      url: entry.url,
+      sha512: entry.sha512,
+      size: entry.size && /^\d+$/.test(entry.size) ? Number(entry.size) : null
+    }));
+}
+
+// GitHub turns spaces in uploaded file names into dots and electron-builder turns them into
+// dashes, so names are compared loosely.
+function normalizeAssetName(name: string): string {
+  return name.toLowerCase().replace(/[^a-z0-9]+/g, '-');
+}
+
+/** The zip for this architecture, falling back to a universal build and, on Intel, to the untagged x64 zip. */
+export function pickUpdateFile(files: UpdateManifestFile[], arch: string): UpdateManifestFile | null {
+  const zips = files.filter((file) => file.url.toLowerCase().endsWith('.zip'));
+  const tagged = (tag: string) => zips.find((file) => normalizeAssetName(file.url).includes(`-${tag}-`));
+  const untagged = () => zips.find((file) => !/-(arm64|x64|universal)-/.test(normalizeAssetName(file.url)));
+  return tagged(arch) ?? tagged('universal') ?? (arch === 'x64' ? untagged() : undefined) ?? null;
+}
+
+function findAsset(release: ReleaseInfo, name: string): ReleaseAsset | null {
+  const normalized = normalizeAssetName(name);
+  return release.assets.find((asset) => normalizeAssetName(asset.name) === normalized) ?? null;
+}
+
+async function fetchAsset(url: string, label: string): Promise<Response> {
+  let response: Response;
+  try {
+    response = await fetch(url, { headers: { 'user-agent': 'always-memo-update-download' } });
+  } catch {
+    throw new Error(`Could not download the ${label}. Check your internet connection and try again.`);
+  }
+  if (!response.ok || !response.body) {
+    throw new Error(
+      `Downloading the ${label} failed (HTTP ${response.status}). Try again later, or ${FALLBACK_MESSAGE.toLowerCase()}`
+    );
+  }
+  return response;
+}
+
+async function fetchUpdateFile(
+  release: ReleaseInfo,
+  arch: string
+): Promise<{ file: UpdateManifestFile; asset: ReleaseAsset }> {
+  const manifestAsset = findAsset(release, UPDATE_MANIFEST_NAME);
+  if (!manifestAsset) {
+    throw new Error(
+      `Version ${release.version} has no published checksums, so it cannot be installed from the app. ${FALLBACK_MESSAGE}`
+    );
+  }
+
+  const manifest = parseUpdateManifest(await (await fetchAsset(manifestAsset.url, 'update checksums')).text());
+  const file = pickUpdateFile(manifest, arch);
+  const asset = file ? findAsset(release, file.url) : null;
+  if (!file || !asset) {
+    throw new Error(`Version ${release.version} has no download for this Mac (${arch}). ${FALLBACK_MESSAGE}`);
+  }
+  return { file, asset };
+}
+
+/**
+ * Downloads the release zip for this architecture into `directory` and checks it against
+ * the SHA-512 published in the release's update manifest. A download that does not match
+ * is deleted, so only verified archives are ever left behind.
+ */
+export async function downloadUpdate(release: ReleaseInfo, options: UpdateDownloadOptions): Promise<DownloadedUpdate> {
+  const { file, asset } = await fetchUpdateFile(release, options.arch);
+  const response = await fetchAsset(asset.url, 'update');
+  const totalBytes = file.size ?? (Number(response.headers.get('content-length')) || null);
+
+  await rm(options.directory, { recursive: true, force: true });
+  await mkdir(options.directory, { recursive: true });
+  const archivePath = path.join(options.directory, path.basename(asset.name));
+  const partialPath = `${archivePath}.download`;
+
+  const hash = createHash('sha512');
+  let receivedBytes = 0;
+  let reportedPercent = -1;
+  const handle = await open(partialPath, 'w');
+  try {
+    const reader = (response.body as ReadableStream<Uint8Array>).getReader();
+    options.onProgress?.({ version: release.version, receivedBytes, totalBytes });
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) {
+        break;
+      }
+      hash.update(value);
+      await handle.write(value);
+      receivedBytes += value.byteLength;
+
+      // Progress is reported once per percent (or megabyte, without a size), not once per chunk.
+      const percent = totalBytes
+        ? Math.floor((receivedBytes / totalBytes) * 100)
+        : Math.floor(receivedBytes / (1024 * 1024));
+      if (percent !== reportedPercent) {
+        reportedPercent = percent;
+        options.onProgress?.({ version: release.version, receivedBytes, totalBytes });
+      }
+    }
+  } catch {
+    await handle.close();
+    await rm(partialPath, { force: true });
+    throw new Error('The update download was interrupted. Check your internet connection and try again.');
+  }
+  await handle.close();
+
+  if ((file.size !== null && receivedBytes !== file.size) || hash.digest('base64') !== file.sha512) {
+    await rm(partialPath, { force: true });
+    throw new Error('The downloaded update does not match its published checksum and was deleted. Try downloading it again.');
+  }
+
+  await rename(partialPath, archivePath);
+  return { version: release.version, archivePath };
+}
+
+/** Unpacks a verified macOS update next to its archive and returns the path of the new app bundle. */
+export async function stageUpdate(update: DownloadedUpdate): Promise<string> {
+  const stagingPath = path.join(path.dirname(update.archivePath), 'staged');
+  await rm(stagingPath, { recursive: true, force: true });
+  await mkdir(stagingPath, { recursive: true });
+
+  try {
+    await execFileAsync('/usr/bin/ditto', ['-x', '-k', update.archivePath, stagingPath]);
+  } catch {
+    throw new Error(`The update for version ${update.version} could not be unpacked. ${FALLBACK_MESSAGE}`);
+  }
+
+  const bundle = (await readdir(stagingPath)).find((name) => name.endsWith('.app'));
+  if (!bundle) {
+    throw new Error(`The update for version ${update.version} does not contain an app. ${FALLBACK_MESSAGE}`);
+  }
+  return path.join(stagingPath, bundle);
+}
+
+/**
+ * Starts a detached shell that waits for this process to exit, swaps the staged bundle
+ * into place and opens it. If the swap fails, the previous bundle is put back.
+ */
+export function launchUpdateInstaller(stagedAppPath: string, installedAppPath: string): void {
+  const script = [
+    'while kill -0 "$1" 2>/dev/null; do sleep 0.2; done',
+    'rm -rf "$3.old"',
+    'if mv "$3" "$3.old" && mv "$2" "$3"; then rm -rf "$3.old"; elif [ ! -d "$3" ]; then mv "$3.old" "$3"; fi',
+    'open "$3"'
+  ].join('\n');
+
+  spawn('/bin/sh', ['-c', script, 'always-memo-update', String(process.pid), stagedAppPath, installedAppPath], {
+    detached: true,
+    stdio: 'ignore'
+  }).unref();
+}
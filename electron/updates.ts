@@ -0,0 +1,247 @@
+import type { UpdateChannel, UpdateStatusPayload } from '../src/shared/types';
+
+export type SemVer = {
+  major: number;
+  minor: number;
+  patch: number;
+  prerelease: string[];
+  build: string[];
+};
+
+export type ReleaseAsset = {
+  name: string;
+  url: string;
+  size: number;
+};
+
+export type ReleaseInfo = {
+  version: string;
+  tag: string;
+  url: string;
+  prerelease: boolean;
+  assets: ReleaseAsset[];
+};
+
+/**
+ * Where releases are read from. The last response is kept with its ETag, so a re-check
+ * that finds nothing new costs a 304 and does not count against GitHub's rate limit.
+ */
+export type ReleaseSource = {
+  url: string;
+  etag: string | null;
+  releases: unknown[] | null;
+};
+
+export type UpdateCheckOptions = {
+  currentVersion: string;
+  channel: UpdateChannel;
+  // Ignored for a manual check, which always reports the newest release.
+  skippedVersion?: string;
+};
+
+type GitHubRelease = {
+  tag_name?: unknown;
+  html_url?: unknown;
+  prerelease?: unknown;
+  draft?: unknown;
+  assets?: unknown;
+};
+
+type GitHubAsset = {
+  name?: unknown;
+  browser_download_url?: unknown;
+  size?: unknown;
+};
+
+const SEMVER_PATTERN =
+  /^v?(0|[1-9]\d*)\.(0|[1-9]\d*)\.(0|[1-9]\d*)(?:-([0-9A-Za-z-]+(?:\.[0-9A-Za-z-]+)*))?(?:\+([0-9A-Za-z-]+(?:\.[0-9A-Za-z-]+)*))?$/;
+const NUMERIC_IDENTIFIER = /^\d+$/;
+
+export function parseSemver(input: string): SemVer | null {
+  const match = input.trim().match(SEMVER_PATTERN);
+  if (!match) {
+    return null;
+  }
+
+  return {
+    major: Number(match[1]),
+    minor: Number(match[2]),
+    patch: Number(match[3]),
+    prerelease: match[4] ? match[4].split('.') : [],
+    build: match[5] ? match[5].split('.') : []
+  };
+}
+
+function compareIdentifiers(a: string, b: string): number {
+  const aNumeric = NUMERIC_IDENTIFIER.test(a);
+  const bNumeric = NUMERIC_IDENTIFIER.test(b);
+  if (aNumeric && bNumeric) {
+    return Math.sign(Number(a) - Number(b));
+  }
+  if (aNumeric !== bNumeric) {
+    return aNumeric ? -1 : 1;
+  }
+  return a < b ? -1 : a > b ? 1 : 0;
+}
+
+function compareIdentifierLists(a: string[], b: string[]): number {
+  for (let index = 0; index < Math.min(a.length, b.length); index += 1) {
+    const result = compareIdentifiers(a[index], b[index]);
+    if (result !== 0) {
+      return result;
+    }
+  }
+  return Math.sign(a.length - b.length);
+}
+
+/**
+ * Semver precedence: numbers, then pre-release identifiers, with a pre-release ranking below
+ * its release. Semver ignores build metadata, but CI tags each build as `+build.<n>`, so when
+ * both versions carry metadata it breaks the tie; a version without any (such as the running
+ * app's own) equals every build of it.
+ */
+export function compareSemver(a: SemVer, b: SemVer): number {
+  for (const key of ['major', 'minor', 'patch'] as const) {
+    if (a[key] !== b[key]) {
+      return Math.sign(a[key] - b[key]);
+    }
+  }
+
+  if (a.prerelease.length === 0 || b.prerelease.length === 0) {
+    if (a.prerelease.length !== b.prerelease.length) {
+      return a.prerelease.length === 0 ? 1 : -1;
+    }
+  } else {
+    const result = compareIdentifierLists(a.prerelease, b.prerelease);
+    if (result !== 0) {
+      return result;
+    }
+  }
+
+  return a.build.length > 0 && b.build.length > 0 ? compareIdentifierLists(a.build, b.build) : 0;
+}
+
+/** Compares two version strings; anything that is not semver sorts below every valid version. */
+export function compareVersions(a: string, b: string): number {
+  const parsedA = parseSemver(a);
+  const parsedB = parseSemver(b);
+  if (!parsedA || !parsedB) {
+    return parsedA ? 1 : parsedB ? -1 : 0;
+  }
+  return compareSemver(parsedA, parsedB);
+}
+
+export function createReleaseSource(url: string): ReleaseSource {
+  return { url, etag: null, releases: null };
+}
+
+/** Fetches the release list, or reuses the cached one when the server answers 304 Not Modified. */
+export async function fetchReleases(source: ReleaseSource): Promise<unknown[]> {
+  const headers: Record<string, string> = {
+    accept: 'application/vnd.github+json',
+    'user-agent': 'always-memo-update-check'
+  };
+  if (source.etag && source.releases) {
+    headers['if-none-match'] = source.etag;
+  }
+
+  const response = await fetch(source.url, { headers });
+  if (response.status === 304 && source.releases) {
+    return source.releases;
+  }
+  if (!response.ok) {
+    throw new Error(`Release API returned ${response.status}`);
+  }
+
+  const body: unknown = await response.json();
+  if (!Array.isArray(body)) {
+    throw new Error('Release API returned an unexpected response.');
+  }
+  source.releases = body;
+  source.etag = response.headers.get('etag');
+  return body;
+}
+
+function releaseAssets(value: unknown): ReleaseAsset[] {
+  if (!Array.isArray(value)) {
+    return [];
+  }
+
+  const assets: ReleaseAsset[] = [];
+  for (const asset of value as GitHubAsset[]) {
+    if (asset && typeof asset.name === 'string' && typeof asset.browser_download_url === 'string') {
+      assets.push({
+        name: asset.name,
+        url: asset.browser_download_url,
+        size: typeof asset.size === 'number' ? asset.size : 0
+      });
+    }
+  }
+  return assets;
+}
+
+function releaseInfo(value: unknown): ReleaseInfo | null {
+  if (!value || typeof value !== 'object') {
+    return null;
+  }
+
+  const release = value as GitHubRelease;
+  if (release.draft === true || typeof release.tag_name !== 'string' || typeof release.html_url !== 'string') {
+    return null;
+  }
+
+  const parsed = parseSemver(release.tag_name);
+  if (!parsed) {
+    return null;
+  }
+
+  return {
+    version: release.tag_name.trim().replace(/^v/, ''),
+    tag: release.tag_name,
+    url: release.html_url,
+    prerelease: release.prerelease === true || parsed.prerelease.length > 0,
+    assets: releaseAssets(release.assets)
+  };
+}
+
+/** The newest release on a channel. Stable skips anything marked or versioned as a pre-release. */
+export function pickLatestRelease(releases: unknown[], channel: UpdateChannel): ReleaseInfo | null {
+  let latest: ReleaseInfo | null = null;
+  for (const release of releases.map(releaseInfo)) {
+    if (!release || (channel === 'stable' && release.prerelease)) {
+      continue;
+    }
+    if (!latest || compareVersions(release.version, latest.version) > 0) {
+      latest = release;
+    }
+  }
+  return latest;
+}
+
+/** The published release with exactly this version, build metadata included. */
+export function findRelease(releases: unknown[], version: string): ReleaseInfo | null {
+  return releases.map(releaseInfo).find((release) => release?.version === version) ?? null;
+}
+
+export async function checkForUpdate(source: ReleaseSource, options: UpdateCheckOptions): Promise<UpdateStatusPayload> {
+  const { currentVersion } = options;
+  const latest = pickLatestRelease(await fetchReleases(source), options.channel);
+  if (!latest) {
+    return { state: 'not_available', currentVersion, message: 'No releases have been published on this channel.' };
+  }
+
+  if (compareVersions(latest.version, currentVersion) <= 0) {
+    return { state: 'not_available', currentVersion, latestVersion: latest.version };
+  }
+
+  if (options.skippedVersion && compareVersions(latest.version, options.skippedVersion) <= 0) {
+    return {
+      state: 'not_available',
+      currentVersion,
+      latestVersion: latest.version,
+      message: `Version ${latest.version} is skipped.`
+    };
+  }
+
+  return { state: 'available', currentVersion, latestVersion: latest.version, releaseUrl: latest.url };
+}
@@ -0,0 +1,175 @@
+import { readdir, readFile, rm } from 'node:fs/promises';
+import path from 'node:path';
+import type { VaultStatus } from '../src/shared/types';
+import {
+  createEncryptionConfig,
+  isVaultLocked,
+  loadEncryptionConfig,
+  openData,
+  sealData,
+  unlockKeys,
+  validatePassphrase,
+  withVaultWrites
+} from './encryption';
+import type { EncryptionConfig } from './encryption';
+import { writeFileAtomic } from './storage';
+import type { StoragePaths } from './storage';
+
+async function listFilesRecursive(dirPath: string): Promise<string[]> {
+  let entries;
+  try {
+    entries = await readdir(dirPath, { withFileTypes: true });
+  } catch (error: unknown) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return [];
+    }
+    throw error;
+  }
+
+  const files: string[] = [];
+  for (const entry of entries) {
+    const entryPath = path.join(dirPath, entry.name);
+    if (entry.isDirectory()) {
+      files.push(...(await listFilesRecursive(entryPath)));
+    } else if (entry.isFile() && !entry.name.endsWith('.tmp')) {
+      files.push(entryPath);
+    }
+  }
+  return files;
+}
+
+/** Every file holding memo content: memos, their history and backups, and all images. The index stays plaintext. */
+async function listContentFiles(paths: StoragePaths): Promise<string[]> {
+  const memoFiles = (await listFilesRecursive(paths.memosDirPath)).filter(
+    (filePath) => filePath !== paths.memoIndexFilePath && !filePath.startsWith(`${paths.memoIndexFilePath}.`)
+  );
+  const imageFiles = await Promise.all(
+    [paths.imagesDirPath, paths.imageOriginalsDirPath, paths.imageQuarantineDirPath].map(listFilesRecursive)
+  );
+  return [...memoFiles, ...imageFiles.flat()];
+}
+
+/**
+ * Rewrites every content file with the vault's current write key (or as plaintext when it has none).
+ * Only called from inside `withVaultWrites`, so saves wait until it is done.
+ */
+async function resealContentFiles(paths: StoragePaths): Promise<void> {
+  for (const filePath of await listContentFiles(paths)) {
+    const data = await readFile(filePath);
+    const resealed = sealData(paths.vault, openData(paths.vault, data));
+    if (!resealed.equals(data)) {
+      await writeFileAtomic(filePath, resealed);
+    }
+  }
+}
+
+async function writeConfig(paths: StoragePaths, config: EncryptionConfig): Promise<void> {
+  await writeFileAtomic(paths.encryptionConfigFilePath, JSON.stringify(config, null, 2));
+}
+
+async function requireConfig(paths: StoragePaths): Promise<EncryptionConfig> {
+  const config = await loadEncryptionConfig(paths.encryptionConfigFilePath);
+  if (!config) {
+    throw new Error('Encryption is not turned on.');
+  }
+  return config;
+}
+
+export function vaultStatus(paths: StoragePaths): VaultStatus {
+  return { enabled: paths.vault.enabled, locked: isVaultLocked(paths.vault) };
+}
+
+/** Reads whether encryption is on. An encrypted vault starts out locked. */
+export async function openVault(paths: StoragePaths): Promise<VaultStatus> {
+  paths.vault.enabled = (await loadEncryptionConfig(paths.encryptionConfigFilePath)) !== null;
+  return vaultStatus(paths);
+}
+
+/**
+ * Unlocks with a passphrase. A passphrase change that was interrupted is finished here,
+ * using the retired keys the config still carries.
+ */
+export async function unlockVault(paths: StoragePaths, passphrase: string): Promise<VaultStatus> {
+  const config = await requireConfig(paths);
+  const keys = await unlockKeys(config, passphrase);
+  const resealPending = config.resealPending === true;
+  Object.assign(paths.vault, { enabled: true, writeKey: keys[0], readKeys: keys, resealPending });
+
+  if (config.retiredKeys.length > 0 || resealPending) {
+    await withVaultWrites(paths.vault, async () => {
+      await resealContentFiles(paths);
+      await writeConfig(paths, { ...config, retiredKeys: [], resealPending: false });
+      Object.assign(paths.vault, { readKeys: [keys[0]], resealPending: false });
+    });
+  }
+  return vaultStatus(paths);
+}
+
+export function lockVault(paths: StoragePaths): VaultStatus {
+  for (const key of paths.vault.readKeys) {
+    key.fill(0);
+  }
+  Object.assign(paths.vault, { writeKey: null, readKeys: [] });
+  return vaultStatus(paths);
+}
+
+/**
+ * Turns encryption on and encrypts every existing file. The config is written first and
+ * marks the reseal as pending, so an interrupted run still opens its plaintext files and
+ * finishes encrypting them on the next unlock.
+ */
+export async function enableEncryption(paths: StoragePaths, passphrase: string): Promise<VaultStatus> {
+  if (paths.vault.enabled) {
+    throw new Error('Encryption is already turned on.');
+  }
+
+  const { config, key } = await createEncryptionConfig(passphrase);
+  await withVaultWrites(paths.vault, async () => {
+    await writeConfig(paths, { ...config, resealPending: true });
+    Object.assign(paths.vault, { enabled: true, writeKey: key, readKeys: [key], resealPending: true });
+    await resealContentFiles(paths);
+    await writeConfig(paths, config);
+    paths.vault.resealPending = false;
+  });
+  return vaultStatus(paths);
+}
+
+/**
+ * Re-encrypts everything with a new passphrase. The old key is kept in the new config,
+ * sealed with the new one, until every file is rewritten.
+ */
+export async function changePassphrase(
+  paths: StoragePaths,
+  currentPassphrase: string,
+  nextPassphrase: string
+): Promise<VaultStatus> {
+  const oldKeys = await unlockKeys(await requireConfig(paths), currentPassphrase);
+  const { config, key } = await createEncryptionConfig(validatePassphrase(nextPassphrase), oldKeys);
+
+  await withVaultWrites(paths.vault, async () => {
+    await writeConfig(paths, config);
+    Object.assign(paths.vault, { enabled: true, writeKey: key, readKeys: [key, ...oldKeys] });
+    await resealContentFiles(paths);
+    await writeConfig(paths, { ...config, retiredKeys: [] });
+    paths.vault.readKeys = [key];
+  });
+  return vaultStatus(paths);
+}
+
+/**
+ * Decrypts every file and turns encryption off. The config is marked as pending first and
+ * removed last, so a partial run leaves an encrypted vault that re-encrypts its plaintext files on unlock.
+ */
+export async function disableEncryption(paths: StoragePaths, passphrase: string): Promise<VaultStatus> {
+  const config = await requireConfig(paths);
+  const keys = await unlockKeys(config, passphrase);
+
+  await withVaultWrites(paths.vault, async () => {
+    await writeConfig(paths, { ...config, resealPending: true });
+    Object.assign(paths.vault, { enabled: false, writeKey: null, readKeys: keys, resealPending: false });
+    await resealContentFiles(paths);
+    await rm(paths.encryptionConfigFilePath, { force: true });
+    paths.vault.readKeys = [];
+  });
+  return vaultStatus(paths);
+}
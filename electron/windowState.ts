@@ -0,0 +1,194 @@
+import { mkdir, readFile } from 'node:fs/promises';
+import path from 'node:path';
+import { isValidMemoId, writeFileAtomic } from './storage';
+
+export type WindowBounds = {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+};
+
+export type DisplayArea = {
+  id: number;
+  workArea: WindowBounds;
+};
+
+export type WindowState = {
+  bounds: WindowBounds;
+  displayId: number | null;
+  zoomFactor: number;
+  alwaysOnTop: boolean;
+  opacity: number;
+  clickThrough: boolean;
+};
+
+/** A sticky-note window's state, kept per memo; `open` says whether to reopen it at launch. */
+export type NoteWindowState = WindowState & {
+  open: boolean;
+};
+
+export type NoteWindowStates = Record<string, NoteWindowState>;
+
+export const MIN_WINDOW_OPACITY = 0.2;
+
+const WINDOW_STATE_FILENAME = 'window-state.json';
+const WINDOW_STATE_VERSION = 1;
+const NOTE_WINDOW_STATE_FILENAME = 'note-windows.json';
+
+export function windowStatePathFor(userDataPath: string): string {
+  return path.join(userDataPath, WINDOW_STATE_FILENAME);
+}
+
+export function noteWindowStatePathFor(userDataPath: string): string {
+  return path.join(userDataPath, NOTE_WINDOW_STATE_FILENAME);
+}
+
+function isFiniteNumber(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value);
+}
+
+/** Keeps opacity within a range where the window can still be found again. */
+export function clampOpacity(value: number): number {
+  return Number.isFinite(value) ? Math.min(1, Math.max(MIN_WINDOW_OPACITY, value)) : 1;
+}
+
+function isWindowBounds(value: unknown): value is WindowBounds {
+  if (!value || typeof value !== 'object') {
+    return false;
+  }
+
+  const candidate = value as Partial<WindowBounds>;
+  return (
+    isFiniteNumber(candidate.x) &&
+    isFiniteNumber(candidate.y) &&
+    isFiniteNumber(candidate.width) &&
+    isFiniteNumber(candidate.height) &&
+    candidate.width > 0 &&
+    candidate.height > 0
+  );
+}
+
+// Opacity and click-through were added later, so files without them are still valid.
+type StoredWindowState = Omit<WindowState, 'opacity' | 'clickThrough'> & { opacity?: unknown; clickThrough?: unknown };
+
+function isWindowState(value: unknown): value is StoredWindowState {
+  if (!value || typeof value !== 'object') {
+    return false;
+  }
+
+  const candidate = value as Partial<WindowState>;
+  return (
+    isWindowBounds(candidate.bounds) &&
+    (candidate.displayId === null || isFiniteNumber(candidate.displayId)) &&
+    isFiniteNumber(candidate.zoomFactor) &&
+    typeof candidate.alwaysOnTop === 'boolean'
+  );
+}
+
+function toWindowState(value: unknown): WindowState | null {
+  if (!isWindowState(value)) {
+    return null;
+  }
+  const { bounds, displayId, zoomFactor, alwaysOnTop, opacity, clickThrough } = value;
+  return {
+    bounds,
+    displayId,
+    zoomFactor,
+    alwaysOnTop,
+    opacity: isFiniteNumber(opacity) ? clampOpacity(opacity) : 1,
+    clickThrough: clickThrough === true
+  };
+}
+
+export async function loadWindowState(filePath: string): Promise<WindowState | null> {
+  try {
+    return toWindowState(JSON.parse(await readFile(filePath, 'utf8')));
+  } catch {
+    return null;
+  }
+}
+
+export async function saveWindowState(filePath: string, state: WindowState): Promise<void> {
+  await mkdir(path.dirname(filePath), { recursive: true });
+  await writeFileAtomic(filePath, JSON.stringify({ version: WINDOW_STATE_VERSION, ...state }, null, 2));
+}
+
+/** Reads the note windows' states, dropping entries that are invalid rather than the whole file. */
+export async function loadNoteWindowStates(filePath: string): Promise<NoteWindowStates> {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(await readFile(filePath, 'utf8'));
+  } catch {
+    return {};
+  }
+
+  const notes = parsed && typeof parsed === 'object' ? (parsed as { notes?: unknown }).notes : null;
+  if (!notes || typeof notes !== 'object') {
+    return {};
+  }
+
+  const states: NoteWindowStates = {};
+  for (const [memoId, value] of Object.entries(notes)) {
+    const state = toWindowState(value);
+    if (state && isValidMemoId(memoId)) {
+      states[memoId] = { ...state, open: (value as { open?: unknown }).open === true };
+    }
+  }
+  return states;
+}
+
+export async function saveNoteWindowStates(filePath: string, states: NoteWindowStates): Promise<void> {
+  await mkdir(path.dirname(filePath), { recursive: true });
+  await writeFileAtomic(filePath, JSON.stringify({ version: WINDOW_STATE_VERSION, notes: states }, null, 2));
+}
+
+function intersectionArea(a: WindowBounds, b: WindowBounds): number {
+  const width = Math.min(a.x + a.width, b.x + b.width) - Math.max(a.x, b.x);
+  const height = Math.min(a.y + a.height, b.y + b.height) - Math.max(a.y, b.y);
+  return width > 0 && height > 0 ? width * height : 0;
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(Math.max(value, min), max);
+}
+
+/**
+ * Places saved bounds back onto a connected display: the display the window was on if it
+ * still exists, else the one it overlaps most, else the primary one. The window is shrunk
+ * to fit that display's work area and moved so it is fully visible.
+ */
+export function clampBoundsToDisplays(
+  bounds: WindowBounds,
+  displayId: number | null,
+  displays: DisplayArea[],
+  primaryDisplayId: number
+): { bounds: WindowBounds; displayId: number } {
+  const overlapping = displays
+    .map((display) => ({ display, area: intersectionArea(bounds, display.workArea) }))
+    .filter((candidate) => candidate.area > 0)
+    .sort((a, b) => b.area - a.area)[0]?.display;
+  const target =
+    displays.find((display) => display.id === displayId) ??
+    overlapping ??
+    displays.find((display) => display.id === primaryDisplayId) ??
+    displays[0];
+
+  if (!target) {
+    return { bounds, displayId: primaryDisplayId };
+  }
+
+  const area = target.workArea;
+  const width = Math.min(bounds.width, area.width);
+  const height = Math.min(bounds.height, area.height);
+
+  return {
+    displayId: target.id,
+    bounds: {
+      x: Math.round(clamp(bounds.x, area.x, area.x + area.width - width)),
+      y: Math.round(clamp(bounds.y, area.y, area.y + area.height - height)),
+      width: Math.round(width),
+      height: Math.round(height)
+    }
+  };
+}
@@ -1,10 +1,35 @@
 import { useEffect, useRef, useState } from 'react';
-import Image from '@tiptap/extension-image';
 import { TextSelection } from '@tiptap/pm/state';
+import type { Transaction } from '@tiptap/pm/state';
+import { Mapping } from '@tiptap/pm/transform';
 import type { EditorView } from '@tiptap/pm/view';
+import TaskList from '@tiptap/extension-task-list';
 import StarterKit from '@tiptap/starter-kit';
+import type { Editor } from '@tiptap/react';
 import { EditorContent, useEditor } from '@tiptap/react';
-import type { MemoDoc, UpdateStatusPayload } from '../shared/types';
+import type {
+  AppSettings,
+  ImageSaveResponse,
+  MemoChangeEvent,
+  MemoDoc,
+  MemoList,
+  MemoSummary,
+  OverlayState,
+  TaskRevealRequest,
+  UpdateStatusPayload
+} from '../shared/types';
+import { removeBlocks, selectedBlocks } from './blockSelection';
+import { HistoryPanel } from './HistoryPanel';
+import { MemoImage } from './MemoImage';
+import { MemoSwitcher } from './MemoSwitcher';
+import { MemoTaskItem } from './MemoTaskItem';
+import { MemoSearch } from './MemoSearch';
+import { PreferencesPanel } from './PreferencesPanel';
+import { saveStatusLabel } from './saveStatus';
+import { SearchBar } from './SearchBar';
+import { TasksPanel } from './TasksPanel';
+import { UpdateBanner } from './UpdateBanner';
+import { useAutosave } from './useAutosave';
 
 function getFirstImageFile(dataTransfer: DataTransfer | null): File | null {
   if (!dataTransfer) {
@@ -45,7 +70,7 @@ async function imageDimensions(file: File): Promise<{ width: number; height: num
 
 function insertImageNode(
   view: EditorView,
-  src: string,
+  saved: ImageSaveResponse,
   alt: string
 ): void {
   const imageNodeType = view.state.schema.nodes.image;
@@ -56,14 +81,40 @@ function insertImageNode(
   view.dispatch(
     view.state.tr.replaceSelectionWith(
       imageNodeType.create({
-        src,
-        alt
+        src: saved.src,
+        alt,
+        width: saved.width > 0 ? saved.width : null
       })
     )
   );
   view.focus();
 }
 
+/** Puts the cursor in the `taskIndex`-th task item, counted in document order, and scrolls to it. */
+function revealTaskInEditor(editor: Editor, taskIndex: number): void {
+  let seen = 0;
+  let target: number | null = null;
+
+  editor.state.doc.descendants((node, pos) => {
+    if (target !== null) {
+      return false;
+    }
+    if (node.type.name === 'taskItem') {
+      if (seen === taskIndex) {
+        // Inside the item's first paragraph.
+        target = pos + 2;
+        return false;
+      }
+      seen += 1;
+    }
+    return true;
+  });
+
+  if (target !== null) {
+    editor.chain().focus().setTextSelection(target).scrollIntoView().run();
+  }
+}
+
 function clipboardDebugInfo(data: DataTransfer | null): {
   hasClipboardData: boolean;
   types: string[];
@@ -78,16 +129,52 @@ function clipboardDebugInfo(data: DataTransfer | null): {
   };
 }
 
-export function App(): JSX.Element {
+type ConflictChoice = 'mine' | 'theirs' | 'both';
+
+type AppProps = {
+  // Set in a sticky-note window, which always shows this one memo.
+  noteMemoId?: string;
+};
+
+export function App({ noteMemoId }: AppProps): JSX.Element {
   const [alwaysOnTop, setAlwaysOnTop] = useState(true);
+  const [overlay, setOverlay] = useState<OverlayState>({ opacity: 1, clickThrough: false });
   const [errorMessage, setErrorMessage] = useState<string | null>(null);
   const [updateStatus, setUpdateStatus] = useState<UpdateStatusPayload | null>(null);
-
-  const saveTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
-  const lastDoc = useRef<MemoDoc | null>(null);
+  const [memoList, setMemoList] = useState<MemoList | null>(null);
+  const [historyOpen, setHistoryOpen] = useState(false);
+  const [settings, setSettings] = useState<AppSettings | null>(null);
+  const [preferencesOpen, setPreferencesOpen] = useState(false);
+  const [tasksOpen, setTasksOpen] = useState(false);
+  const [searchOpen, setSearchOpen] = useState(false);
+  const [searchFocusRequest, setSearchFocusRequest] = useState(0);
+
+  const {
+    saveStatus,
+    scheduleSave,
+    flushPendingSave,
+    discardPendingSave,
+    hasPendingSave,
+    savedVersion,
+    setSavedVersion
+  } = useAutosave(settings?.autosaveDelayMs);
+  const activeMemoId = useRef<string | null>(null);
+  const shownMemoId = noteMemoId ?? memoList?.activeMemoId ?? null;
 
   const editor = useEditor({
-    extensions: [StarterKit, Image],
+    extensions: [
+      StarterKit,
+      TaskList,
+      MemoTaskItem.configure({ nested: true }),
+      MemoSearch,
+      MemoImage.configure({
+        onOpenOriginal: (src) => {
+          void window.memo.openOriginalImage(src).catch((error: unknown) => {
+            setErrorMessage(error instanceof Error ? error.message : 'Failed to open image');
+          });
+        }
+      })
+    ],
     content: {
       type: 'doc',
       content: [{ type: 'paragraph' }]
@@ -119,7 +206,7 @@ export function App(): JSX.Element {
           void (async () => {
             try {
               const saved = await window.memo.pasteImageFromClipboard();
-              insertImageNode(view, saved.src, 'Pasted image');
+              insertImageNode(view, saved, 'Pasted image');
               setErrorMessage(null);
             } catch (error) {
               console.error('[paste] failed', error);
@@ -143,7 +230,7 @@ export function App(): JSX.Element {
             const { width, height } = await imageDimensions(imageFile);
             const buffer = await imageFile.arrayBuffer();
             const saved = await window.memo.saveImageFromBytes({ buffer, width, height });
-            insertImageNode(view, saved.src, imageFile.name || 'Pasted image');
+            insertImageNode(view, saved, imageFile.name || 'Pasted image');
             setErrorMessage(null);
           } catch (error) {
             console.error('[paste] failed', error);
@@ -178,7 +265,7 @@ export function App(): JSX.Element {
             const { width, height } = await imageDimensions(imageFile);
             const buffer = await imageFile.arrayBuffer();
             const saved = await window.memo.saveImageFromBytes({ buffer, width, height });
-            insertImageNode(view, saved.src, imageFile.name || 'Dropped image');
+            insertImageNode(view, saved, imageFile.name || 'Dropped image');
             setErrorMessage(null);
           } catch (error) {
             console.error('[drop] failed', error);
@@ -191,28 +278,166 @@ export function App(): JSX.Element {
       }
     },
     onUpdate({ editor: currentEditor }) {
-      const doc = currentEditor.getJSON() as MemoDoc;
-      lastDoc.current = doc;
+      const memoId = activeMemoId.current;
+      if (memoId) {
+        scheduleSave(memoId, currentEditor.getJSON() as MemoDoc);
+      }
+    }
+  });
+
+  async function openMemo(id: string, list: MemoList): Promise<void> {
+    if (!editor) {
+      return;
+    }
 
-      if (saveTimer.current) {
-        clearTimeout(saveTimer.current);
+    const memo = await window.memo.loadMemo(id);
+    activeMemoId.current = id;
+    setSavedVersion(id, memo.updatedAt);
+    editor.commands.setContent(memo.doc, false);
+    setMemoList(list);
+    setHistoryOpen(false);
+  }
+
+  async function handleMemoChange(change: MemoChangeEvent): Promise<void> {
+    const memoId = activeMemoId.current;
+    if (!editor || !memoId) {
+      return;
+    }
+
+    if (change.kind === 'index') {
+      const list = await window.memo.listMemos();
+      if (list.memos.some((memo) => memo.id === memoId)) {
+        setMemoList(list);
+      } else if (noteMemoId) {
+        // The memo was deleted, so there is nothing left to save or show.
+        discardPendingSave();
+        window.close();
+      } else if ((await flushPendingSave()).ok) {
+        await openMemo(list.activeMemoId, list);
       }
+      return;
+    }
 
-      saveTimer.current = setTimeout(async () => {
-        if (!lastDoc.current) {
-          return;
-        }
+    if (change.memoId !== memoId) {
+      return;
+    }
+
+    // Local edits go out first; if the file moved on underneath them the save reports a conflict.
+    if (!(await flushPendingSave()).ok || savedVersion(memoId) === change.updatedAt) {
+      return;
+    }
+
+    const memo = await window.memo.loadMemo(memoId);
+    if (activeMemoId.current !== memoId || hasPendingSave() || savedVersion(memoId) === memo.updatedAt) {
+      return;
+    }
+
+    setSavedVersion(memoId, memo.updatedAt);
+    editor.commands.setContent(memo.doc, false);
+  }
+
+  /** Creates a memo without moving the main window off the memo it shows. */
+  async function createMemoAside(title: string | undefined, doc: MemoDoc): Promise<MemoSummary> {
+    const { activeMemoId: previousActiveId } = await window.memo.listMemos();
+    const created = await window.memo.createMemo(title);
+    await window.memo.saveMemo(created.id, doc);
+    setMemoList(await window.memo.setActiveMemo(previousActiveId));
+    return created;
+  }
+
+  async function popOut(): Promise<void> {
+    const memoId = activeMemoId.current;
+    if (!editor || !memoId) {
+      return;
+    }
 
-        try {
-          await window.memo.saveMemo(lastDoc.current);
-          setErrorMessage(null);
-        } catch (error) {
-          const message = error instanceof Error ? error.message : 'Save failed';
-          setErrorMessage(message);
+    const selection = selectedBlocks(editor.state);
+    if (!selection) {
+      await window.memo.openNoteWindow(memoId);
+      return;
+    }
+
+    // The blocks move to the note: they are removed here once the note is saved, so they
+    // never live in two memos. Edits made meanwhile are mapped over rather than lost.
+    const mapping = new Mapping();
+    const trackEdits = ({ transaction }: { transaction: Transaction }) => mapping.appendMapping(transaction.mapping);
+    editor.on('transaction', trackEdits);
+    let created: MemoSummary;
+    try {
+      created = await createMemoAside(selection.title || undefined, selection.doc);
+    } finally {
+      editor.off('transaction', trackEdits);
+    }
+
+    if (activeMemoId.current === memoId) {
+      editor.view.dispatch(removeBlocks(editor.state, selection, mapping));
+    }
+    await window.memo.openNoteWindow(created.id);
+  }
+
+  async function resolveConflict(memoId: string, choice: ConflictChoice): Promise<void> {
+    if (!editor) {
+      return;
+    }
+
+    try {
+      const mine = editor.getJSON() as MemoDoc;
+      const theirs = await window.memo.loadMemo(memoId);
+
+      if (choice === 'mine') {
+        setSavedVersion(memoId, theirs.updatedAt);
+        scheduleSave(memoId, mine);
+        const flushed = await flushPendingSave();
+        if (!flushed.ok) {
+          throw new Error(flushed.message ?? 'Save failed');
         }
-      }, 500);
+        return;
+      }
+
+      discardPendingSave();
+      if (choice === 'both') {
+        const title = memoList?.memos.find((memo) => memo.id === memoId)?.title ?? 'Memo';
+        await createMemoAside(`${title} (my changes)`, mine);
+      }
+
+      setSavedVersion(memoId, theirs.updatedAt);
+      editor.commands.setContent(theirs.doc, false);
+      setErrorMessage(null);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Conflict resolution failed';
+      setErrorMessage(message);
     }
-  });
+  }
+
+  async function revealTask(request: TaskRevealRequest): Promise<void> {
+    if (!editor) {
+      return;
+    }
+
+    if (activeMemoId.current !== request.memoId) {
+      await openMemo(request.memoId, await window.memo.setActiveMemo(request.memoId));
+    }
+    setHistoryOpen(false);
+    setPreferencesOpen(false);
+    setTasksOpen(false);
+    // Wait for the editor to be shown again before scrolling.
+    window.requestAnimationFrame(() => revealTaskInEditor(editor, request.taskIndex));
+  }
+
+  async function runMemoAction(action: () => Promise<void>): Promise<void> {
+    try {
+      const flushed = await flushPendingSave();
+      if (!flushed.ok) {
+        // Leave the unsaved edits where they are; the autosave keeps retrying them.
+        throw new Error(`Unsaved changes could not be saved: ${flushed.message ?? 'unknown error'}`);
+      }
+      await action();
+      setErrorMessage(null);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Memo operation failed';
+      setErrorMessage(message);
+    }
+  }
 
   useEffect(() => {
     const onKeyDown = (event: KeyboardEvent) => {
@@ -242,14 +467,26 @@ export function App(): JSX.Element {
 
     void (async () => {
       try {
-        const [memo, topState] = await Promise.all([window.memo.loadMemo(), window.memo.getAlwaysOnTop()]);
+        const [list, topState, overlayState, initialSettings] = await Promise.all([
+          window.memo.listMemos(),
+          window.memo.getAlwaysOnTop(),
+          window.memo.getOverlayState(),
+          window.memo.getSettings()
+        ]);
+        const memoId = noteMemoId ?? list.activeMemoId;
+        const memo = await window.memo.loadMemo(memoId);
 
         if (disposed) {
           return;
         }
 
+        activeMemoId.current = memoId;
+        setSavedVersion(memoId, memo.updatedAt);
         editor.commands.setContent(memo.doc, false);
+        setMemoList(list);
         setAlwaysOnTop(topState.alwaysOnTop);
+        setOverlay(overlayState);
+        setSettings(initialSettings);
       } catch (error) {
         if (disposed) {
           return;
@@ -262,12 +499,102 @@ export function App(): JSX.Element {
 
     return () => {
       disposed = true;
-      if (saveTimer.current) {
-        clearTimeout(saveTimer.current);
-      }
     };
   }, [editor]);
 
+  useEffect(() => window.memo.onFlushRequest(flushPendingSave), [flushPendingSave]);
+
+  useEffect(() => window.memo.onSettingsChanged(setSettings), []);
+
+  useEffect(() => window.memo.onTopStateChanged((state) => setAlwaysOnTop(state.alwaysOnTop)), []);
+
+  useEffect(() => window.memo.onOverlayStateChanged(setOverlay), []);
+
+  useEffect(() => {
+    if (!editor) {
+      return;
+    }
+
+    return window.memo.onMemoChanged((change) => {
+      void handleMemoChange(change).catch((error: unknown) => {
+        const message = error instanceof Error ? error.message : 'Failed to reload the memo';
+        setErrorMessage(message);
+      });
+    });
+  }, [editor]);
+
+  useEffect(() => {
+    if (!editor) {
+      return;
+    }
+
+    return window.memo.onMenuCommand((command) => {
+      const memoId = activeMemoId.current;
+
+      if (command === 'openPreferences') {
+        setHistoryOpen(false);
+        setTasksOpen(false);
+        setPreferencesOpen(true);
+      }
+
+      if (command === 'find') {
+        setHistoryOpen(false);
+        setPreferencesOpen(false);
+        setTasksOpen(false);
+        setSearchOpen(true);
+        setSearchFocusRequest((request) => request + 1);
+      }
+
+      if (command === 'findNext') {
+        editor.commands.findNext();
+      }
+
+      if (command === 'findPrevious') {
+        editor.commands.findPrevious();
+      }
+
+      if (command === 'exportMarkdown' && memoId) {
+        void runMemoAction(async () => {
+          await window.memo.exportMarkdown(memoId);
+        });
+      }
+
+      if (command === 'exportBackup') {
+        void runMemoAction(async () => {
+          await window.memo.exportBackup();
+        });
+      }
+
+      if (command === 'importBackup') {
+        void runMemoAction(async () => {
+          if (await window.memo.importBackup()) {
+            const list = await window.memo.listMemos();
+            await openMemo(list.activeMemoId, list);
+          }
+        });
+      }
+
+      if (command === 'importMarkdown') {
+        void runMemoAction(async () => {
+          const imported = await window.memo.importMarkdown();
+          if (imported) {
+            await openMemo(imported.id, await window.memo.listMemos());
+          }
+        });
+      }
+    });
+  }, [editor]);
+
+  useEffect(() => {
+    if (!editor) {
+      return;
+    }
+
+    return window.memo.onRevealTask((request) => {
+      void runMemoAction(() => revealTask(request));
+    });
+  }, [editor]);
+
   useEffect(() => {
     let disposed = false;
     const unsubscribe = window.memo.onUpdateStatus((payload) => {
@@ -296,45 +623,207 @@ export function App(): JSX.Element {
   return (
     <main className="app-shell">
       <header className="toolbar">
-        <button
-          className="top-toggle"
-          type="button"
-          onClick={async () => {
-            const next = await window.memo.toggleAlwaysOnTop();
-            setAlwaysOnTop(next.alwaysOnTop);
-          }}
-        >
-          {alwaysOnTop ? 'Top: On' : 'Top: Off'}
-        </button>
-      </header>
-
-      {errorMessage ? <p className="error-banner">{errorMessage}</p> : null}
-
-      {updateStatus?.state === 'available' ? (
-        <p className="update-banner">
-          Update available: {updateStatus.latestVersion ?? 'new version'}
+        {noteMemoId ? (
+          <span className="note-title">{memoList?.memos.find((memo) => memo.id === noteMemoId)?.title}</span>
+        ) : (
+          <MemoSwitcher
+            memoList={memoList}
+            onSelect={(id) => {
+              void runMemoAction(async () => {
+                await openMemo(id, await window.memo.setActiveMemo(id));
+              });
+            }}
+            onCreate={() => {
+              void runMemoAction(async () => {
+                await window.memo.createMemo();
+                const list = await window.memo.listMemos();
+                await openMemo(list.activeMemoId, list);
+              });
+            }}
+            onRename={(id, title) => {
+              void runMemoAction(async () => {
+                await window.memo.renameMemo(id, title);
+                setMemoList(await window.memo.listMemos());
+              });
+            }}
+            onDelete={(id) => {
+              void runMemoAction(async () => {
+                const list = await window.memo.deleteMemo(id);
+                await openMemo(list.activeMemoId, list);
+              });
+            }}
+          />
+        )}
+        <div className="toolbar-actions">
+          {saveStatusLabel(saveStatus) ? (
+            <span
+              className={`save-status save-status-${saveStatus.state}`}
+              title={saveStatus.state === 'retrying' ? saveStatus.message : undefined}
+            >
+              {saveStatusLabel(saveStatus)}
+            </span>
+          ) : null}
+          <button
+            className="top-toggle"
+            type="button"
+            onClick={() => {
+              void runMemoAction(async () => {
+                setPreferencesOpen(false);
+                setTasksOpen(false);
+                setHistoryOpen((open) => !open);
+              });
+            }}
+          >
+            History
+          </button>
+          {noteMemoId ? null : (
+            <button
+              className="top-toggle"
+              type="button"
+              onClick={() => {
+                void runMemoAction(async () => {
+                  setPreferencesOpen(false);
+                  setHistoryOpen(false);
+                  setTasksOpen((open) => !open);
+                });
+              }}
+            >
+              Tasks
+            </button>
+          )}
+          {noteMemoId ? null : (
+            <button
+              className="top-toggle"
+              type="button"
+              title="Move the selected blocks into a sticky note, or open the whole memo in one"
+              onClick={() => {
+                void runMemoAction(popOut);
+              }}
+            >
+              Pop Out
+            </button>
+          )}
+          <button
+            className="top-toggle"
+            type="button"
+            onClick={async () => {
+              const next = await window.memo.toggleAlwaysOnTop();
+              setAlwaysOnTop(next.alwaysOnTop);
+            }}
+          >
+            {alwaysOnTop ? 'Top: On' : 'Top: Off'}
+          </button>
+          <input
+            className="opacity-slider"
+            type="range"
+            min={20}
+            max={100}
+            step={5}
+            value={Math.round(overlay.opacity * 100)}
+            title={`Opacity ${Math.round(overlay.opacity * 100)}%`}
+            onChange={(event) => {
+              const opacity = event.target.valueAsNumber / 100;
+              setOverlay((current) => ({ ...current, opacity }));
+              void window.memo.setOpacity(opacity).then(setOverlay, (error: unknown) => {
+                setErrorMessage(error instanceof Error ? error.message : 'Failed to change opacity');
+              });
+            }}
+          />
           <button
-            className="update-action"
+            className="top-toggle"
             type="button"
+            title={
+              settings?.clickThroughShortcut
+                ? `Let clicks pass through the window. Press ${settings.clickThroughShortcut} to turn it off.`
+                : 'Set a click-through shortcut in Preferences first.'
+            }
             onClick={async () => {
               try {
-                await window.memo.openLatestRelease();
+                setOverlay(await window.memo.setClickThrough(true));
               } catch (error) {
-                const message = error instanceof Error ? error.message : 'Failed to open release page';
-                setErrorMessage(message);
+                setErrorMessage(error instanceof Error ? error.message : 'Failed to turn on click-through');
               }
             }}
           >
-            Open Download
+            Through
           </button>
+        </div>
+      </header>
+
+      {errorMessage ? <p className="error-banner">{errorMessage}</p> : null}
+
+      {saveStatus.state === 'conflict' ? (
+        <p className="conflict-banner">
+          This memo was changed outside this window.
+          <span className="conflict-actions">
+            <button
+              className="conflict-action"
+              type="button"
+              onClick={() => {
+                void resolveConflict(saveStatus.memoId, 'mine');
+              }}
+            >
+              Keep Mine
+            </button>
+            <button
+              className="conflict-action"
+              type="button"
+              onClick={() => {
+                void resolveConflict(saveStatus.memoId, 'theirs');
+              }}
+            >
+              Keep Theirs
+            </button>
+            <button
+              className="conflict-action"
+              type="button"
+              onClick={() => {
+                void resolveConflict(saveStatus.memoId, 'both');
+              }}
+            >
+              Save Both
+            </button>
+          </span>
         </p>
       ) : null}
 
-      {updateStatus?.state === 'error' && updateStatus.message ? (
-        <p className="error-banner">Update check failed: {updateStatus.message}</p>
+      {updateStatus ? (
+        <UpdateBanner status={updateStatus} onStatus={setUpdateStatus} onError={setErrorMessage} />
+      ) : null}
+
+      {historyOpen && shownMemoId ? (
+        <HistoryPanel
+          memoId={shownMemoId}
+          onClose={() => setHistoryOpen(false)}
+          onRestore={(snapshotId) => {
+            void runMemoAction(async () => {
+              const record = await window.memo.restoreSnapshot(shownMemoId, snapshotId);
+              setSavedVersion(shownMemoId, record.updatedAt);
+              editor?.commands.setContent(record.doc, false);
+              setHistoryOpen(false);
+            });
+          }}
+        />
+      ) : null}
+
+      {tasksOpen ? (
+        <TasksPanel
+          onClose={() => setTasksOpen(false)}
+          onReveal={(request) => {
+            void runMemoAction(() => revealTask(request));
+          }}
+        />
+      ) : null}
+
+      {preferencesOpen && settings ? (
+        <PreferencesPanel settings={settings} onClose={() => setPreferencesOpen(false)} />
+      ) : null}
+
+      {searchOpen && editor && !(historyOpen || preferencesOpen || tasksOpen) ? (
+        <SearchBar editor={editor} focusRequest={searchFocusRequest} onClose={() => setSearchOpen(false)} />
       ) : null}
 
-      <section className="editor-wrap">
+      <section className="editor-wrap" hidden={historyOpen || preferencesOpen || tasksOpen}>
         <EditorContent editor={editor} />
       </section>
     </main>
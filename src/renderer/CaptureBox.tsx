@@ -0,0 +1,50 @@
+import { useState } from 'react';
+
+export function CaptureBox(): JSX.Element {
+  const [text, setText] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
+
+  async function submit(): Promise<void> {
+    if (saving || !text.trim()) {
+      return;
+    }
+
+    setSaving(true);
+    try {
+      await window.memo.appendCapture(text);
+      setText('');
+      setErrorMessage(null);
+    } catch (error) {
+      setErrorMessage(error instanceof Error ? error.message : 'Failed to append to the memo');
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  return (
+    <main className="capture-shell">
+      <textarea
+        className="capture-input"
+        autoFocus
+        placeholder="Add to memo… (Enter to save, Shift+Enter for a new line, Esc to cancel)"
+        value={text}
+        disabled={saving}
+        onChange={(event) => setText(event.target.value)}
+        onKeyDown={(event) => {
+          if (event.key === 'Escape') {
+            event.preventDefault();
+            void window.memo.closeCapture();
+            return;
+          }
+
+          if (event.key === 'Enter' && !event.shiftKey && !event.nativeEvent.isComposing) {
+            event.preventDefault();
+            void submit();
+          }
+        }}
+      />
+      {errorMessage ? <p className="error-banner">{errorMessage}</p> : null}
+    </main>
+  );
+}
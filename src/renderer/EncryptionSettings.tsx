@@ -0,0 +1,133 @@
+import { useEffect, useState } from 'react';
+import type { VaultStatus } from '../shared/types';
+
+type EncryptionAction = 'enable' | 'change' | 'disable';
+
+export function EncryptionSettings(): JSX.Element {
+  const [status, setStatus] = useState<VaultStatus | null>(null);
+  const [currentPassphrase, setCurrentPassphrase] = useState('');
+  const [nextPassphrase, setNextPassphrase] = useState('');
+  const [confirmPassphrase, setConfirmPassphrase] = useState('');
+  const [busy, setBusy] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
+
+  useEffect(() => {
+    void window.memo.getVaultStatus().then(setStatus);
+    return window.memo.onVaultStatus(setStatus);
+  }, []);
+
+  async function run(action: EncryptionAction): Promise<void> {
+    if (action !== 'disable' && nextPassphrase !== confirmPassphrase) {
+      setErrorMessage('The new passphrases do not match.');
+      return;
+    }
+
+    setBusy(true);
+    setMessage(null);
+    setErrorMessage(null);
+    try {
+      if (action === 'enable') {
+        setStatus(await window.memo.enableEncryption(nextPassphrase));
+        setMessage('Memos and images are now encrypted.');
+      } else if (action === 'change') {
+        setStatus(await window.memo.changePassphrase(currentPassphrase, nextPassphrase));
+        setMessage('Passphrase changed.');
+      } else {
+        setStatus(await window.memo.disableEncryption(currentPassphrase));
+        setMessage('Encryption turned off.');
+      }
+      setCurrentPassphrase('');
+      setNextPassphrase('');
+      setConfirmPassphrase('');
+    } catch (error) {
+      setErrorMessage(error instanceof Error ? error.message : 'Encryption update failed');
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  if (!status) {
+    return <div className="preferences-form" />;
+  }
+
+  return (
+    <div className="preferences-form">
+      <p className="preferences-section">Encryption</p>
+      {message ? <p className="preferences-row">{message}</p> : null}
+      {errorMessage ? <p className="error-banner">{errorMessage}</p> : null}
+
+      {status.enabled ? (
+        <label className="preferences-row">
+          Current passphrase
+          <input
+            className="preferences-text"
+            type="password"
+            value={currentPassphrase}
+            disabled={busy}
+            onChange={(event) => setCurrentPassphrase(event.target.value)}
+          />
+        </label>
+      ) : (
+        <p className="preferences-row">Encrypt memos, history and images with a passphrase. It cannot be recovered.</p>
+      )}
+
+      <label className="preferences-row">
+        New passphrase
+        <input
+          className="preferences-text"
+          type="password"
+          value={nextPassphrase}
+          disabled={busy}
+          onChange={(event) => setNextPassphrase(event.target.value)}
+        />
+      </label>
+
+      <label className="preferences-row">
+        Confirm new passphrase
+        <input
+          className="preferences-text"
+          type="password"
+          value={confirmPassphrase}
+          disabled={busy}
+          onChange={(event) => setConfirmPassphrase(event.target.value)}
+        />
+      </label>
+
+      <div className="history-footer">
+        {status.enabled ? (
+          <>
+            <button className="memo-action" type="button" disabled={busy} onClick={() => void window.memo.lockVault()}>
+              Lock Now
+            </button>
+            <button
+              className="memo-action"
+              type="button"
+              disabled={busy || !currentPassphrase}
+              onClick={() => void run('disable')}
+            >
+              Turn Off
+            </button>
+            <button
+              className="update-action"
+              type="button"
+              disabled={busy || !currentPassphrase || !nextPassphrase}
+              onClick={() => void run('change')}
+            >
+              Change Passphrase
+            </button>
+          </>
+        ) : (
+          <button
+            className="update-action"
+            type="button"
+            disabled={busy || !nextPassphrase}
+            onClick={() => void run('enable')}
+          >
+            Turn On Encryption
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,147 @@
+import { useEffect, useState } from 'react';
+import Image from '@tiptap/extension-image';
+import TaskItem from '@tiptap/extension-task-item';
+import TaskList from '@tiptap/extension-task-list';
+import StarterKit from '@tiptap/starter-kit';
+import { EditorContent, useEditor } from '@tiptap/react';
+import type { MemoSnapshotSummary, SnapshotReason } from '../shared/types';
+
+type HistoryPanelProps = {
+  memoId: string;
+  onRestore: (snapshotId: string) => void;
+  onClose: () => void;
+};
+
+const REASON_LABELS: Record<SnapshotReason, string> = {
+  periodic: 'Auto',
+  significant_change: 'Before large edit',
+  corrupt: 'Recovered from damaged file',
+  before_restore: 'Before restore'
+};
+
+function formatSnapshotTime(iso: string): string {
+  return new Date(iso).toLocaleString(undefined, {
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit'
+  });
+}
+
+export function HistoryPanel({ memoId, onRestore, onClose }: HistoryPanelProps): JSX.Element {
+  const [snapshots, setSnapshots] = useState<MemoSnapshotSummary[] | null>(null);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
+
+  const preview = useEditor({
+    extensions: [StarterKit, Image, TaskList, TaskItem.configure({ nested: true })],
+    editable: false,
+    content: '',
+    editorProps: {
+      attributes: {
+        class: 'memo-editor history-preview'
+      }
+    }
+  });
+
+  useEffect(() => {
+    let disposed = false;
+
+    void (async () => {
+      try {
+        const list = await window.memo.listSnapshots(memoId);
+        if (!disposed) {
+          setSnapshots(list);
+          setSelectedId(list[0]?.id ?? null);
+        }
+      } catch (error) {
+        if (!disposed) {
+          setErrorMessage(error instanceof Error ? error.message : 'Failed to load history');
+        }
+      }
+    })();
+
+    return () => {
+      disposed = true;
+    };
+  }, [memoId]);
+
+  useEffect(() => {
+    if (!preview || !selectedId) {
+      preview?.commands.clearContent();
+      return;
+    }
+
+    let disposed = false;
+
+    void (async () => {
+      try {
+        const snapshot = await window.memo.loadSnapshot(memoId, selectedId);
+        if (!disposed) {
+          preview.commands.setContent(snapshot.doc, false);
+        }
+      } catch (error) {
+        if (!disposed) {
+          setErrorMessage(error instanceof Error ? error.message : 'Failed to load snapshot');
+        }
+      }
+    })();
+
+    return () => {
+      disposed = true;
+    };
+  }, [preview, memoId, selectedId]);
+
+  return (
+    <section className="history-panel">
+      <div className="history-header">
+        <span>History</span>
+        <button className="memo-action" type="button" onClick={onClose}>
+          Close
+        </button>
+      </div>
+
+      {errorMessage ? <p className="error-banner">{errorMessage}</p> : null}
+
+      {snapshots && snapshots.length === 0 ? <p className="history-empty">No snapshots yet.</p> : null}
+
+      <ul className="history-list">
+        {(snapshots ?? []).map((snapshot) => (
+          <li key={snapshot.id}>
+            <button
+              className={snapshot.id === selectedId ? 'history-item selected' : 'history-item'}
+              type="button"
+              onClick={() => setSelectedId(snapshot.id)}
+            >
+              <span className="history-time">
+                {formatSnapshotTime(snapshot.createdAt)} · {REASON_LABELS[snapshot.reason]}
+              </span>
+              <span className="history-preview-text">{snapshot.preview || '(empty)'}</span>
+            </button>
+          </li>
+        ))}
+      </ul>
+
+      {selectedId ? (
+        <>
+          <div className="history-preview-wrap">
+            <EditorContent editor={preview} />
+          </div>
+          <div className="history-footer">
+            <button
+              className="update-action"
+              type="button"
+              onClick={() => {
+                if (window.confirm('Replace the current memo with this snapshot? The current content is kept in history.')) {
+                  onRestore(selectedId);
+                }
+              }}
+            >
+              Restore
+            </button>
+          </div>
+        </>
+      ) : null}
+    </section>
+  );
+}
@@ -0,0 +1,73 @@
+import { useEffect, useState } from 'react';
+import type { ReactNode } from 'react';
+import type { VaultStatus } from '../shared/types';
+
+type LockScreenProps = {
+  onUnlocked: (status: VaultStatus) => void;
+};
+
+export function LockScreen({ onUnlocked }: LockScreenProps): JSX.Element {
+  const [passphrase, setPassphrase] = useState('');
+  const [unlocking, setUnlocking] = useState(false);
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
+
+  async function unlock(): Promise<void> {
+    if (unlocking || !passphrase) {
+      return;
+    }
+
+    setUnlocking(true);
+    try {
+      const status = await window.memo.unlockVault(passphrase);
+      setPassphrase('');
+      onUnlocked(status);
+    } catch (error) {
+      setErrorMessage(error instanceof Error ? error.message : 'Failed to unlock');
+    } finally {
+      setUnlocking(false);
+    }
+  }
+
+  return (
+    <main className="app-shell">
+      <header className="toolbar" />
+      <form
+        className="lock-screen"
+        onSubmit={(event) => {
+          event.preventDefault();
+          void unlock();
+        }}
+      >
+        <p className="lock-title">Memos are locked</p>
+        <input
+          className="lock-input"
+          type="password"
+          autoFocus
+          placeholder="Passphrase"
+          value={passphrase}
+          disabled={unlocking}
+          onChange={(event) => setPassphrase(event.target.value)}
+        />
+        <button className="update-action" type="submit" disabled={unlocking || !passphrase}>
+          {unlocking ? 'Unlocking…' : 'Unlock'}
+        </button>
+        {errorMessage ? <p className="error-banner">{errorMessage}</p> : null}
+      </form>
+    </main>
+  );
+}
+
+/** Shows the lock screen instead of `children` while encrypted memos are locked. */
+export function VaultGate({ children }: { children: ReactNode }): JSX.Element | null {
+  const [status, setStatus] = useState<VaultStatus | null>(null);
+
+  useEffect(() => {
+    void window.memo.getVaultStatus().then(setStatus);
+    return window.memo.onVaultStatus(setStatus);
+  }, []);
+
+  if (!status) {
+    return null;
+  }
+  return status.locked ? <LockScreen onUnlocked={setStatus} /> : <>{children}</>;
+}
@@ -0,0 +1,138 @@
+import { useRef } from 'react';
+import type { PointerEvent as ReactPointerEvent } from 'react';
+import Image from '@tiptap/extension-image';
+import type { ImageOptions } from '@tiptap/extension-image';
+import { NodeViewWrapper, ReactNodeViewRenderer } from '@tiptap/react';
+import type { NodeViewProps } from '@tiptap/react';
+import { clampImageWidth, DEFAULT_IMAGE_ALIGN, IMAGE_ALIGNS, parseImageAlign, parseImageWidth } from '../shared/image';
+import type { ImageAlign } from '../shared/image';
+
+type MemoImageOptions = ImageOptions & {
+  onOpenOriginal: (src: string) => void;
+};
+
+function ImageView({ node, selected, editor, extension, updateAttributes }: NodeViewProps): JSX.Element {
+  const imageRef = useRef<HTMLImageElement>(null);
+  const src = String(node.attrs.src ?? '');
+  const width = node.attrs.width as number | null;
+  const align = node.attrs.align as ImageAlign;
+  const caption = (node.attrs.caption as string | null) ?? '';
+  const options = extension.options as MemoImageOptions;
+
+  function startResize(event: ReactPointerEvent<HTMLSpanElement>): void {
+    const image = imageRef.current;
+    if (!image) {
+      return;
+    }
+
+    event.preventDefault();
+    const handle = event.currentTarget;
+    const startX = event.clientX;
+    const startWidth = image.getBoundingClientRect().width;
+    const maxWidth = image.closest('.memo-image')?.clientWidth ?? startWidth;
+    // Centered images grow on both sides and right-aligned ones towards the left.
+    const direction = align === 'center' ? 2 : align === 'right' ? -1 : 1;
+
+    const resize = (moveEvent: PointerEvent) => {
+      const next = startWidth + (moveEvent.clientX - startX) * direction;
+      image.style.width = `${clampImageWidth(next, maxWidth)}px`;
+    };
+    // A cancelled or stolen pointer ends the drag too, or the handle would keep resizing on the next hover.
+    const finish = () => {
+      handle.removeEventListener('pointermove', resize);
+      handle.removeEventListener('pointerup', finish);
+      handle.removeEventListener('pointercancel', finish);
+      handle.removeEventListener('lostpointercapture', finish);
+      updateAttributes({ width: parseImageWidth(image.style.width) });
+    };
+
+    handle.setPointerCapture(event.pointerId);
+    handle.addEventListener('pointermove', resize);
+    handle.addEventListener('pointerup', finish);
+    handle.addEventListener('pointercancel', finish);
+    handle.addEventListener('lostpointercapture', finish);
+  }
+
+  return (
+    <NodeViewWrapper as="figure" className={`memo-image memo-image-${align}${selected ? ' is-selected' : ''}`}>
+      <span className="memo-image-frame">
+        <img
+          ref={imageRef}
+          src={src}
+          alt={node.attrs.alt ?? ''}
+          title={node.attrs.title ?? undefined}
+          style={{ width: width ? `${width}px` : undefined }}
+          data-drag-handle
+          onDoubleClick={() => options.onOpenOriginal(src)}
+        />
+        {editor.isEditable ? <span className="memo-image-handle" onPointerDown={startResize} /> : null}
+      </span>
+
+      {selected && editor.isEditable ? (
+        <span className="memo-image-toolbar">
+          {IMAGE_ALIGNS.map((value) => (
+            <button
+              key={value}
+              className={`memo-action${value === align ? ' is-active' : ''}`}
+              type="button"
+              onClick={() => updateAttributes({ align: value })}
+            >
+              {value[0].toUpperCase() + value.slice(1)}
+            </button>
+          ))}
+        </span>
+      ) : null}
+
+      {caption || selected ? (
+        <figcaption>
+          <input
+            className="memo-image-caption"
+            type="text"
+            placeholder="Add a caption"
+            value={caption}
+            readOnly={!editor.isEditable}
+            onChange={(event) => updateAttributes({ caption: event.target.value || null })}
+          />
+        </figcaption>
+      ) : null}
+    </NodeViewWrapper>
+  );
+}
+
+/**
+ * The image node used by the editor: `width`, `align` and `caption` are stored as node
+ * attributes in the memo, and images are resized by dragging the corner handle.
+ */
+export const MemoImage = Image.extend<MemoImageOptions>({
+  addOptions() {
+    return {
+      ...(this.parent?.() as ImageOptions),
+      onOpenOriginal: () => undefined
+    };
+  },
+
+  addAttributes() {
+    return {
+      ...this.parent?.(),
+      width: {
+        default: null,
+        parseHTML: (element) => parseImageWidth(element.getAttribute('width')),
+        renderHTML: (attributes) => (attributes.width ? { width: attributes.width } : {})
+      },
+      align: {
+        default: DEFAULT_IMAGE_ALIGN,
+        parseHTML: (element) => parseImageAlign(element.getAttribute('data-align')),
+        renderHTML: (attributes) => ({ 'data-align': attributes.align })
+      },
+      caption: {
+        default: null,
+        parseHTML: (element) => element.getAttribute('data-caption'),
+        renderHTML: (attributes) => (attributes.caption ? { 'data-caption': attributes.caption } : {})
+      }
+    };
+  },
+
+  addNodeView() {
+    return ReactNodeViewRenderer(ImageView);
+  }
+});
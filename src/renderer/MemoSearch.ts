@@ -0,0 +1,262 @@
+import { Extension } from '@tiptap/core';
+import type { CommandProps } from '@tiptap/core';
+import type { Node as ProseMirrorNode } from '@tiptap/pm/model';
+import { Plugin, PluginKey, TextSelection } from '@tiptap/pm/state';
+import type { Transaction } from '@tiptap/pm/state';
+import { Decoration, DecorationSet } from '@tiptap/pm/view';
+
+export type SearchOptions = {
+  query: string;
+  caseSensitive: boolean;
+  wholeWord: boolean;
+};
+
+export type SearchMatch = {
+  from: number;
+  to: number;
+};
+
+export type SearchState = SearchOptions & {
+  matches: SearchMatch[];
+  activeIndex: number;
+  decorations: DecorationSet;
+};
+
+type SearchMeta = {
+  options?: SearchOptions;
+  activeIndex?: number;
+};
+
+declare module '@tiptap/core' {
+  interface Commands<ReturnType> {
+    memoSearch: {
+      setSearch: (options: SearchOptions) => ReturnType;
+      clearSearch: () => ReturnType;
+      findNext: () => ReturnType;
+      findPrevious: () => ReturnType;
+      replaceMatch: (replacement: string) => ReturnType;
+      replaceAllMatches: (replacement: string) => ReturnType;
+    };
+  }
+}
+
+export const searchPluginKey = new PluginKey<SearchState>('memoSearch');
+
+const EMPTY_OPTIONS: SearchOptions = { query: '', caseSensitive: false, wholeWord: false };
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+function searchPattern(options: SearchOptions): RegExp | null {
+  if (!options.query) {
+    return null;
+  }
+
+  const body = escapeRegExp(options.query);
+  // Letters, digits and underscores of any script count as word characters.
+  const source = options.wholeWord ? `(?<![\\p{L}\\p{N}_])${body}(?![\\p{L}\\p{N}_])` : body;
+  return new RegExp(source, options.caseSensitive ? 'gu' : 'giu');
+}
+
+/** Finds every match in the document. Adjacent text nodes are searched together, so a match may span marks. */
+export function findMatches(doc: ProseMirrorNode, options: SearchOptions): SearchMatch[] {
+  const pattern = searchPattern(options);
+  const matches: SearchMatch[] = [];
+  if (!pattern) {
+    return matches;
+  }
+
+  doc.descendants((node, pos) => {
+    if (!node.isTextblock) {
+      return true;
+    }
+
+    let text = '';
+    let start = 0;
+    const flush = () => {
+      for (const match of text.matchAll(pattern)) {
+        matches.push({ from: start + match.index, to: start + match.index + match[0].length });
+      }
+      text = '';
+    };
+
+    node.forEach((child, offset) => {
+      if (!child.isText) {
+        flush();
+        return;
+      }
+      if (!text) {
+        start = pos + 1 + offset;
+      }
+      text += child.text ?? '';
+    });
+    flush();
+    return false;
+  });
+
+  return matches;
+}
+
+function buildDecorations(doc: ProseMirrorNode, matches: SearchMatch[], activeIndex: number): DecorationSet {
+  return DecorationSet.create(
+    doc,
+    matches.map((match, index) =>
+      Decoration.inline(match.from, match.to, {
+        class: index === activeIndex ? 'search-match search-match-active' : 'search-match'
+      })
+    )
+  );
+}
+
+function applySearch(tr: Transaction, previous: SearchState): SearchState {
+  const meta = tr.getMeta(searchPluginKey) as SearchMeta | undefined;
+  if (!meta && !tr.docChanged) {
+    return previous;
+  }
+
+  const options = meta?.options ?? previous;
+  const matches = findMatches(tr.doc, options);
+  let activeIndex: number;
+  if (meta?.activeIndex !== undefined) {
+    activeIndex = meta.activeIndex;
+  } else if (meta?.options) {
+    // A new query starts from the cursor rather than the top of the memo.
+    const next = matches.findIndex((match) => match.from >= tr.selection.from);
+    activeIndex = matches.length > 0 ? Math.max(next, 0) : -1;
+  } else {
+    activeIndex = previous.activeIndex;
+  }
+  activeIndex = matches.length > 0 ? Math.min(Math.max(activeIndex, 0), matches.length - 1) : -1;
+
+  return {
+    query: options.query,
+    caseSensitive: options.caseSensitive,
+    wholeWord: options.wholeWord,
+    matches,
+    activeIndex,
+    decorations: buildDecorations(tr.doc, matches, activeIndex)
+  };
+}
+
+function selectMatch(tr: Transaction, match: SearchMatch): void {
+  tr.setSelection(TextSelection.create(tr.doc, match.from, match.to)).scrollIntoView();
+}
+
+/** Replaces the active match and selects the first match after it, which may be inside the replacement. */
+export function replaceActiveMatch(tr: Transaction, search: SearchState, replacement: string): void {
+  const match = search.matches[search.activeIndex];
+  if (!match) {
+    return;
+  }
+
+  tr.insertText(replacement, match.from, match.to);
+  const matches = findMatches(tr.doc, search);
+  const next = Math.max(
+    matches.findIndex((candidate) => candidate.from >= match.from + replacement.length),
+    0
+  );
+  tr.setMeta(searchPluginKey, { activeIndex: next });
+  if (matches[next]) {
+    selectMatch(tr, matches[next]);
+  }
+}
+
+/** Replaces every match in `tr`, so the whole replacement is one undo step. */
+export function replaceEveryMatch(tr: Transaction, search: SearchState, replacement: string): void {
+  // Back to front, so earlier positions are still valid.
+  for (const match of [...search.matches].reverse()) {
+    tr.insertText(replacement, match.from, match.to);
+  }
+}
+
+/** The plugin holding the search state and its highlights. */
+export function createSearchPlugin(): Plugin<SearchState> {
+  return new Plugin<SearchState>({
+    key: searchPluginKey,
+    state: {
+      init: () => ({ ...EMPTY_OPTIONS, matches: [], activeIndex: -1, decorations: DecorationSet.empty }),
+      apply: applySearch
+    },
+    props: {
+      decorations: (state) => searchPluginKey.getState(state)?.decorations
+    }
+  });
+}
+
+/**
+ * Find and replace for the editor. Matches are highlighted with decorations; stepping
+ * through them selects each one, and replacements are ordinary edits that undo normally.
+ */
+export const MemoSearch = Extension.create({
+  name: 'memoSearch',
+
+  addCommands() {
+    const step =
+      (direction: 1 | -1) =>
+      () =>
+      ({ state, tr, dispatch }: CommandProps) => {
+        const search = searchPluginKey.getState(state);
+        if (!search || search.matches.length === 0) {
+          return false;
+        }
+
+        const count = search.matches.length;
+        const activeIndex = (search.activeIndex + direction + count) % count;
+        if (dispatch) {
+          tr.setMeta(searchPluginKey, { activeIndex });
+          selectMatch(tr, search.matches[activeIndex]);
+        }
+        return true;
+      };
+
+    return {
+      setSearch:
+        (options) =>
+        ({ tr, dispatch }) => {
+          if (dispatch) {
+            tr.setMeta(searchPluginKey, { options });
+          }
+          return true;
+        },
+      clearSearch:
+        () =>
+        ({ tr, dispatch }) => {
+          if (dispatch) {
+            tr.setMeta(searchPluginKey, { options: EMPTY_OPTIONS });
+          }
+          return true;
+        },
+      findNext: step(1),
+      findPrevious: step(-1),
+      replaceMatch:
+        (replacement) =>
+        ({ state, tr, dispatch }) => {
+          const search = searchPluginKey.getState(state);
+          if (!search?.matches[search.activeIndex]) {
+            return false;
+          }
+          if (dispatch) {
+            replaceActiveMatch(tr, search, replacement);
+          }
+          return true;
+        },
+      replaceAllMatches:
+        (replacement) =>
+        ({ state, tr, dispatch }) => {
+          const search = searchPluginKey.getState(state);
+          if (!search || search.matches.length === 0) {
+            return false;
+          }
+          if (dispatch) {
+            replaceEveryMatch(tr, search, replacement);
+          }
+          return true;
+        }
+    };
+  },
+
+  addProseMirrorPlugins() {
+    return [createSearchPlugin()];
+  }
+});
@@ -0,0 +1,96 @@
+import { useEffect, useState } from 'react';
+import type { MemoList } from '../shared/types';
+
+type MemoSwitcherProps = {
+  memoList: MemoList | null;
+  onSelect: (id: string) => void;
+  onCreate: () => void;
+  onRename: (id: string, title: string) => void;
+  onDelete: (id: string) => void;
+};
+
+export function MemoSwitcher({ memoList, onSelect, onCreate, onRename, onDelete }: MemoSwitcherProps): JSX.Element {
+  const [renaming, setRenaming] = useState(false);
+  const [draftTitle, setDraftTitle] = useState('');
+
+  const activeMemo = memoList?.memos.find((memo) => memo.id === memoList.activeMemoId) ?? null;
+
+  useEffect(() => {
+    setRenaming(false);
+  }, [memoList?.activeMemoId]);
+
+  if (!memoList || !activeMemo) {
+    return <div className="memo-switcher" />;
+  }
+
+  const commitRename = () => {
+    setRenaming(false);
+    if (draftTitle.trim() && draftTitle !== activeMemo.title) {
+      onRename(activeMemo.id, draftTitle);
+    }
+  };
+
+  return (
+    <div className="memo-switcher">
+      {renaming ? (
+        <input
+          className="memo-title-input"
+          autoFocus
+          value={draftTitle}
+          onChange={(event) => setDraftTitle(event.target.value)}
+          onBlur={commitRename}
+          onKeyDown={(event) => {
+            if (event.key === 'Enter') {
+              commitRename();
+            }
+            if (event.key === 'Escape') {
+              setRenaming(false);
+            }
+          }}
+        />
+      ) : (
+        <select
+          className="memo-select"
+          value={activeMemo.id}
+          onChange={(event) => onSelect(event.target.value)}
+          onDoubleClick={() => {
+            setDraftTitle(activeMemo.title);
+            setRenaming(true);
+          }}
+        >
+          {memoList.memos.map((memo) => (
+            <option key={memo.id} value={memo.id}>
+              {memo.title}
+            </option>
+          ))}
+        </select>
+      )}
+      <button className="memo-action" type="button" title="New memo" onClick={onCreate}>
+        +
+      </button>
+      <button
+        className="memo-action"
+        type="button"
+        title="Rename memo"
+        onClick={() => {
+          setDraftTitle(activeMemo.title);
+          setRenaming(true);
+        }}
+      >
+        Rename
+      </button>
+      <button
+        className="memo-action"
+        type="button"
+        title="Delete memo"
+        onClick={() => {
+          if (window.confirm(`Delete "${activeMemo.title}"? This cannot be undone.`)) {
+            onDelete(activeMemo.id);
+          }
+        }}
+      >
+        Delete
+      </button>
+    </div>
+  );
+}
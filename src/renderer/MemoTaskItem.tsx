@@ -0,0 +1,77 @@
+import { useState } from 'react';
+import TaskItem from '@tiptap/extension-task-item';
+import { NodeViewContent, NodeViewWrapper, ReactNodeViewRenderer } from '@tiptap/react';
+import type { NodeViewProps } from '@tiptap/react';
+
+const DUE_PATTERN = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}$/;
+
+function parseDue(value: string | null): string | null {
+  return value && DUE_PATTERN.test(value) ? value : null;
+}
+
+function TaskItemView({ node, editor, updateAttributes }: NodeViewProps): JSX.Element {
+  const [editingDue, setEditingDue] = useState(false);
+  const checked = node.attrs.checked === true;
+  const due = (node.attrs.due as string | null) ?? null;
+  const overdue = !checked && !!due && new Date(due).getTime() < Date.now();
+
+  return (
+    <NodeViewWrapper
+      as="li"
+      className={`memo-task${overdue ? ' memo-task-overdue' : ''}`}
+      data-type="taskItem"
+      data-checked={checked}
+    >
+      <label contentEditable={false}>
+        <input
+          type="checkbox"
+          checked={checked}
+          disabled={!editor.isEditable}
+          onMouseDown={(event) => event.preventDefault()}
+          onChange={(event) => updateAttributes({ checked: event.target.checked })}
+        />
+      </label>
+      <NodeViewContent className="memo-task-content" />
+      {editor.isEditable || due ? (
+        <span className="memo-task-due" contentEditable={false}>
+          {due || editingDue ? (
+            <input
+              type="datetime-local"
+              value={due ?? ''}
+              autoFocus={editingDue && !due}
+              readOnly={!editor.isEditable}
+              onChange={(event) => updateAttributes({ due: parseDue(event.target.value) })}
+              onBlur={() => setEditingDue(false)}
+            />
+          ) : (
+            <button className="memo-task-due-add" type="button" onClick={() => setEditingDue(true)}>
+              Due…
+            </button>
+          )}
+        </span>
+      ) : null}
+    </NodeViewWrapper>
+  );
+}
+
+/**
+ * The task item used by the editor. An optional `due` attribute holds a local date and
+ * time, which the main process reads to send a reminder when the task comes due.
+ */
+export const MemoTaskItem = TaskItem.extend({
+  addAttributes() {
+    return {
+      ...this.parent?.(),
+      due: {
+        default: null,
+        keepOnSplit: false,
+        parseHTML: (element) => parseDue(element.getAttribute('data-due')),
+        renderHTML: (attributes) => (attributes.due ? { 'data-due': attributes.due } : {})
+      }
+    };
+  },
+
+  addNodeView() {
+    return ReactNodeViewRenderer(TaskItemView);
+  }
+});
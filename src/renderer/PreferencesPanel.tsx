@@ -0,0 +1,183 @@
+import { useEffect, useState } from 'react';
+import type { AppSettings, UpdateChannel } from '../shared/types';
+import { EncryptionSettings } from './EncryptionSettings';
+
+type PreferencesPanelProps = {
+  settings: AppSettings;
+  onClose: () => void;
+};
+
+export function PreferencesPanel({ settings, onClose }: PreferencesPanelProps): JSX.Element {
+  const [draft, setDraft] = useState<AppSettings>(settings);
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
+
+  useEffect(() => {
+    setDraft(settings);
+  }, [settings]);
+
+  async function save(): Promise<void> {
+    try {
+      await window.memo.updateSettings(draft);
+      onClose();
+    } catch (error) {
+      setErrorMessage(error instanceof Error ? error.message : 'Failed to save preferences');
+    }
+  }
+
+  return (
+    <section className="preferences-panel">
+      <div className="history-header">
+        <span>Preferences</span>
+        <button className="memo-action" type="button" onClick={onClose}>
+          Close
+        </button>
+      </div>
+
+      {errorMessage ? <p className="error-banner">{errorMessage}</p> : null}
+
+      <form
+        className="preferences-form"
+        onSubmit={(event) => {
+          event.preventDefault();
+          void save();
+        }}
+      >
+        <label className="preferences-row">
+          <input
+            type="checkbox"
+            checked={draft.alwaysOnTopByDefault}
+            onChange={(event) => setDraft({ ...draft, alwaysOnTopByDefault: event.target.checked })}
+          />
+          Keep the window on top by default
+        </label>
+
+        <label className="preferences-row">
+          <input
+            type="checkbox"
+            checked={draft.checkForUpdates}
+            onChange={(event) => setDraft({ ...draft, checkForUpdates: event.target.checked })}
+          />
+          Check for updates automatically
+        </label>
+
+        <label className="preferences-row">
+          Update channel
+          <select
+            className="preferences-text"
+            value={draft.updateChannel}
+            onChange={(event) => setDraft({ ...draft, updateChannel: event.target.value as UpdateChannel })}
+          >
+            <option value="stable">Stable releases</option>
+            <option value="prerelease">Pre-releases</option>
+          </select>
+        </label>
+
+        <label className="preferences-row">
+          Autosave delay (ms)
+          <input
+            className="preferences-number"
+            type="number"
+            min={100}
+            max={10000}
+            step={100}
+            value={draft.autosaveDelayMs}
+            onChange={(event) => setDraft({ ...draft, autosaveDelayMs: event.target.valueAsNumber })}
+          />
+        </label>
+
+        <label className="preferences-row">
+          Maximum image width (px)
+          <input
+            className="preferences-number"
+            type="number"
+            min={120}
+            max={4096}
+            step={10}
+            value={draft.maxImageWidth}
+            onChange={(event) => setDraft({ ...draft, maxImageWidth: event.target.valueAsNumber })}
+          />
+        </label>
+
+        <label className="preferences-row">
+          <input
+            type="checkbox"
+            checked={draft.keepOriginalImages}
+            onChange={(event) => setDraft({ ...draft, keepOriginalImages: event.target.checked })}
+          />
+          Keep full-size originals of downscaled images
+        </label>
+
+        <label className="preferences-row">
+          Quick capture shortcut
+          <input
+            className="preferences-text"
+            type="text"
+            placeholder="Off"
+            value={draft.quickCaptureShortcut}
+            onChange={(event) => setDraft({ ...draft, quickCaptureShortcut: event.target.value.trim() })}
+          />
+        </label>
+
+        <label className="preferences-row">
+          Click-through off shortcut
+          <input
+            className="preferences-text"
+            type="text"
+            placeholder="None"
+            value={draft.clickThroughShortcut}
+            onChange={(event) => setDraft({ ...draft, clickThroughShortcut: event.target.value.trim() })}
+          />
+        </label>
+
+        <label className="preferences-row">
+          <input
+            type="checkbox"
+            checked={draft.showTrayIcon}
+            onChange={(event) => setDraft({ ...draft, showTrayIcon: event.target.checked })}
+          />
+          Show an icon in the menu bar or tray
+        </label>
+
+        <label className="preferences-row">
+          <input
+            type="checkbox"
+            checked={draft.hideDockIcon}
+            disabled={!draft.showTrayIcon}
+            onChange={(event) => setDraft({ ...draft, hideDockIcon: event.target.checked })}
+          />
+          Hide the Dock icon while the tray icon is shown (macOS)
+        </label>
+
+        <label className="preferences-row">
+          <input
+            type="checkbox"
+            checked={draft.hideOnBlur}
+            onChange={(event) => setDraft({ ...draft, hideOnBlur: event.target.checked })}
+          />
+          Hide the window when switching to another app
+        </label>
+
+        <label className="preferences-row">
+          Lock encrypted memos after idle (min, 0 = never)
+          <input
+            className="preferences-number"
+            type="number"
+            min={0}
+            max={1440}
+            step={1}
+            value={draft.autoLockMinutes}
+            onChange={(event) => setDraft({ ...draft, autoLockMinutes: event.target.valueAsNumber })}
+          />
+        </label>
+
+        <div className="history-footer">
+          <button className="update-action" type="submit">
+            Save
+          </button>
+        </div>
+      </form>
+
+      <EncryptionSettings />
+    </section>
+  );
+}
@@ -0,0 +1,168 @@
+import { useEffect, useRef, useState } from 'react';
+import type { Editor } from '@tiptap/react';
+import { searchPluginKey } from './MemoSearch';
+
+type SearchBarProps = {
+  editor: Editor;
+  // Bumped by the Find menu item to focus the query again while the bar is open.
+  focusRequest: number;
+  onClose: () => void;
+};
+
+type MatchInfo = {
+  count: number;
+  activeIndex: number;
+};
+
+function matchInfo(editor: Editor): MatchInfo {
+  const search = searchPluginKey.getState(editor.state);
+  return { count: search?.matches.length ?? 0, activeIndex: search?.activeIndex ?? -1 };
+}
+
+export function SearchBar({ editor, focusRequest, onClose }: SearchBarProps): JSX.Element {
+  const [query, setQuery] = useState('');
+  const [replacement, setReplacement] = useState('');
+  const [caseSensitive, setCaseSensitive] = useState(false);
+  const [wholeWord, setWholeWord] = useState(false);
+  const [replaceOpen, setReplaceOpen] = useState(false);
+  const [info, setInfo] = useState<MatchInfo>(() => matchInfo(editor));
+  const queryInput = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    queryInput.current?.focus();
+    queryInput.current?.select();
+  }, [focusRequest]);
+
+  useEffect(() => {
+    editor.commands.setSearch({ query, caseSensitive, wholeWord });
+  }, [editor, query, caseSensitive, wholeWord]);
+
+  useEffect(() => {
+    const update = () => setInfo(matchInfo(editor));
+    editor.on('transaction', update);
+    return () => {
+      editor.off('transaction', update);
+      editor.commands.clearSearch();
+    };
+  }, [editor]);
+
+  function close(): void {
+    onClose();
+    editor.commands.focus();
+  }
+
+  return (
+    <div
+      className="search-bar"
+      onKeyDown={(event) => {
+        if (event.key === 'Escape') {
+          event.preventDefault();
+          close();
+        }
+      }}
+    >
+      <div className="search-row">
+        <input
+          ref={queryInput}
+          className="search-input"
+          type="text"
+          placeholder="Find"
+          value={query}
+          onChange={(event) => setQuery(event.target.value)}
+          onKeyDown={(event) => {
+            if (event.key === 'Enter') {
+              event.preventDefault();
+              if (event.shiftKey) {
+                editor.commands.findPrevious();
+              } else {
+                editor.commands.findNext();
+              }
+            }
+          }}
+        />
+        <span className="search-count">
+          {query ? (info.count > 0 ? `${info.activeIndex + 1}/${info.count}` : 'No matches') : ''}
+        </span>
+        <button
+          className={`memo-action${caseSensitive ? ' is-active' : ''}`}
+          type="button"
+          title="Match case"
+          onClick={() => setCaseSensitive((value) => !value)}
+        >
+          Aa
+        </button>
+        <button
+          className={`memo-action${wholeWord ? ' is-active' : ''}`}
+          type="button"
+          title="Whole words only"
+          onClick={() => setWholeWord((value) => !value)}
+        >
+          Word
+        </button>
+        <button
+          className="memo-action"
+          type="button"
+          title="Previous match (Shift+Enter)"
+          disabled={info.count === 0}
+          onClick={() => editor.commands.findPrevious()}
+        >
+          ↑
+        </button>
+        <button
+          className="memo-action"
+          type="button"
+          title="Next match (Enter)"
+          disabled={info.count === 0}
+          onClick={() => editor.commands.findNext()}
+        >
+          ↓
+        </button>
+        <button
+          className={`memo-action${replaceOpen ? ' is-active' : ''}`}
+          type="button"
+          title="Replace"
+          onClick={() => setReplaceOpen((open) => !open)}
+        >
+          Replace
+        </button>
+        <button className="memo-action" type="button" title="Close (Esc)" onClick={close}>
+          ×
+        </button>
+      </div>
+
+      {replaceOpen ? (
+        <div className="search-row">
+          <input
+            className="search-input"
+            type="text"
+            placeholder="Replace with"
+            value={replacement}
+            onChange={(event) => setReplacement(event.target.value)}
+            onKeyDown={(event) => {
+              if (event.key === 'Enter') {
+                event.preventDefault();
+                editor.commands.replaceMatch(replacement);
+              }
+            }}
+          />
+          <button
+            className="memo-action"
+            type="button"
+            disabled={info.count === 0}
+            onClick={() => editor.commands.replaceMatch(replacement)}
+          >
+            Replace
+          </button>
+          <button
+            className="memo-action"
+            type="button"
+            disabled={info.count === 0}
+            onClick={() => editor.commands.replaceAllMatches(replacement)}
+          >
+            All
+          </button>
+        </div>
+      ) : null}
+    </div>
+  );
+}
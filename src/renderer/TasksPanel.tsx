@@ -0,0 +1,82 @@
+import { useEffect, useState } from 'react';
+import type { MemoTask, TaskRevealRequest } from '../shared/types';
+
+type TasksPanelProps = {
+  onReveal: (request: TaskRevealRequest) => void;
+  onClose: () => void;
+};
+
+function formatDue(due: string): string {
+  return new Date(due).toLocaleString(undefined, {
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit'
+  });
+}
+
+export function TasksPanel({ onReveal, onClose }: TasksPanelProps): JSX.Element {
+  const [tasks, setTasks] = useState<MemoTask[] | null>(null);
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
+
+  useEffect(() => {
+    let disposed = false;
+
+    void (async () => {
+      try {
+        const list = await window.memo.listOpenTasks();
+        if (!disposed) {
+          setTasks(list);
+        }
+      } catch (error) {
+        if (!disposed) {
+          setErrorMessage(error instanceof Error ? error.message : 'Failed to load tasks');
+        }
+      }
+    })();
+
+    return () => {
+      disposed = true;
+    };
+  }, []);
+
+  const now = Date.now();
+
+  return (
+    <section className="history-panel">
+      <div className="history-header">
+        <span>Open Tasks</span>
+        <button className="memo-action" type="button" onClick={onClose}>
+          Close
+        </button>
+      </div>
+
+      {errorMessage ? <p className="error-banner">{errorMessage}</p> : null}
+
+      {tasks && tasks.length === 0 ? <p className="history-empty">No open tasks.</p> : null}
+
+      <ul className="history-list tasks-list">
+        {(tasks ?? []).map((task) => (
+          <li key={`${task.memoId}:${task.taskIndex}`}>
+            <button
+              className="history-item"
+              type="button"
+              onClick={() => onReveal({ memoId: task.memoId, taskIndex: task.taskIndex })}
+            >
+              <span className="history-time">
+                {task.memoTitle}
+                {task.due ? (
+                  <span className={new Date(task.due).getTime() < now ? 'task-overdue' : undefined}>
+                    {' '}
+                    · due {formatDue(task.due)}
+                  </span>
+                ) : null}
+              </span>
+              <span className="history-preview-text">{task.text || '(empty task)'}</span>
+            </button>
+          </li>
+        ))}
+      </ul>
+    </section>
+  );
+}
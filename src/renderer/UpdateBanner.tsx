@@ -0,0 +1,116 @@
+import { useEffect, useState } from 'react';
+import type { UpdateProgress, UpdateStatusPayload } from '../shared/types';
+
+type UpdateBannerProps = {
+  status: UpdateStatusPayload;
+  onStatus: (status: UpdateStatusPayload) => void;
+  onError: (message: string) => void;
+};
+
+function formatProgress(progress: UpdateProgress | null): string {
+  if (!progress) {
+    return '';
+  }
+  if (progress.totalBytes) {
+    return ` ${Math.floor((progress.receivedBytes / progress.totalBytes) * 100)}%`;
+  }
+  return ` ${(progress.receivedBytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+export function UpdateBanner({ status, onStatus, onError }: UpdateBannerProps): JSX.Element | null {
+  const [progress, setProgress] = useState<UpdateProgress | null>(null);
+
+  useEffect(() => window.memo.onUpdateProgress(setProgress), []);
+
+  async function run(action: () => Promise<void>, fallbackMessage: string): Promise<void> {
+    try {
+      await action();
+    } catch (error) {
+      onError(error instanceof Error ? error.message : fallbackMessage);
+    }
+  }
+
+  const openDownload = (
+    <button
+      className="update-action"
+      type="button"
+      onClick={() => {
+        void run(() => window.memo.openLatestRelease(), 'Failed to open release page');
+      }}
+    >
+      Open Download
+    </button>
+  );
+
+  if (status.state === 'available') {
+    return (
+      <p className="update-banner">
+        Update available: {status.latestVersion ?? 'new version'}
+        <span className="update-actions">
+          <button
+            className="update-action"
+            type="button"
+            onClick={() => {
+              setProgress(null);
+              void run(async () => onStatus(await window.memo.downloadUpdate()), 'Failed to download the update');
+            }}
+          >
+            Download
+          </button>
+          {openDownload}
+          {status.latestVersion ? (
+            <button
+              className="update-action"
+              type="button"
+              onClick={() => {
+                void run(
+                  async () => onStatus(await window.memo.skipUpdateVersion(status.latestVersion ?? '')),
+                  'Failed to skip this version'
+                );
+              }}
+            >
+              Skip This Version
+            </button>
+          ) : null}
+        </span>
+      </p>
+    );
+  }
+
+  if (status.state === 'downloading') {
+    return (
+      <p className="update-banner">
+        Downloading {status.latestVersion}…{progress?.version === status.latestVersion ? formatProgress(progress) : ''}
+      </p>
+    );
+  }
+
+  if (status.state === 'ready') {
+    return (
+      <p className="update-banner">
+        Version {status.latestVersion} is ready to install.
+        <button
+          className="update-action"
+          type="button"
+          onClick={() => {
+            void run(() => window.memo.installUpdate(), 'Failed to install the update');
+          }}
+        >
+          Restart to Update
+        </button>
+      </p>
+    );
+  }
+
+  if (status.state === 'error' && status.message) {
+    // A failed download keeps the version it was fetching; a failed check has none.
+    return (
+      <p className="error-banner update-error">
+        {status.latestVersion ? 'Update download failed' : 'Update check failed'}: {status.message}
+        {status.releaseUrl ? openDownload : null}
+      </p>
+    );
+  }
+
+  return null;
+}
@@ -0,0 +1,44 @@
+import type { EditorState, Transaction } from '@tiptap/pm/state';
+import type { Mapping } from '@tiptap/pm/transform';
+import type { MemoDoc } from '../shared/types';
+
+/** The top-level blocks a selection touches, with the document range they cover. */
+export type SelectedBlocks = {
+  title: string;
+  doc: MemoDoc;
+  from: number;
+  to: number;
+};
+
+/** Copies the top-level blocks the selection touches, titled after the first one with text. */
+export function selectedBlocks(state: EditorState): SelectedBlocks | null {
+  const { doc, selection } = state;
+  if (selection.empty) {
+    return null;
+  }
+
+  const content: MemoDoc[] = [];
+  let title = '';
+  let from = -1;
+  let to = -1;
+  doc.forEach((node, offset) => {
+    if (offset < selection.to && offset + node.nodeSize > selection.from) {
+      content.push(node.toJSON() as MemoDoc);
+      title = title || node.textContent.trim().slice(0, 40);
+      from = from < 0 ? offset : from;
+      to = offset + node.nodeSize;
+    }
+  });
+
+  return content.length > 0 ? { title, doc: { type: 'doc', content }, from, to } : null;
+}
+
+/**
+ * Deletes blocks moved to another memo in a single transaction. `mapping` carries the range
+ * over edits made since the blocks were selected, which are kept.
+ */
+export function removeBlocks(state: EditorState, blocks: SelectedBlocks, mapping?: Mapping): Transaction {
+  const from = mapping ? mapping.map(blocks.from, 1) : blocks.from;
+  const to = mapping ? mapping.map(blocks.to, -1) : blocks.to;
+  return to > from ? state.tr.delete(from, to).scrollIntoView() : state.tr;
+}
@@ -1,10 +1,25 @@
 import React from 'react';
 import ReactDOM from 'react-dom/client';
 import { App } from './App';
+import { CaptureBox } from './CaptureBox';
+import { VaultGate } from './LockScreen';
 import './styles.css';
 
+// Sticky-note windows load `#note=<memo id>`.
+const NOTE_HASH_PREFIX = '#note=';
+const hash = window.location.hash;
+const noteMemoId = hash.startsWith(NOTE_HASH_PREFIX)
+  ? decodeURIComponent(hash.slice(NOTE_HASH_PREFIX.length))
+  : undefined;
+
 ReactDOM.createRoot(document.getElementById('root') as HTMLElement).render(
   <React.StrictMode>
-    <App />
+    {hash === '#capture' ? (
+      <CaptureBox />
+    ) : (
+      <VaultGate>
+        <App noteMemoId={noteMemoId} />
+      </VaultGate>
+    )}
   </React.StrictMode>
 );
@@ -0,0 +1,33 @@
+export type SaveStatus =
+  | { state: 'idle' }
+  | { state: 'saving' }
+  | { state: 'saved'; savedAt: string }
+  | { state: 'retrying'; message: string; retryInMs: number }
+  | { state: 'conflict'; memoId: string };
+
+const RETRY_BASE_DELAY_MS = 1000;
+const RETRY_MAX_DELAY_MS = 30000;
+
+/** Exponential backoff after `failureCount` failed saves in a row, capped at 30 seconds. */
+export function saveRetryDelayMs(failureCount: number): number {
+  return Math.min(RETRY_MAX_DELAY_MS, RETRY_BASE_DELAY_MS * 2 ** Math.max(0, failureCount - 1));
+}
+
+function formatSaveTime(iso: string): string {
+  const date = new Date(iso);
+  return `${String(date.getHours()).padStart(2, '0')}:${String(date.getMinutes()).padStart(2, '0')}`;
+}
+
+/** The toolbar text for a save status; null hides it. */
+export function saveStatusLabel(status: SaveStatus): string | null {
+  if (status.state === 'saving') {
+    return 'Saving…';
+  }
+  if (status.state === 'saved') {
+    return `Saved at ${formatSaveTime(status.savedAt)}`;
+  }
+  if (status.state === 'retrying') {
+    return 'Save failed, retrying';
+  }
+  return null;
+}
@@ -0,0 +1,163 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import type { FlushResult, MemoDoc } from '../shared/types';
+import { saveRetryDelayMs } from './saveStatus';
+import type { SaveStatus } from './saveStatus';
+
+type PendingSave = {
+  memoId: string;
+  doc: MemoDoc;
+};
+
+type SavedVersion = {
+  memoId: string;
+  updatedAt: string;
+};
+
+const AUTOSAVE_DELAY_MS = 500;
+const CONFLICT_MESSAGE = 'The memo was changed outside this window.';
+
+/**
+ * Debounced memo saving. Failed saves keep their document and retry with exponential
+ * backoff; `flushPendingSave` saves immediately and reports whether anything is left unsaved.
+ * Saves carry the updatedAt last seen for the memo, and a stale one stops autosaving in a
+ * `conflict` state until the caller records a new version or discards the pending edits.
+ */
+export function useAutosave(delayMs = AUTOSAVE_DELAY_MS): {
+  saveStatus: SaveStatus;
+  scheduleSave: (memoId: string, doc: MemoDoc) => void;
+  flushPendingSave: () => Promise<FlushResult>;
+  discardPendingSave: () => void;
+  hasPendingSave: () => boolean;
+  savedVersion: (memoId: string) => string | undefined;
+  setSavedVersion: (memoId: string, updatedAt: string) => void;
+} {
+  const [saveStatus, setSaveStatus] = useState<SaveStatus>({ state: 'idle' });
+
+  const pending = useRef<PendingSave | null>(null);
+  const timer = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const inFlight = useRef<Promise<FlushResult> | null>(null);
+  const failures = useRef(0);
+  const saved = useRef<SavedVersion | null>(null);
+  const conflicted = useRef(false);
+  const delay = useRef(delayMs);
+  delay.current = delayMs;
+
+  const actions = useMemo(() => {
+    const clearTimer = () => {
+      if (timer.current) {
+        clearTimeout(timer.current);
+        timer.current = null;
+      }
+    };
+
+    const saveOnce = async (): Promise<FlushResult> => {
+      const next = pending.current;
+      if (!next) {
+        return { ok: true };
+      }
+      if (conflicted.current) {
+        return { ok: false, message: CONFLICT_MESSAGE };
+      }
+
+      pending.current = null;
+      setSaveStatus({ state: 'saving' });
+
+      try {
+        const base = saved.current?.memoId === next.memoId ? saved.current.updatedAt : undefined;
+        const response = await window.memo.saveMemo(next.memoId, next.doc, base);
+        failures.current = 0;
+
+        if (!response.ok) {
+          pending.current ??= next;
+          conflicted.current = true;
+          setSaveStatus({ state: 'conflict', memoId: next.memoId });
+          return { ok: false, message: CONFLICT_MESSAGE };
+        }
+
+        saved.current = { memoId: next.memoId, updatedAt: response.updatedAt };
+        setSaveStatus({ state: 'saved', savedAt: response.updatedAt });
+        return { ok: true };
+      } catch (error) {
+        // Newer edits made while this save was in flight supersede the failed document.
+        pending.current ??= next;
+        failures.current += 1;
+
+        const message = error instanceof Error ? error.message : 'Save failed';
+        const retryInMs = saveRetryDelayMs(failures.current);
+        setSaveStatus({ state: 'retrying', message, retryInMs });
+        clearTimer();
+        timer.current = setTimeout(() => {
+          void flushPendingSave();
+        }, retryInMs);
+        return { ok: false, message };
+      }
+    };
+
+    const flushPendingSave = async (): Promise<FlushResult> => {
+      clearTimer();
+      while (inFlight.current) {
+        await inFlight.current;
+        clearTimer();
+      }
+
+      const run = saveOnce();
+      inFlight.current = run;
+      try {
+        return await run;
+      } finally {
+        inFlight.current = null;
+      }
+    };
+
+    const scheduleSave = (memoId: string, doc: MemoDoc) => {
+      pending.current = { memoId, doc };
+      clearTimer();
+      if (conflicted.current) {
+        return;
+      }
+      timer.current = setTimeout(() => {
+        void flushPendingSave();
+      }, delay.current);
+    };
+
+    const discardPendingSave = () => {
+      clearTimer();
+      pending.current = null;
+      failures.current = 0;
+      conflicted.current = false;
+      setSaveStatus({ state: 'idle' });
+    };
+
+    const hasPendingSave = () => pending.current !== null || inFlight.current !== null;
+
+    const savedVersion = (memoId: string) =>
+      saved.current?.memoId === memoId ? saved.current.updatedAt : undefined;
+
+    const setSavedVersion = (memoId: string, updatedAt: string) => {
+      saved.current = { memoId, updatedAt };
+      conflicted.current = false;
+    };
+
+    return {
+      clearTimer,
+      scheduleSave,
+      flushPendingSave,
+      discardPendingSave,
+      hasPendingSave,
+      savedVersion,
+      setSavedVersion
+    };
+  }, []);
+
+  useEffect(() => actions.clearTimer, [actions]);
+
+  return {
+    saveStatus,
+    scheduleSave: actions.scheduleSave,
+    flushPendingSave: actions.flushPendingSave,
+    discardPendingSave: actions.discardPendingSave,
+    hasPendingSave: actions.hasPendingSave,
+    savedVersion: actions.savedVersion,
+    setSavedVersion: actions.setSavedVersion
+  };
+}
@@ -0,0 +1,20 @@
+export type ImageAlign = 'left' | 'center' | 'right';
+
+export const IMAGE_ALIGNS: ImageAlign[] = ['left', 'center', 'right'];
+export const DEFAULT_IMAGE_ALIGN: ImageAlign = 'left';
+export const MIN_IMAGE_WIDTH = 40;
+
+export function parseImageAlign(value: unknown): ImageAlign {
+  return IMAGE_ALIGNS.find((align) => align === value) ?? DEFAULT_IMAGE_ALIGN;
+}
+
+/** Reads a stored or written width in pixels; anything that is not a positive number means "natural size". */
+export function parseImageWidth(value: unknown): number | null {
+  const width = typeof value === 'number' ? Math.round(value) : Number.parseInt(String(value ?? ''), 10);
+  return Number.isFinite(width) && width > 0 ? width : null;
+}
+
+/** Keeps a dragged image width between the minimum and the width of the editor column. */
+export function clampImageWidth(width: number, maxWidth: number): number {
+  return Math.round(Math.min(Math.max(MIN_IMAGE_WIDTH, maxWidth), Math.max(MIN_IMAGE_WIDTH, width)));
+}
@@ -8,9 +8,125 @@ export type MemoRecord = {
   doc: MemoDoc;
 };
 
-export type SaveMemoResponse = {
-  ok: true;
-  updatedAt: string;
+export type MemoSummary = {
+  id: string;
+  title: string;
+  createdAt: string;
+};
+
+export type MemoList = {
+  activeMemoId: string;
+  memos: MemoSummary[];
+};
+
+export type SaveMemoResponse =
+  | {
+      ok: true;
+      updatedAt: string;
+    }
+  | {
+      ok: false;
+      reason: 'conflict';
+      updatedAt: string;
+    };
+
+export type MemoChangeEvent =
+  | {
+      kind: 'memo';
+      memoId: string;
+      updatedAt: string;
+    }
+  | {
+      kind: 'index';
+    };
+
+export type FlushResult = {
+  ok: boolean;
+  message?: string;
+};
+
+export type SnapshotReason = 'periodic' | 'significant_change' | 'corrupt' | 'before_restore';
+
+export type MemoSnapshotSummary = {
+  id: string;
+  createdAt: string;
+  reason: SnapshotReason;
+  preview: string;
+};
+
+export type MemoSnapshot = MemoSnapshotSummary & {
+  doc: MemoDoc;
+};
+
+export type MemoTask = {
+  memoId: string;
+  memoTitle: string;
+  taskIndex: number;
+  text: string;
+  // Local date and time as written by a datetime-local input, e.g. 2025-03-01T09:30.
+  due: string | null;
+};
+
+export type TaskRevealRequest = {
+  memoId: string;
+  taskIndex: number;
+};
+
+export type MarkdownImageMode = 'copy' | 'link';
+
+export type MarkdownExportResponse = {
+  filePath: string;
+  imageCount: number;
+};
+
+export type BackupImportMode = 'merge' | 'replace';
+
+export type BackupExportResponse = {
+  filePath: string;
+  memoCount: number;
+  imageCount: number;
+};
+
+export type BackupImportResponse = {
+  mode: BackupImportMode;
+  memoCount: number;
+  imageCount: number;
+};
+
+export type MenuCommand =
+  | 'exportMarkdown'
+  | 'importMarkdown'
+  | 'exportBackup'
+  | 'importBackup'
+  | 'openPreferences'
+  | 'find'
+  | 'findNext'
+  | 'findPrevious';
+
+export type UpdateChannel = 'stable' | 'prerelease';
+
+export type AppSettings = {
+  alwaysOnTopByDefault: boolean;
+  autosaveDelayMs: number;
+  maxImageWidth: number;
+  keepOriginalImages: boolean;
+  checkForUpdates: boolean;
+  updateChannel: UpdateChannel;
+  // Empty when no release is skipped.
+  skippedUpdateVersion: string;
+  quickCaptureShortcut: string;
+  // Registered only while click-through is on, since the window itself cannot be clicked then.
+  clickThroughShortcut: string;
+  autoLockMinutes: number;
+  showTrayIcon: boolean;
+  // Only takes effect on macOS while the tray icon is shown, so the app can always be reached.
+  hideDockIcon: boolean;
+  hideOnBlur: boolean;
+};
+
+export type VaultStatus = {
+  enabled: boolean;
+  locked: boolean;
 };
 
 export type ImageSaveResponse = {
@@ -30,7 +146,13 @@ export type TopState = {
   alwaysOnTop: boolean;
 };
 
-export type UpdateState = 'idle' | 'checking' | 'available' | 'not_available' | 'error';
+/** Overlay mode: how see-through the window is, and whether clicks pass through it. */
+export type OverlayState = {
+  opacity: number;
+  clickThrough: boolean;
+};
+
+export type UpdateState = 'idle' | 'checking' | 'available' | 'not_available' | 'downloading' | 'ready' | 'error';
 
 export type UpdateStatusPayload = {
   state: UpdateState;
@@ -40,14 +162,62 @@ export type UpdateStatusPayload = {
   message?: string;
 };
 
+/** Sent on its own channel while an update downloads; `totalBytes` is null when the size is unknown. */
+export type UpdateProgress = {
+  version: string;
+  receivedBytes: number;
+  totalBytes: number | null;
+};
+
 export type MemoApi = {
-  loadMemo: () => Promise<MemoRecord>;
-  saveMemo: (doc: MemoDoc) => Promise<SaveMemoResponse>;
+  listMemos: () => Promise<MemoList>;
+  createMemo: (title?: string) => Promise<MemoSummary>;
+  renameMemo: (id: string, title: string) => Promise<MemoSummary>;
+  deleteMemo: (id: string) => Promise<MemoList>;
+  setActiveMemo: (id: string) => Promise<MemoList>;
+  loadMemo: (id: string) => Promise<MemoRecord>;
+  saveMemo: (id: string, doc: MemoDoc, baseUpdatedAt?: string) => Promise<SaveMemoResponse>;
+  onMemoChanged: (listener: (event: MemoChangeEvent) => void) => () => void;
+  listSnapshots: (memoId: string) => Promise<MemoSnapshotSummary[]>;
+  loadSnapshot: (memoId: string, snapshotId: string) => Promise<MemoSnapshot>;
+  restoreSnapshot: (memoId: string, snapshotId: string) => Promise<MemoRecord>;
+  listOpenTasks: () => Promise<MemoTask[]>;
+  onRevealTask: (listener: (request: TaskRevealRequest) => void) => () => void;
+  exportMarkdown: (memoId: string) => Promise<MarkdownExportResponse | null>;
+  importMarkdown: () => Promise<MemoSummary | null>;
+  exportBackup: () => Promise<BackupExportResponse | null>;
+  importBackup: () => Promise<BackupImportResponse | null>;
+  onMenuCommand: (listener: (command: MenuCommand) => void) => () => void;
+  onFlushRequest: (listener: () => Promise<FlushResult>) => () => void;
+  getSettings: () => Promise<AppSettings>;
+  updateSettings: (patch: Partial<AppSettings>) => Promise<AppSettings>;
+  onSettingsChanged: (listener: (settings: AppSettings) => void) => () => void;
+  appendCapture: (text: string) => Promise<void>;
+  closeCapture: () => Promise<void>;
   saveImageFromBytes: (payload: ImageSaveRequest) => Promise<ImageSaveResponse>;
   pasteImageFromClipboard: () => Promise<ImageSaveResponse>;
+  openOriginalImage: (src: string) => Promise<void>;
+  getVaultStatus: () => Promise<VaultStatus>;
+  unlockVault: (passphrase: string) => Promise<VaultStatus>;
+  lockVault: () => Promise<VaultStatus>;
+  enableEncryption: (passphrase: string) => Promise<VaultStatus>;
+  changePassphrase: (currentPassphrase: string, nextPassphrase: string) => Promise<VaultStatus>;
+  disableEncryption: (passphrase: string) => Promise<VaultStatus>;
+  onVaultStatus: (listener: (status: VaultStatus) => void) => () => void;
   toggleAlwaysOnTop: () => Promise<TopState>;
   getAlwaysOnTop: () => Promise<TopState>;
+  onTopStateChanged: (listener: (state: TopState) => void) => () => void;
+  getOverlayState: () => Promise<OverlayState>;
+  setOpacity: (opacity: number) => Promise<OverlayState>;
+  setClickThrough: (enabled: boolean) => Promise<OverlayState>;
+  onOverlayStateChanged: (listener: (state: OverlayState) => void) => () => void;
+  openNoteWindow: (memoId: string) => Promise<void>;
   getUpdateStatus: () => Promise<UpdateStatusPayload>;
   onUpdateStatus: (listener: (payload: UpdateStatusPayload) => void) => () => void;
   openLatestRelease: () => Promise<void>;
+  checkForUpdates: () => Promise<UpdateStatusPayload>;
+  skipUpdateVersion: (version: string) => Promise<UpdateStatusPayload>;
+  downloadUpdate: () => Promise<UpdateStatusPayload>;
+  onUpdateProgress: (listener: (progress: UpdateProgress) => void) => () => void;
+  installUpdate: () => Promise<void>;
 };
@@ -0,0 +1,279 @@
+import type { AppSettings, FlushResult, ImageSaveRequest, MemoDoc } from './types';
+
+/** A request from the renderer that does not have the expected shape. The message is shown to the user. */
+export class InvalidPayloadError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'InvalidPayloadError';
+  }
+}
+
+export const MAX_DOC_BYTES = 10 * 1024 * 1024;
+export const MAX_DOC_DEPTH = 64;
+export const MAX_IMAGE_BYTES = 50 * 1024 * 1024;
+export const MAX_IMAGE_DIMENSION = 16384;
+
+const MAX_ID_LENGTH = 128;
+const MAX_TITLE_LENGTH = 1000;
+const MAX_CAPTURE_LENGTH = 1_000_000;
+const MAX_PASSPHRASE_LENGTH = 1024;
+const MAX_SRC_LENGTH = 4096;
+const MAX_TIMESTAMP_LENGTH = 64;
+const MAX_VERSION_LENGTH = 64;
+const ID_PATTERN = /^[A-Za-z0-9_-]+$/;
+
+/** The arguments each `ipcMain.handle` channel receives once validated. */
+export type IpcRequests = {
+  'memo:list': [];
+  'memo:create': [title?: string];
+  'memo:rename': [id: string, title: string];
+  'memo:delete': [id: string];
+  'memo:setActive': [id: string];
+  'memo:load': [id: string];
+  'memo:save': [id: string, doc: MemoDoc, baseUpdatedAt?: string];
+  'history:list': [memoId: string];
+  'history:load': [memoId: string, snapshotId: string];
+  'history:restore': [memoId: string, snapshotId: string];
+  'tasks:listOpen': [];
+  'markdown:export': [memoId: string];
+  'markdown:import': [];
+  'backup:export': [];
+  'backup:import': [];
+  'image:saveBytes': [payload: ImageSaveRequest];
+  'image:pasteFromClipboard': [];
+  'image:openOriginal': [src: string];
+  'vault:status': [];
+  'vault:unlock': [passphrase: string];
+  'vault:lock': [];
+  'vault:enable': [passphrase: string];
+  'vault:changePassphrase': [currentPassphrase: string, nextPassphrase: string];
+  'vault:disable': [passphrase: string];
+  'settings:get': [];
+  'settings:update': [patch: Partial<AppSettings>];
+  'capture:append': [text: string];
+  'capture:close': [];
+  'window:toggleAlwaysOnTop': [];
+  'window:getAlwaysOnTop': [];
+  'window:getOverlayState': [];
+  'window:setOpacity': [opacity: number];
+  'window:setClickThrough': [enabled: boolean];
+  'window:openNote': [memoId: string];
+  'app:getUpdateStatus': [];
+  'app:openLatestRelease': [];
+  'app:checkForUpdates': [];
+  'app:skipUpdateVersion': [version: string];
+  'app:downloadUpdate': [];
+  'app:installUpdate': [];
+};
+
+export type IpcChannel = keyof IpcRequests;
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+function requireString(value: unknown, label: string, maxLength: number): string {
+  if (typeof value !== 'string' || value.length > maxLength) {
+    throw new InvalidPayloadError(`${label} must be text of at most ${maxLength} characters.`);
+  }
+  return value;
+}
+
+function optionalString(value: unknown, label: string, maxLength: number): string | undefined {
+  return value === undefined ? undefined : requireString(value, label, maxLength);
+}
+
+function requireNumber(value: unknown, label: string, min: number, max: number): number {
+  if (typeof value !== 'number' || !Number.isFinite(value) || value < min || value > max) {
+    throw new InvalidPayloadError(`${label} must be a number from ${min} to ${max}.`);
+  }
+  return value;
+}
+
+function requireBoolean(value: unknown, label: string): boolean {
+  if (typeof value !== 'boolean') {
+    throw new InvalidPayloadError(`${label} must be true or false.`);
+  }
+  return value;
+}
+
+function requireId(value: unknown, label: string): string {
+  if (typeof value !== 'string' || value.length > MAX_ID_LENGTH || !ID_PATTERN.test(value)) {
+    throw new InvalidPayloadError(`${label} is not valid.`);
+  }
+  return value;
+}
+
+function requirePassphrase(value: unknown): string {
+  return requireString(value, 'Passphrase', MAX_PASSPHRASE_LENGTH);
+}
+
+function checkMarks(marks: unknown, path: string): void {
+  if (!Array.isArray(marks)) {
+    throw new InvalidPayloadError(`The memo could not be saved: ${path}.marks is not a list.`);
+  }
+  marks.forEach((mark: unknown, index) => {
+    if (!isPlainObject(mark) || typeof mark.type !== 'string' || (mark.attrs !== undefined && !isPlainObject(mark.attrs))) {
+      throw new InvalidPayloadError(`The memo could not be saved: ${path}.marks[${index}] is not a valid mark.`);
+    }
+  });
+}
+
+function checkNode(value: unknown, path: string, depth: number): void {
+  // The depth limit also stops cyclic objects, which structured cloning lets through.
+  if (depth > MAX_DOC_DEPTH) {
+    throw new InvalidPayloadError(`The memo could not be saved: it is nested more than ${MAX_DOC_DEPTH} levels deep.`);
+  }
+  if (!isPlainObject(value) || typeof value.type !== 'string' || !value.type) {
+    throw new InvalidPayloadError(`The memo could not be saved: ${path} is not a valid node.`);
+  }
+  if (value.attrs !== undefined && !isPlainObject(value.attrs)) {
+    throw new InvalidPayloadError(`The memo could not be saved: ${path}.attrs is not an object.`);
+  }
+  if ((value.type === 'text' || value.text !== undefined) && typeof value.text !== 'string') {
+    throw new InvalidPayloadError(`The memo could not be saved: ${path}.text is not text.`);
+  }
+  if (value.marks !== undefined) {
+    checkMarks(value.marks, path);
+  }
+  if (value.content !== undefined) {
+    if (!Array.isArray(value.content)) {
+      throw new InvalidPayloadError(`The memo could not be saved: ${path}.content is not a list.`);
+    }
+    value.content.forEach((child: unknown, index) => checkNode(child, `${path}.content[${index}]`, depth + 1));
+  }
+}
+
+/** Checks that a value is a Tiptap document of nodes and marks, within the size limit. */
+export function validateMemoDoc(value: unknown): MemoDoc {
+  checkNode(value, 'doc', 0);
+  if ((value as MemoDoc).type !== 'doc') {
+    throw new InvalidPayloadError('The memo could not be saved: its top node is not a document.');
+  }
+
+  const size = new TextEncoder().encode(JSON.stringify(value)).length;
+  if (size > MAX_DOC_BYTES) {
+    throw new InvalidPayloadError(
+      `The memo is too large to save (${(size / (1024 * 1024)).toFixed(1)} MB; the limit is ${MAX_DOC_BYTES / (1024 * 1024)} MB).`
+    );
+  }
+  return value as MemoDoc;
+}
+
+function requireDimension(value: unknown, label: string): number {
+  if (typeof value !== 'number' || !Number.isFinite(value) || value <= 0 || value > MAX_IMAGE_DIMENSION) {
+    throw new InvalidPayloadError(`Image ${label} must be a positive number of at most ${MAX_IMAGE_DIMENSION} pixels.`);
+  }
+  return value;
+}
+
+/** Checks an image upload. Byte views are copied into an ArrayBuffer of their own. */
+export function validateImageSaveRequest(value: unknown): ImageSaveRequest {
+  if (!isPlainObject(value)) {
+    throw new InvalidPayloadError('Image data is missing.');
+  }
+
+  const { buffer } = value;
+  let bytes: ArrayBuffer;
+  if (buffer instanceof ArrayBuffer) {
+    bytes = buffer;
+  } else if (ArrayBuffer.isView(buffer)) {
+    bytes = new Uint8Array(buffer.buffer, buffer.byteOffset, buffer.byteLength).slice().buffer;
+  } else {
+    throw new InvalidPayloadError('Image data is missing.');
+  }
+
+  if (bytes.byteLength === 0) {
+    throw new InvalidPayloadError('The image is empty.');
+  }
+  if (bytes.byteLength > MAX_IMAGE_BYTES) {
+    throw new InvalidPayloadError(`The image is too large (the limit is ${MAX_IMAGE_BYTES / (1024 * 1024)} MB).`);
+  }
+
+  return {
+    buffer: bytes,
+    width: requireDimension(value.width, 'width'),
+    height: requireDimension(value.height, 'height')
+  };
+}
+
+/** Checks the shape of a settings update; `validateSettingsPatch` in the main process checks each value. */
+export function validateSettingsPatchShape(value: unknown): Partial<AppSettings> {
+  if (!isPlainObject(value)) {
+    throw new InvalidPayloadError('Settings update must be an object.');
+  }
+  return value as Partial<AppSettings>;
+}
+
+export function validateFlushResult(value: unknown): FlushResult {
+  if (!isPlainObject(value) || typeof value.ok !== 'boolean') {
+    throw new InvalidPayloadError('The editor sent an invalid save result.');
+  }
+  return {
+    ok: value.ok,
+    message: optionalString(value.message, 'Save result message', MAX_TITLE_LENGTH)
+  };
+}
+
+const IPC_VALIDATORS: { [C in IpcChannel]: (args: unknown[]) => IpcRequests[C] } = {
+  'memo:list': () => [],
+  'memo:create': ([title]) => [optionalString(title, 'Memo title', MAX_TITLE_LENGTH)],
+  'memo:rename': ([id, title]) => [requireId(id, 'Memo id'), requireString(title, 'Memo title', MAX_TITLE_LENGTH)],
+  'memo:delete': ([id]) => [requireId(id, 'Memo id')],
+  'memo:setActive': ([id]) => [requireId(id, 'Memo id')],
+  'memo:load': ([id]) => [requireId(id, 'Memo id')],
+  'memo:save': ([id, doc, baseUpdatedAt]) => [
+    requireId(id, 'Memo id'),
+    validateMemoDoc(doc),
+    optionalString(baseUpdatedAt, 'Saved version', MAX_TIMESTAMP_LENGTH)
+  ],
+  'history:list': ([memoId]) => [requireId(memoId, 'Memo id')],
+  'history:load': ([memoId, snapshotId]) => [requireId(memoId, 'Memo id'), requireId(snapshotId, 'Snapshot id')],
+  'history:restore': ([memoId, snapshotId]) => [requireId(memoId, 'Memo id'), requireId(snapshotId, 'Snapshot id')],
+  'tasks:listOpen': () => [],
+  'markdown:export': ([memoId]) => [requireId(memoId, 'Memo id')],
+  'markdown:import': () => [],
+  'backup:export': () => [],
+  'backup:import': () => [],
+  'image:saveBytes': ([payload]) => [validateImageSaveRequest(payload)],
+  'image:pasteFromClipboard': () => [],
+  'image:openOriginal': ([src]) => [requireString(src, 'Image address', MAX_SRC_LENGTH)],
+  'vault:status': () => [],
+  'vault:unlock': ([passphrase]) => [requirePassphrase(passphrase)],
+  'vault:lock': () => [],
+  'vault:enable': ([passphrase]) => [requirePassphrase(passphrase)],
+  'vault:changePassphrase': ([currentPassphrase, nextPassphrase]) => [
+    requirePassphrase(currentPassphrase),
+    requirePassphrase(nextPassphrase)
+  ],
+  'vault:disable': ([passphrase]) => [requirePassphrase(passphrase)],
+  'settings:get': () => [],
+  'settings:update': ([patch]) => [validateSettingsPatchShape(patch)],
+  'capture:append': ([text]) => [requireString(text, 'Captured text', MAX_CAPTURE_LENGTH)],
+  'capture:close': () => [],
+  'window:toggleAlwaysOnTop': () => [],
+  'window:getAlwaysOnTop': () => [],
+  'window:getOverlayState': () => [],
+  'window:setOpacity': ([opacity]) => [requireNumber(opacity, 'Opacity', 0, 1)],
+  'window:setClickThrough': ([enabled]) => [requireBoolean(enabled, 'Click-through')],
+  'window:openNote': ([memoId]) => [requireId(memoId, 'Memo id')],
+  'app:getUpdateStatus': () => [],
+  'app:openLatestRelease': () => [],
+  'app:checkForUpdates': () => [],
+  'app:skipUpdateVersion': ([version]) => [requireString(version, 'Version', MAX_VERSION_LENGTH)],
+  'app:downloadUpdate': () => [],
+  'app:installUpdate': () => []
+};
+
+/**
+ * Checks the arguments of an IPC request and returns them typed. Trailing `undefined`
+ * arguments are allowed, since optional parameters are still passed positionally.
+ */
+export function validateIpcRequest<C extends IpcChannel>(channel: C, args: unknown[]): IpcRequests[C] {
+  const validator = IPC_VALIDATORS[channel] as (args: unknown[]) => IpcRequests[C];
+  const validated = validator(args);
+  if (args.slice(validated.length).some((arg) => arg !== undefined)) {
+    throw new InvalidPayloadError('The request has unexpected extra arguments.');
+  }
+  return validated;
+}
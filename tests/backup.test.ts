@@ -0,0 +1,158 @@
+import { mkdtemp, readFile, rm, writeFile } from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import { gunzipSync, gzipSync } from 'node:zlib';
+import { afterEach, describe, expect, it } from 'vitest';
+import { exportBackup, importBackup, readBackupArchive } from '../electron/backup';
+import {
+  contentImageId,
+  createMemo,
+  createStoragePaths,
+  imagePathForId,
+  listMemos,
+  loadMemo,
+  memoPathForId,
+  saveImage,
+  saveMemo
+} from '../electron/storage';
+import type { MemoDoc } from '../src/shared/types';
+
+const tempRoots: string[] = [];
+const PNG_IMAGE = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 9, 8, 7]);
+
+async function tempDir() {
+  const root = await mkdtemp(path.join(os.tmpdir(), 'always-memo-backup-test-'));
+  tempRoots.push(root);
+  return root;
+}
+
+function textDoc(text: string): MemoDoc {
+  return {
+    type: 'doc',
+    content: [{ type: 'paragraph', content: [{ type: 'text', text }] }]
+  };
+}
+
+async function seededBackup() {
+  const source = createStoragePaths(await tempDir());
+  const { activeMemoId } = await listMemos(source);
+  const image = await saveImage(source, PNG_IMAGE, 10, 10);
+  await saveMemo(source, activeMemoId, {
+    type: 'doc',
+    content: [{ type: 'image', attrs: { src: image.src, alt: null, title: null } }]
+  });
+  const second = await createMemo(source, 'Second');
+  await saveMemo(source, second.id, textDoc('second memo'));
+
+  const filePath = path.join(await tempDir(), 'backup.tar.gz');
+  const exported = await exportBackup(source, filePath, '1.2.3');
+  return { filePath, exported, image };
+}
+
+afterEach(async () => {
+  while (tempRoots.length > 0) {
+    const root = tempRoots.pop();
+    if (root) {
+      await rm(root, { recursive: true, force: true });
+    }
+  }
+});
+
+describe('backup', () => {
+  it('writes memos, referenced images and a checksummed manifest', async () => {
+    const { filePath, exported, image } = await seededBackup();
+    const { manifest, entries } = readBackupArchive(await readFile(filePath));
+
+    expect(exported).toMatchObject({ memoCount: 2, imageCount: 1 });
+    expect(manifest.appVersion).toBe('1.2.3');
+    expect(manifest.files.map((file) => file.path)).toContain(`images/${image.id}.png`);
+    expect(entries.get(`images/${image.id}.png`)).toEqual(PNG_IMAGE);
+  });
+
+  it('merges archived memos next to existing ones', async () => {
+    const { filePath, image } = await seededBackup();
+    const target = createStoragePaths(await tempDir());
+    const { activeMemoId } = await listMemos(target);
+    await saveMemo(target, activeMemoId, textDoc('mine'));
+
+    const result = await importBackup(target, filePath, 'merge');
+    const list = await listMemos(target);
+
+    expect(result).toMatchObject({ mode: 'merge', memoCount: 2, imageCount: 1 });
+    expect(list.memos.map((memo) => memo.title)).toEqual(['Memo', 'Memo', 'Second']);
+    expect(list.activeMemoId).toBe(activeMemoId);
+    expect((await loadMemo(target, activeMemoId)).doc).toEqual(textDoc('mine'));
+    expect(await readFile(imagePathForId(target, image.id))).toEqual(PNG_IMAGE);
+  });
+
+  it('replaces existing memos', async () => {
+    const { filePath } = await seededBackup();
+    const target = createStoragePaths(await tempDir());
+    const { activeMemoId } = await listMemos(target);
+
+    await importBackup(target, filePath, 'replace');
+    const list = await listMemos(target);
+
+    expect(list.memos.map((memo) => memo.title)).toEqual(['Memo', 'Second']);
+    expect(list.memos.some((memo) => memo.id === activeMemoId)).toBe(false);
+    expect((await loadMemo(target, list.memos[1].id)).doc).toEqual(textDoc('second memo'));
+  });
+
+  it('rejects archives whose contents do not match the manifest', async () => {
+    const { filePath } = await seededBackup();
+    const tar = gunzipSync(await readFile(filePath));
+    const tampered = Buffer.from(tar.toString('latin1').replace('second memo', 'SECOND MEMO'), 'latin1');
+    await writeFile(filePath, gzipSync(tampered));
+
+    const target = createStoragePaths(await tempDir());
+    await expect(importBackup(target, filePath, 'replace')).rejects.toThrow('failed its checksum');
+    expect((await listMemos(target)).memos).toHaveLength(1);
+  });
+
+  it('rejects the whole archive before writing anything when a memo is not a valid document', async () => {
+    const source = createStoragePaths(await tempDir());
+    const { activeMemoId } = await listMemos(source);
+    const image = await saveImage(source, PNG_IMAGE, 10, 10);
+    await saveMemo(source, activeMemoId, {
+      type: 'doc',
+      content: [{ type: 'image', attrs: { src: image.src, alt: null, title: null } }]
+    });
+    const broken = await createMemo(source, 'Broken');
+    await saveMemo(source, broken.id, textDoc('fine for now'));
+    const brokenPath = memoPathForId(source, broken.id);
+    const record = JSON.parse(await readFile(brokenPath, 'utf8')) as { doc: MemoDoc };
+    await writeFile(brokenPath, JSON.stringify({ ...record, doc: { type: 'doc', content: [{ text: 'no type' }] } }));
+    const filePath = path.join(await tempDir(), 'backup.tar.gz');
+    await exportBackup(source, filePath, '1.2.3');
+
+    const target = createStoragePaths(await tempDir());
+    await expect(importBackup(target, filePath, 'replace')).rejects.toThrow('Backup memo "Broken" is invalid.');
+    expect((await listMemos(target)).memos).toHaveLength(1);
+    await expect(readFile(imagePathForId(target, image.id))).rejects.toThrow();
+  });
+
+  it('never stores an image under a hash its bytes do not have', async () => {
+    const source = createStoragePaths(await tempDir());
+    const { activeMemoId } = await listMemos(source);
+    const image = await saveImage(source, PNG_IMAGE, 10, 10);
+    await saveMemo(source, activeMemoId, {
+      type: 'doc',
+      content: [{ type: 'image', attrs: { src: image.src, alt: null, title: null } }]
+    });
+    // Other bytes under the first image's name, as a crafted archive could carry.
+    const swapped = Buffer.concat([PNG_IMAGE, Buffer.from([1])]);
+    await writeFile(imagePathForId(source, image.id), swapped);
+    const filePath = path.join(await tempDir(), 'backup.tar.gz');
+    await exportBackup(source, filePath, '1.2.3');
+
+    const target = createStoragePaths(await tempDir());
+    await listMemos(target);
+    await importBackup(target, filePath, 'replace');
+    const [imported] = (await listMemos(target)).memos;
+    const realId = contentImageId(swapped);
+
+    await expect(readFile(imagePathForId(target, image.id))).rejects.toThrow();
+    expect(await readFile(imagePathForId(target, realId))).toEqual(swapped);
+    expect((await loadMemo(target, imported.id)).doc.content?.[0].attrs?.src).toBe(`memo-image://${realId}`);
+  });
+});
@@ -0,0 +1,72 @@
+import { getSchema } from '@tiptap/core';
+import { EditorState, TextSelection } from '@tiptap/pm/state';
+import { Mapping } from '@tiptap/pm/transform';
+import StarterKit from '@tiptap/starter-kit';
+import { describe, expect, it } from 'vitest';
+import { removeBlocks, selectedBlocks } from '../src/renderer/blockSelection';
+import type { MemoDoc } from '../src/shared/types';
+
+const schema = getSchema([StarterKit]);
+
+function paragraph(text: string): MemoDoc {
+  return { type: 'paragraph', content: [{ type: 'text', text }] };
+}
+
+function stateWith(blocks: MemoDoc[]): EditorState {
+  return EditorState.create({ schema, doc: schema.nodeFromJSON({ type: 'doc', content: blocks }) });
+}
+
+/** Selects from inside the block at `fromIndex` to inside the block at `toIndex`. */
+function select(state: EditorState, fromIndex: number, toIndex: number): EditorState {
+  const start = (index: number) => {
+    let position = 0;
+    for (let child = 0; child < index; child += 1) {
+      position += state.doc.child(child).nodeSize;
+    }
+    return position;
+  };
+  const selection = TextSelection.create(state.doc, start(fromIndex) + 2, start(toIndex) + 3);
+  return state.apply(state.tr.setSelection(selection));
+}
+
+describe('block selection', () => {
+  it('moves every block the selection touches out of the memo in one transaction', () => {
+    const memo = stateWith([paragraph('keep'), paragraph('Move me'), paragraph('and me'), paragraph('tail')]);
+    const state = select(memo, 1, 2);
+
+    const blocks = selectedBlocks(state);
+    expect(blocks?.title).toBe('Move me');
+    expect(blocks?.doc).toEqual({ type: 'doc', content: [paragraph('Move me'), paragraph('and me')] });
+
+    const transaction = removeBlocks(state, blocks as NonNullable<typeof blocks>);
+    expect(transaction.steps).toHaveLength(1);
+    expect(state.apply(transaction).doc.toJSON()).toEqual({
+      type: 'doc',
+      content: [paragraph('keep'), paragraph('tail')]
+    });
+  });
+
+  it('keeps edits made while the note was being created', () => {
+    const state = select(stateWith([paragraph('keep'), paragraph('Move me')]), 1, 1);
+    const blocks = selectedBlocks(state) as NonNullable<ReturnType<typeof selectedBlocks>>;
+
+    const edit = state.tr.insertText('new ', 1);
+    const edited = state.apply(edit);
+    const mapping = new Mapping();
+    mapping.appendMapping(edit.mapping);
+
+    expect(edited.apply(removeBlocks(edited, blocks, mapping)).doc.toJSON()).toEqual({
+      type: 'doc',
+      content: [paragraph('new keep')]
+    });
+  });
+
+  it('leaves an empty paragraph when the whole memo moves, and nothing for an empty selection', () => {
+    const state = select(stateWith([paragraph('only')]), 0, 0);
+    const blocks = selectedBlocks(state) as NonNullable<ReturnType<typeof selectedBlocks>>;
+
+    const emptied = state.apply(removeBlocks(state, blocks));
+    expect(emptied.doc.toJSON()).toEqual({ type: 'doc', content: [{ type: 'paragraph' }] });
+    expect(selectedBlocks(stateWith([paragraph('only')]))).toBeNull();
+  });
+});
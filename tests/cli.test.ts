@@ -0,0 +1,83 @@
+import { access, mkdtemp, rm, writeFile } from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import { afterEach, describe, expect, it } from 'vitest';
+import { cliResultPathFor, parseCliArgs, runCliCommand, waitForCliResult, writeCliResult } from '../electron/cli';
+import { createStoragePaths, listMemos, loadMemo } from '../electron/storage';
+
+const tempRoots: string[] = [];
+
+async function tempRoot() {
+  const root = await mkdtemp(path.join(os.tmpdir(), 'always-memo-cli-'));
+  tempRoots.push(root);
+  return root;
+}
+
+afterEach(async () => {
+  while (tempRoots.length > 0) {
+    const root = tempRoots.pop();
+    if (root) {
+      await rm(root, { recursive: true, force: true });
+    }
+  }
+});
+
+describe('cli', () => {
+  it('parses commands and ignores unrelated arguments', () => {
+    expect(parseCliArgs(['/Applications/Always Memo', '--no-sandbox'])).toBeNull();
+    expect(parseCliArgs(['electron', '.', '--append', '--not a flag'])).toEqual({
+      kind: 'append',
+      text: '--not a flag'
+    });
+    expect(parseCliArgs(['memo', '--append-file=notes.txt'], '/work')).toEqual({
+      kind: 'appendFile',
+      filePath: path.resolve('/work', 'notes.txt')
+    });
+    expect(parseCliArgs(['memo', '--print=markdown'])).toEqual({ kind: 'print', format: 'markdown' });
+    expect(parseCliArgs(['memo', '--clear'])).toEqual({ kind: 'clear' });
+
+    expect(() => parseCliArgs(['memo', '--append'])).toThrow('--append needs a value.');
+    expect(() => parseCliArgs(['memo', '--print=html'])).toThrow('Unknown print format "html".');
+    expect(() => parseCliArgs(['memo', '--clear', '--print'])).toThrow('Use one command at a time.');
+  });
+
+  it('appends, prints and clears the active memo', async () => {
+    const root = await tempRoot();
+    const paths = createStoragePaths(root);
+    const notesPath = path.join(root, 'notes.txt');
+    await writeFile(notesPath, 'from a file\n', 'utf8');
+
+    await runCliCommand(paths, { kind: 'append', text: 'buy **milk**' });
+    await runCliCommand(paths, { kind: 'appendFile', filePath: notesPath });
+
+    const text = await runCliCommand(paths, { kind: 'print', format: 'text' });
+    expect(text).toMatch(/^\[\d{4}-\d{2}-\d{2} \d{2}:\d{2}\] buy \*\*milk\*\*\n\[.+\] from a file\n$/);
+    expect(await runCliCommand(paths, { kind: 'print', format: 'markdown' })).toContain('buy \\*\\*milk\\*\\*');
+
+    await runCliCommand(paths, { kind: 'clear' });
+    const { activeMemoId } = await listMemos(paths);
+    expect((await loadMemo(paths, activeMemoId)).doc).toEqual({ type: 'doc', content: [{ type: 'paragraph' }] });
+  });
+
+  it('hands the outcome of a forwarded command back to the launching process', async () => {
+    const root = await tempRoot();
+    const resultPath = cliResultPathFor(root, '5f0c7a8e-2b1d-4c3e-9f4a-6b7c8d9e0f1a');
+
+    const waiting = waitForCliResult(resultPath, 2000);
+    await writeCliResult(resultPath, { ok: false, message: 'Memos are locked.' });
+
+    expect(await waiting).toEqual({ ok: false, message: 'Memos are locked.' });
+    await expect(access(resultPath)).rejects.toThrow();
+    expect(() => cliResultPathFor(root, '../escape')).toThrow('Invalid command request id');
+  });
+
+  it('treats a forwarded command nobody reported on as failed', async () => {
+    const root = await tempRoot();
+    const resultPath = cliResultPathFor(root, '5f0c7a8e-2b1d-4c3e-9f4a-6b7c8d9e0f1a');
+
+    expect(await waitForCliResult(resultPath, 150)).toEqual({
+      ok: false,
+      message: 'The running Always Memo did not report whether the command succeeded.'
+    });
+  });
+});
@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest';
+import { isSignificantChange, snapshotsToPrune } from '../electron/history';
+import type { MemoDoc } from '../src/shared/types';
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+function textDoc(text: string): MemoDoc {
+  return {
+    type: 'doc',
+    content: [{ type: 'paragraph', content: [{ type: 'text', text }] }]
+  };
+}
+
+describe('history', () => {
+  it('treats large edits and deleting most of a memo as significant', () => {
+    expect(isSignificantChange(textDoc('a'.repeat(10)), textDoc('a'.repeat(12)))).toBe(false);
+    expect(isSignificantChange(textDoc('a'.repeat(50)), textDoc(''))).toBe(true);
+    expect(isSignificantChange(textDoc(''), textDoc('a'.repeat(250)))).toBe(true);
+    expect(isSignificantChange(textDoc('a'.repeat(1000)), textDoc('a'.repeat(900)))).toBe(false);
+  });
+
+  it('keeps recent snapshots, then one per hour for a day and one per day for a month', () => {
+    const now = Date.UTC(2025, 0, 31, 12, 0, 0);
+    const snapshots = [
+      { id: 'recent-a', createdMs: now - 5 * 60 * 1000 },
+      { id: 'recent-b', createdMs: now - 10 * 60 * 1000 },
+      { id: 'hour-newer', createdMs: now - 3 * HOUR_MS + 60 * 1000 },
+      { id: 'hour-older', createdMs: now - 3 * HOUR_MS + 30 * 1000 },
+      { id: 'day-newer', createdMs: now - 5 * DAY_MS + HOUR_MS },
+      { id: 'day-older', createdMs: now - 5 * DAY_MS },
+      { id: 'expired', createdMs: now - 40 * DAY_MS }
+    ].map((snapshot) => ({ ...snapshot, reason: 'periodic' as const }));
+
+    const pruned = snapshotsToPrune(snapshots, now).map((snapshot) => snapshot.id);
+
+    expect(pruned.sort()).toEqual(['day-older', 'expired', 'hour-older']);
+  });
+
+  it('never thins corrupt and before-restore snapshots, and expires them only after months', () => {
+    const now = Date.UTC(2025, 0, 31, 12, 0, 0);
+    const snapshots = [
+      { id: 'periodic', createdMs: now - 3 * HOUR_MS + 60 * 1000, reason: 'periodic' as const },
+      { id: 'corrupt', createdMs: now - 3 * HOUR_MS + 30 * 1000, reason: 'corrupt' as const },
+      { id: 'restore-newer', createdMs: now - 5 * DAY_MS + HOUR_MS, reason: 'before_restore' as const },
+      { id: 'restore-older', createdMs: now - 5 * DAY_MS, reason: 'before_restore' as const },
+      { id: 'corrupt-old', createdMs: now - 90 * DAY_MS, reason: 'corrupt' as const },
+      { id: 'corrupt-expired', createdMs: now - 200 * DAY_MS, reason: 'corrupt' as const },
+      { id: 'change-old', createdMs: now - 90 * DAY_MS, reason: 'significant_change' as const }
+    ];
+
+    const pruned = snapshotsToPrune(snapshots, now).map((snapshot) => snapshot.id);
+
+    expect(pruned.sort()).toEqual(['change-old', 'corrupt-expired']);
+  });
+});
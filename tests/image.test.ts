@@ -0,0 +1,24 @@
+import { describe, expect, it } from 'vitest';
+import { clampImageWidth, MIN_IMAGE_WIDTH, parseImageAlign, parseImageWidth } from '../src/shared/image';
+
+describe('image attributes', () => {
+  it('clamps a dragged width between the minimum and the editor width', () => {
+    expect(clampImageWidth(12, 600)).toBe(MIN_IMAGE_WIDTH);
+    expect(clampImageWidth(-300, 600)).toBe(MIN_IMAGE_WIDTH);
+    expect(clampImageWidth(320.6, 600)).toBe(321);
+    expect(clampImageWidth(900, 600)).toBe(600);
+    // A column narrower than the minimum still leaves the image at the minimum width.
+    expect(clampImageWidth(900, 20)).toBe(MIN_IMAGE_WIDTH);
+  });
+
+  it('falls back to the natural width and left alignment for unknown values', () => {
+    expect(parseImageWidth('320px')).toBe(320);
+    expect(parseImageWidth(240)).toBe(240);
+    expect(parseImageWidth('0')).toBeNull();
+    expect(parseImageWidth('wide')).toBeNull();
+    expect(parseImageWidth(null)).toBeNull();
+    expect(parseImageAlign('center')).toBe('center');
+    expect(parseImageAlign('justify')).toBe('left');
+    expect(parseImageAlign(null)).toBe('left');
+  });
+});
@@ -0,0 +1,106 @@
+import { mkdtemp, readdir, rm, utimes } from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import { afterEach, describe, expect, it } from 'vitest';
+import { cleanUpUnusedImages, restoreQuarantinedImage } from '../electron/imageGc';
+import { createStoragePaths, listMemos, saveImage, saveMemo } from '../electron/storage';
+import type { MemoDoc } from '../src/shared/types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const tempRoots: string[] = [];
+const PNG_IMAGE = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 1, 2, 3]);
+
+async function tempPaths() {
+  const root = await mkdtemp(path.join(os.tmpdir(), 'always-memo-gc-test-'));
+  tempRoots.push(root);
+  return createStoragePaths(root);
+}
+
+function imageDoc(src: string): MemoDoc {
+  return {
+    type: 'doc',
+    content: [{ type: 'image', attrs: { src, alt: 'Pasted image' } }]
+  };
+}
+
+afterEach(async () => {
+  while (tempRoots.length > 0) {
+    const root = tempRoots.pop();
+    if (root) {
+      await rm(root, { recursive: true, force: true });
+    }
+  }
+});
+
+describe('image cleanup', () => {
+  it('quarantines unreferenced images after the grace period and deletes them later', async () => {
+    const paths = await tempPaths();
+    const { activeMemoId } = await listMemos(paths);
+    const kept = await saveImage(paths, PNG_IMAGE, 10, 10);
+    const orphan = await saveImage(paths, Buffer.from([0xff, 0xd8, 0xff, 0xe0]), 10, 10);
+    await saveMemo(paths, activeMemoId, imageDoc(kept.src));
+
+    const young = await cleanUpUnusedImages(paths);
+    expect(young.quarantinedCount).toBe(0);
+
+    const firstSweep = await cleanUpUnusedImages(paths, { nowMs: Date.now() + 2 * DAY_MS });
+    expect(firstSweep).toMatchObject({ scannedCount: 2, referencedCount: 1, quarantinedCount: 1, quarantinedBytes: 4 });
+    expect(await readdir(paths.imagesDirPath)).toEqual([`${kept.id}.png`]);
+    expect(await readdir(paths.imageQuarantineDirPath)).toEqual([`${orphan.id}.jpg`]);
+
+    const secondSweep = await cleanUpUnusedImages(paths, { nowMs: Date.now() + 30 * DAY_MS });
+    expect(secondSweep).toMatchObject({ deletedCount: 1, reclaimedBytes: 4 });
+    expect(await readdir(paths.imageQuarantineDirPath)).toEqual([]);
+  });
+
+  it('does not quarantine an old image that was just pasted again', async () => {
+    const paths = await tempPaths();
+    const first = await saveImage(paths, PNG_IMAGE, 10, 10);
+    const filePath = path.join(paths.imagesDirPath, `${first.id}.png`);
+    const lastWeek = new Date(Date.now() - 7 * DAY_MS);
+    await utimes(filePath, lastWeek, lastWeek);
+
+    const pasted = await saveImage(paths, PNG_IMAGE, 10, 10);
+    expect(pasted.id).toBe(first.id);
+
+    const result = await cleanUpUnusedImages(paths);
+    expect(result).toMatchObject({ scannedCount: 1, quarantinedCount: 0 });
+    expect(await readdir(paths.imagesDirPath)).toEqual([`${first.id}.png`]);
+  });
+
+  it('keeps images referenced only by snapshots and restores quarantined ones on demand', async () => {
+    const paths = await tempPaths();
+    const { activeMemoId } = await listMemos(paths);
+    const image = await saveImage(paths, PNG_IMAGE, 10, 10);
+    const orphan = await saveImage(paths, Buffer.from('GIF89a', 'latin1'), 10, 10);
+
+    await saveMemo(paths, activeMemoId, imageDoc(image.src));
+    await saveMemo(paths, activeMemoId, { type: 'doc', content: [{ type: 'paragraph' }] });
+
+    const result = await cleanUpUnusedImages(paths, { nowMs: Date.now() + 2 * DAY_MS });
+    expect(result).toMatchObject({ referencedCount: 1, quarantinedCount: 1 });
+
+    expect(await restoreQuarantinedImage(paths, orphan.id)).toBe(true);
+    expect((await readdir(paths.imagesDirPath)).sort()).toEqual([`${image.id}.png`, `${orphan.id}.gif`].sort());
+  });
+
+  it('moves the originals of downscaled images along with their display copies', async () => {
+    const paths = await tempPaths();
+    const display = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+    const orphan = await saveImage(paths, PNG_IMAGE, 2000, 1000, {
+      resize: (_buffer, _format, maxWidth) => ({ buffer: display, width: maxWidth, height: maxWidth / 2 })
+    });
+
+    const firstSweep = await cleanUpUnusedImages(paths, { nowMs: Date.now() + 2 * DAY_MS });
+    expect(firstSweep).toMatchObject({ quarantinedCount: 1, quarantinedBytes: display.length + PNG_IMAGE.length });
+    expect(await readdir(paths.imageOriginalsDirPath)).toEqual([]);
+
+    expect(await restoreQuarantinedImage(paths, orphan.id)).toBe(true);
+    expect(await readdir(paths.imageOriginalsDirPath)).toEqual([`${orphan.id}.png`]);
+
+    await cleanUpUnusedImages(paths, { nowMs: Date.now() + 5 * DAY_MS });
+    const secondSweep = await cleanUpUnusedImages(paths, { nowMs: Date.now() + 30 * DAY_MS });
+    expect(secondSweep).toMatchObject({ deletedCount: 1, reclaimedBytes: display.length + PNG_IMAGE.length });
+    expect(await readdir(path.join(paths.imageQuarantineDirPath, 'originals'))).toEqual([]);
+  });
+});
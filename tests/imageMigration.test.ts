@@ -0,0 +1,67 @@
+import { mkdir, mkdtemp, readdir, rm, writeFile } from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import { afterEach, describe, expect, it } from 'vitest';
+import { migrateImagesToContentIds } from '../electron/imageMigration';
+import {
+  contentImageId,
+  createStoragePaths,
+  historyDirForMemo,
+  listMemos,
+  listMemoSnapshots,
+  loadMemo,
+  loadMemoSnapshot,
+  saveMemo
+} from '../electron/storage';
+import type { MemoDoc } from '../src/shared/types';
+
+const tempRoots: string[] = [];
+const PNG_IMAGE = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 1, 2, 3]);
+const LEGACY_IDS = ['0b6f3c1e-8d4a-4f0e-9a57-2c1d3e4f5a6b', '9a1e2d3c-4b5a-4678-9abc-def012345678'];
+
+async function tempPaths() {
+  const root = await mkdtemp(path.join(os.tmpdir(), 'always-memo-migration-test-'));
+  tempRoots.push(root);
+  return createStoragePaths(root);
+}
+
+function imageDoc(...ids: string[]): MemoDoc {
+  return {
+    type: 'doc',
+    content: ids.map((id) => ({ type: 'image', attrs: { src: `memo-image://${id}`, alt: 'Pasted image' } }))
+  };
+}
+
+afterEach(async () => {
+  while (tempRoots.length > 0) {
+    const root = tempRoots.pop();
+    if (root) {
+      await rm(root, { recursive: true, force: true });
+    }
+  }
+});
+
+describe('image migration', () => {
+  it('renames UUID images to content hashes in memos and snapshots, merging duplicates', async () => {
+    const paths = await tempPaths();
+    const { activeMemoId } = await listMemos(paths);
+    await mkdir(paths.imagesDirPath, { recursive: true });
+    for (const id of LEGACY_IDS) {
+      await writeFile(path.join(paths.imagesDirPath, `${id}.png`), PNG_IMAGE);
+    }
+    await saveMemo(paths, activeMemoId, imageDoc(...LEGACY_IDS));
+    const [snapshot] = await listMemoSnapshots(paths, activeMemoId);
+
+    const result = await migrateImagesToContentIds(paths);
+    const hashId = contentImageId(PNG_IMAGE);
+
+    expect(result).toEqual({ imageCount: 2, memoCount: 1, snapshotCount: 1 });
+    expect((await loadMemo(paths, activeMemoId)).doc).toEqual(imageDoc(hashId, hashId));
+    expect((await loadMemoSnapshot(paths, activeMemoId, snapshot.id)).doc).toEqual(imageDoc(hashId, hashId));
+    expect(await readdir(paths.imagesDirPath)).toEqual([`${hashId}.png`]);
+    expect((await readdir(paths.imageQuarantineDirPath)).sort()).toEqual(LEGACY_IDS.map((id) => `${id}.png`).sort());
+    expect(await readdir(historyDirForMemo(paths, activeMemoId))).toHaveLength(1);
+
+    expect(await migrateImagesToContentIds(paths)).toEqual({ imageCount: 0, memoCount: 0, snapshotCount: 0 });
+  });
+});
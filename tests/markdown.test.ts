@@ -0,0 +1,200 @@
+import { mkdtemp, readdir, readFile, rm } from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import { afterEach, describe, expect, it } from 'vitest';
+import { docToMarkdown, exportMemoToMarkdown, importMarkdownFile, markdownToDoc } from '../electron/markdown';
+import { createStoragePaths, listMemos, loadMemo, saveImage, saveMemo } from '../electron/storage';
+import type { MemoDoc } from '../src/shared/types';
+
+const tempRoots: string[] = [];
+const PNG_IMAGE = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 1, 2, 3]);
+
+async function tempDir() {
+  const root = await mkdtemp(path.join(os.tmpdir(), 'always-memo-md-test-'));
+  tempRoots.push(root);
+  return root;
+}
+
+function text(value: string, ...marks: string[]): MemoDoc {
+  return marks.length > 0 ? { type: 'text', text: value, marks: marks.map((type) => ({ type })) } : { type: 'text', text: value };
+}
+
+function paragraph(...content: MemoDoc[]): MemoDoc {
+  return content.length > 0 ? { type: 'paragraph', content } : { type: 'paragraph' };
+}
+
+function listItem(...content: MemoDoc[]): MemoDoc {
+  return { type: 'listItem', content };
+}
+
+const richDoc: MemoDoc = {
+  type: 'doc',
+  content: [
+    { type: 'heading', attrs: { level: 1 }, content: [text('Project '), text('notes', 'italic')] },
+    paragraph(
+      text('Plain, '),
+      text('bold', 'bold'),
+      text(' and '),
+      text('both', 'bold', 'italic'),
+      text(', '),
+      text('struck', 'strike'),
+      text(' with '),
+      text('a `tick`', 'code'),
+      text('.')
+    ),
+    paragraph(text('Line one'), { type: 'hardBreak' }, text('line two * not a list')),
+    paragraph(),
+    paragraph(text('# not a heading, 1. not a list, <br> and [brackets] \\ backslash')),
+    {
+      type: 'bulletList',
+      content: [
+        listItem(paragraph(text('first'))),
+        listItem(
+          paragraph(text('second')),
+          {
+            type: 'orderedList',
+            attrs: { start: 3, type: null },
+            content: [listItem(paragraph(text('nested three'))), listItem(paragraph(text('nested four')))]
+          }
+        )
+      ]
+    },
+    {
+      type: 'blockquote',
+      content: [paragraph(text('quoted')), paragraph(text('more', 'bold'))]
+    },
+    { type: 'codeBlock', attrs: { language: 'ts' }, content: [text('const a = 1;\n\n```\nnot the end')] },
+    {
+      type: 'taskList',
+      content: [
+        { type: 'taskItem', attrs: { checked: true }, content: [paragraph(text('done'))] },
+        { type: 'taskItem', attrs: { checked: false }, content: [paragraph(text('[open] item'))] }
+      ]
+    },
+    { type: 'horizontalRule' },
+    { type: 'image', attrs: { src: 'memo-image://abc-123', alt: 'Pasted [image]', title: null } }
+  ]
+};
+
+afterEach(async () => {
+  while (tempRoots.length > 0) {
+    const root = tempRoots.pop();
+    if (root) {
+      await rm(root, { recursive: true, force: true });
+    }
+  }
+});
+
+describe('markdown', () => {
+  it('round-trips StarterKit nodes and marks', () => {
+    const markdown = docToMarkdown(richDoc);
+
+    expect(markdownToDoc(markdown)).toEqual(richDoc);
+  });
+
+  it('writes readable markdown', () => {
+    const markdown = docToMarkdown(richDoc);
+
+    expect(markdown).toContain('# Project *notes*');
+    expect(markdown).toContain('Plain, **bold** and ***both***, ~~struck~~ with `` a `tick` ``.');
+    expect(markdown).toContain('- second\n  3. nested three\n  4. nested four');
+    expect(markdown).toContain('> quoted\n>\n> **more**');
+    expect(markdown).toContain('- [x] done\n- [ ] \\[open\\] item');
+    expect(markdown).toContain('![Pasted [image\\]](memo-image://abc-123)');
+  });
+
+  it('writes sized, aligned and captioned images as HTML and reads them back', () => {
+    const doc: MemoDoc = {
+      type: 'doc',
+      content: [
+        {
+          type: 'image',
+          attrs: {
+            src: 'memo-image://abc-123',
+            alt: 'shot',
+            title: null,
+            width: 320,
+            align: 'center',
+            caption: 'Before & after <v2> "final"'
+          }
+        },
+        {
+          type: 'image',
+          attrs: { src: 'memo-image://def-456', alt: null, title: 'Tip', width: null, align: 'right', caption: null }
+        },
+        { type: 'image', attrs: { src: 'memo-image://ghi-789', alt: 'plain', title: null, align: 'left', caption: null } }
+      ]
+    };
+
+    const markdown = docToMarkdown(doc);
+
+    expect(markdown).toBe(
+      '<figure><img src="memo-image://abc-123" alt="shot" width="320" data-align="center">' +
+        '<figcaption>Before &amp; after &lt;v2&gt; &quot;final&quot;</figcaption></figure>\n\n' +
+        '<img src="memo-image://def-456" title="Tip" data-align="right">\n\n' +
+        '![plain](memo-image://ghi-789)\n'
+    );
+    expect(markdownToDoc(markdown).content).toEqual([
+      doc.content?.[0],
+      doc.content?.[1],
+      { type: 'image', attrs: { src: 'memo-image://ghi-789', alt: 'plain', title: null } }
+    ]);
+  });
+
+  it('parses common hand-written markdown', () => {
+    const doc = markdownToDoc('Intro\ncontinues here\n\n* one\n* two\n\n## Title ##x');
+
+    expect(doc.content).toEqual([
+      paragraph(text('Intro continues here')),
+      { type: 'bulletList', content: [listItem(paragraph(text('one'))), listItem(paragraph(text('two')))] },
+      { type: 'heading', attrs: { level: 2 }, content: [text('Title ##x')] }
+    ]);
+  });
+
+  it('exports images alongside the file and imports them back into a new memo', async () => {
+    const paths = createStoragePaths(await tempDir());
+    const exportDir = await tempDir();
+    const { activeMemoId } = await listMemos(paths);
+    const image = await saveImage(paths, PNG_IMAGE, 10, 10);
+    const doc: MemoDoc = {
+      type: 'doc',
+      content: [paragraph(text('with image')), { type: 'image', attrs: { src: image.src, alt: 'shot', title: null } }]
+    };
+    await saveMemo(paths, activeMemoId, doc);
+
+    const filePath = path.join(exportDir, 'My notes.md');
+    const exported = await exportMemoToMarkdown(paths, activeMemoId, filePath, 'copy');
+    const markdown = await readFile(filePath, 'utf8');
+
+    expect(exported.imageCount).toBe(1);
+    expect(markdown).toContain(`![shot](My%20notes.assets/${image.id}.png)`);
+    expect(await readdir(path.join(exportDir, 'My notes.assets'))).toEqual([`${image.id}.png`]);
+
+    const imported = await importMarkdownFile(paths, filePath);
+    const importedDoc = (await loadMemo(paths, imported.id)).doc;
+    const importedImage = importedDoc.content?.[1];
+
+    expect(imported.title).toBe('My notes');
+    expect(importedDoc.content?.[0]).toEqual(paragraph(text('with image')));
+    expect(importedImage?.attrs?.src).toMatch(/^memo-image:\/\//);
+    // Identical bytes map to the same content-addressed image.
+    expect(importedImage?.attrs?.src).toBe(image.src);
+  });
+
+  it('keeps image size, alignment and caption through saving, export and import', async () => {
+    const paths = createStoragePaths(await tempDir());
+    const exportDir = await tempDir();
+    const { activeMemoId } = await listMemos(paths);
+    const image = await saveImage(paths, PNG_IMAGE, 10, 10);
+    const attrs = { src: image.src, alt: 'shot', title: null, width: 240, align: 'right', caption: 'Whiteboard' };
+    await saveMemo(paths, activeMemoId, { type: 'doc', content: [{ type: 'image', attrs }] });
+
+    expect((await loadMemo(paths, activeMemoId)).doc.content?.[0]).toEqual({ type: 'image', attrs });
+
+    const filePath = path.join(exportDir, 'Sized.md');
+    await exportMemoToMarkdown(paths, activeMemoId, filePath, 'copy');
+    const imported = await importMarkdownFile(paths, filePath);
+
+    expect((await loadMemo(paths, imported.id)).doc.content?.[0]).toEqual({ type: 'image', attrs });
+  });
+});
@@ -0,0 +1,120 @@
+import { mkdtemp, readFile, rm, writeFile } from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import { afterEach, describe, expect, it } from 'vitest';
+import { collectDueReminders, listOpenTasks, parseDueDate, reminderStatePathFor } from '../electron/reminders';
+import { createMemo, createStoragePaths, listMemos, memoPathForId, saveMemo } from '../electron/storage';
+import type { MemoDoc } from '../src/shared/types';
+
+const tempRoots: string[] = [];
+
+async function tempRoot() {
+  const root = await mkdtemp(path.join(os.tmpdir(), 'always-memo-reminders-test-'));
+  tempRoots.push(root);
+  return root;
+}
+
+function task(text: string, attrs: { checked?: boolean; due?: string | null } = {}, ...nested: MemoDoc[]): MemoDoc {
+  return {
+    type: 'taskItem',
+    attrs: { checked: attrs.checked ?? false, due: attrs.due ?? null },
+    content: [{ type: 'paragraph', content: [{ type: 'text', text }] }, ...nested]
+  };
+}
+
+function taskDoc(...items: MemoDoc[]): MemoDoc {
+  return {
+    type: 'doc',
+    content: [{ type: 'paragraph', content: [{ type: 'text', text: 'Errands' }] }, { type: 'taskList', content: items }]
+  };
+}
+
+afterEach(async () => {
+  while (tempRoots.length > 0) {
+    const root = tempRoots.pop();
+    if (root) {
+      await rm(root, { recursive: true, force: true });
+    }
+  }
+});
+
+describe('task reminders', () => {
+  it('reads due dates in local time and rejects anything else', () => {
+    expect(parseDueDate('2025-03-01T09:30')).toEqual(new Date(2025, 2, 1, 9, 30));
+    expect(parseDueDate('2025-02-30T09:30')).toBeNull();
+    expect(parseDueDate('2025-03-01T24:00')).toBeNull();
+    expect(parseDueDate('2025-03-01')).toBeNull();
+    expect(parseDueDate('2025-03-01T09:30:00Z')).toBeNull();
+  });
+
+  it('lists open tasks across memos, soonest due first', async () => {
+    const paths = createStoragePaths(await tempRoot());
+    const { activeMemoId } = await listMemos(paths);
+    const other = await createMemo(paths, 'Work');
+
+    await saveMemo(
+      paths,
+      activeMemoId,
+      taskDoc(
+        task('buy milk'),
+        task('post letter', { checked: true, due: '2025-03-01T08:00' }),
+        task('call bank', { due: '2025-03-02T10:00' }, { type: 'taskList', content: [task('find account number')] })
+      )
+    );
+    await saveMemo(paths, other.id, taskDoc(task('send report', { due: '2025-03-01T17:00' }), task('bad date', { due: 'soon' })));
+
+    const tasks = await listOpenTasks(paths);
+
+    expect(tasks.map((open) => [open.memoTitle, open.taskIndex, open.text, open.due])).toEqual([
+      ['Work', 0, 'send report', '2025-03-01T17:00'],
+      ['Memo', 2, 'call bank', '2025-03-02T10:00'],
+      ['Memo', 0, 'buy milk', null],
+      ['Memo', 3, 'find account number', null],
+      ['Work', 1, 'bad date', null]
+    ]);
+  });
+
+  it('reports each task once when it comes due, including while the app was closed', async () => {
+    const root = await tempRoot();
+    const paths = createStoragePaths(root);
+    const stateFilePath = reminderStatePathFor(root);
+    const { activeMemoId } = await listMemos(paths);
+    await saveMemo(
+      paths,
+      activeMemoId,
+      taskDoc(
+        task('already late', { due: '2025-03-01T08:00' }),
+        task('morning', { due: '2025-03-01T09:30' }),
+        task('done early', { checked: true, due: '2025-03-01T09:45' }),
+        task('evening', { due: '2025-03-01T18:00' })
+      )
+    );
+
+    // The first check only starts the clock, so old tasks do not all fire at once.
+    expect(await collectDueReminders(paths, stateFilePath, new Date(2025, 2, 1, 9, 0))).toEqual([]);
+
+    const morning = await collectDueReminders(paths, stateFilePath, new Date(2025, 2, 1, 10, 0));
+    expect(morning.map((due) => due.text)).toEqual(['morning']);
+    expect(await collectDueReminders(paths, stateFilePath, new Date(2025, 2, 1, 10, 1))).toEqual([]);
+
+    const later = await collectDueReminders(paths, stateFilePath, new Date(2025, 2, 2, 8, 0));
+    expect(later.map((due) => due.text)).toEqual(['evening']);
+  });
+
+  it('skips memos it cannot read without changing them', async () => {
+    const paths = createStoragePaths(await tempRoot());
+    const { activeMemoId } = await listMemos(paths);
+    const corrupt = await createMemo(paths, 'Corrupt');
+    const newer = await createMemo(paths, 'Newer');
+    await saveMemo(paths, activeMemoId, taskDoc(task('buy milk')));
+    await writeFile(memoPathForId(paths, corrupt.id), '{ not json');
+    const newerRecord = JSON.stringify({ version: 99, doc: taskDoc(task('from the future')) });
+    await writeFile(memoPathForId(paths, newer.id), newerRecord);
+
+    const tasks = await listOpenTasks(paths);
+
+    expect(tasks.map((open) => open.text)).toEqual(['buy milk']);
+    expect(await readFile(memoPathForId(paths, corrupt.id), 'utf8')).toBe('{ not json');
+    expect(await readFile(memoPathForId(paths, newer.id), 'utf8')).toBe(newerRecord);
+  });
+});
@@ -0,0 +1,19 @@
+import { describe, expect, it } from 'vitest';
+import { saveRetryDelayMs, saveStatusLabel } from '../src/renderer/saveStatus';
+
+describe('save status', () => {
+  it('backs off exponentially between retries, up to 30 seconds', () => {
+    expect([1, 2, 3, 4, 5, 6].map(saveRetryDelayMs)).toEqual([1000, 2000, 4000, 8000, 16000, 30000]);
+    expect(saveRetryDelayMs(50)).toBe(30000);
+  });
+
+  it('labels the toolbar status and hides it when there is nothing to report', () => {
+    const savedAt = new Date(2024, 0, 2, 9, 5).toISOString();
+
+    expect(saveStatusLabel({ state: 'saving' })).toBe('Saving…');
+    expect(saveStatusLabel({ state: 'saved', savedAt })).toBe('Saved at 09:05');
+    expect(saveStatusLabel({ state: 'retrying', message: 'Disk full', retryInMs: 1000 })).toBe('Save failed, retrying');
+    expect(saveStatusLabel({ state: 'idle' })).toBeNull();
+    expect(saveStatusLabel({ state: 'conflict', memoId: 'memo' })).toBeNull();
+  });
+});
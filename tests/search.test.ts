@@ -0,0 +1,118 @@
+import { getSchema } from '@tiptap/core';
+import { history, undo, undoDepth } from '@tiptap/pm/history';
+import { EditorState } from '@tiptap/pm/state';
+import StarterKit from '@tiptap/starter-kit';
+import { describe, expect, it } from 'vitest';
+import {
+  createSearchPlugin,
+  findMatches,
+  replaceActiveMatch,
+  replaceEveryMatch,
+  searchPluginKey
+} from '../src/renderer/MemoSearch';
+import type { SearchOptions } from '../src/renderer/MemoSearch';
+import type { MemoDoc } from '../src/shared/types';
+
+const schema = getSchema([StarterKit]);
+const OPTIONS: SearchOptions = { query: '', caseSensitive: false, wholeWord: false };
+
+function text(value: string, ...marks: string[]): MemoDoc {
+  return marks.length > 0
+    ? { type: 'text', text: value, marks: marks.map((type) => ({ type })) }
+    : { type: 'text', text: value };
+}
+
+function docOf(...paragraphs: MemoDoc[][]) {
+  return schema.nodeFromJSON({ type: 'doc', content: paragraphs.map((content) => ({ type: 'paragraph', content })) });
+}
+
+function find(doc: ReturnType<typeof docOf>, query: string, options: Partial<SearchOptions> = {}) {
+  return findMatches(doc, { ...OPTIONS, ...options, query });
+}
+
+/** An editor state searching for `query`, with undo history. */
+function searching(doc: ReturnType<typeof docOf>, query: string): EditorState {
+  const state = EditorState.create({ schema, doc, plugins: [history(), createSearchPlugin()] });
+  return state.apply(state.tr.setMeta(searchPluginKey, { options: { ...OPTIONS, query } }));
+}
+
+function paragraphTexts(state: EditorState): string[] {
+  const texts: string[] = [];
+  state.doc.forEach((node) => texts.push(node.textContent));
+  return texts;
+}
+
+describe('memo search', () => {
+  it('finds matches across differently marked text', () => {
+    const doc = docOf([text('Hel'), text('lo', 'bold'), text(' wor', 'italic'), text('ld')]);
+
+    expect(find(doc, 'hello world')).toEqual([{ from: 1, to: 12 }]);
+    expect(find(doc, 'lo wo')).toEqual([{ from: 4, to: 9 }]);
+  });
+
+  it('does not match across a hard break or a block boundary', () => {
+    const doc = docOf([text('foo'), { type: 'hardBreak' }, text('bar')], [text('baz')]);
+
+    expect(find(doc, 'foobar')).toEqual([]);
+    expect(find(doc, 'barbaz')).toEqual([]);
+    // Positions after the break count it as one position.
+    expect(find(doc, 'bar')).toEqual([{ from: 5, to: 8 }]);
+    expect(find(doc, 'baz')).toEqual([{ from: 10, to: 13 }]);
+  });
+
+  it('matches case and whole words when asked, treating letters of any script as word characters', () => {
+    const doc = docOf([text('cat Cat catalog über-cat Écat cat_s 猫cat')]);
+
+    expect(find(doc, 'cat')).toHaveLength(7);
+    expect(find(doc, 'Cat', { caseSensitive: true })).toEqual([{ from: 5, to: 8 }]);
+    expect(find(doc, 'cat', { wholeWord: true })).toEqual([
+      { from: 1, to: 4 },
+      { from: 5, to: 8 },
+      { from: 22, to: 25 }
+    ]);
+    expect(find(doc, 'Cat', { caseSensitive: true, wholeWord: true })).toEqual([{ from: 5, to: 8 }]);
+  });
+
+  it('replaces the active match and moves to the next one after the replacement', () => {
+    const state = searching(docOf([text('a b a')]), 'a');
+    const search = searchPluginKey.getState(state);
+    expect(search?.matches).toEqual([
+      { from: 1, to: 2 },
+      { from: 5, to: 6 }
+    ]);
+
+    const tr = state.tr;
+    replaceActiveMatch(tr, search as NonNullable<typeof search>, 'aa');
+    const next = state.apply(tr);
+
+    expect(paragraphTexts(next)).toEqual(['aa b a']);
+    // The new "aa" is skipped: the selection lands on the last "a".
+    expect([next.selection.from, next.selection.to]).toEqual([6, 7]);
+    expect(searchPluginKey.getState(next)?.activeIndex).toBe(2);
+  });
+
+  it('replaces every match in one transaction that undoes in one step', () => {
+    const state = searching(docOf([text('cat Cat')], [text('ca'), text('t', 'bold')]), 'cat');
+    const search = searchPluginKey.getState(state);
+
+    const tr = state.tr;
+    replaceEveryMatch(tr, search as NonNullable<typeof search>, 'dog!');
+    const replaced = state.apply(tr);
+
+    expect(paragraphTexts(replaced)).toEqual(['dog! dog!', 'dog!']);
+    expect(find(replaced.doc, 'dog!')).toEqual([
+      { from: 1, to: 5 },
+      { from: 6, to: 10 },
+      { from: 12, to: 16 }
+    ]);
+    expect(searchPluginKey.getState(replaced)?.matches).toEqual([]);
+    expect(undoDepth(replaced)).toBe(1);
+
+    let undone = replaced;
+    undo(replaced, (undoTr) => {
+      undone = replaced.apply(undoTr);
+    });
+    expect(paragraphTexts(undone)).toEqual(['cat Cat', 'cat']);
+    expect(undoDepth(undone)).toBe(0);
+  });
+});
@@ -0,0 +1,68 @@
+import { mkdtemp, readFile, rm, writeFile } from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import { afterEach, describe, expect, it } from 'vitest';
+import { DEFAULT_SETTINGS, loadSettings, settingsPathFor, updateSettings } from '../electron/settings';
+
+const tempRoots: string[] = [];
+
+async function tempSettingsPath() {
+  const root = await mkdtemp(path.join(os.tmpdir(), 'always-memo-settings-'));
+  tempRoots.push(root);
+  return settingsPathFor(root);
+}
+
+afterEach(async () => {
+  while (tempRoots.length > 0) {
+    const root = tempRoots.pop();
+    if (root) {
+      await rm(root, { recursive: true, force: true });
+    }
+  }
+});
+
+describe('settings', () => {
+  it('uses defaults when the file is missing or unreadable', async () => {
+    const filePath = await tempSettingsPath();
+    expect(await loadSettings(filePath)).toEqual(DEFAULT_SETTINGS);
+
+    await writeFile(filePath, '{not json', 'utf8');
+    expect(await loadSettings(filePath)).toEqual(DEFAULT_SETTINGS);
+  });
+
+  it('keeps valid fields and falls back to defaults for invalid ones', async () => {
+    const filePath = await tempSettingsPath();
+    await writeFile(
+      filePath,
+      JSON.stringify({ version: 1, alwaysOnTopByDefault: false, autosaveDelayMs: -5, maxImageWidth: '900', extra: 1 }),
+      'utf8'
+    );
+
+    expect(await loadSettings(filePath)).toEqual({ ...DEFAULT_SETTINGS, alwaysOnTopByDefault: false });
+  });
+
+  it('persists valid updates and rejects invalid ones without writing', async () => {
+    const filePath = await tempSettingsPath();
+
+    const updated = await updateSettings(filePath, { autosaveDelayMs: 1500, checkForUpdates: false });
+    expect(updated).toEqual({ ...DEFAULT_SETTINGS, autosaveDelayMs: 1500, checkForUpdates: false });
+    expect(JSON.parse(await readFile(filePath, 'utf8'))).toEqual({ version: 1, ...updated });
+
+    await expect(updateSettings(filePath, { maxImageWidth: 10.5 })).rejects.toThrow('maxImageWidth');
+    await expect(updateSettings(filePath, { skippedUpdateVersion: 'latest' })).rejects.toThrow('skippedUpdateVersion');
+    await expect(updateSettings(filePath, { zoom: 2 })).rejects.toThrow('Unknown setting "zoom".');
+    expect(await loadSettings(filePath)).toEqual(updated);
+  });
+
+  it('validates the tray mode settings', async () => {
+    const filePath = await tempSettingsPath();
+
+    const updated = await updateSettings(filePath, { showTrayIcon: true, hideDockIcon: true, hideOnBlur: true });
+    expect(updated).toMatchObject({ showTrayIcon: true, hideDockIcon: true, hideOnBlur: true });
+
+    await expect(updateSettings(filePath, { showTrayIcon: 'yes' })).rejects.toThrow('showTrayIcon');
+    await expect(updateSettings(filePath, { hideOnBlur: 1 })).rejects.toThrow('hideOnBlur');
+    await writeFile(filePath, JSON.stringify({ version: 1, showTrayIcon: true, hideDockIcon: 'true' }), 'utf8');
+    expect(await loadSettings(filePath)).toEqual({ ...DEFAULT_SETTINGS, showTrayIcon: true });
+  });
+});
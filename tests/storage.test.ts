@@ -2,11 +2,53 @@ import { mkdtemp, readFile, readdir, rm, writeFile } from 'node:fs/promises';
 import os from 'node:os';
 import path from 'node:path';
 import { afterEach, describe, expect, it } from 'vitest';
-import { createStoragePaths, imagePathForId, loadMemo, normalizeImageDimensions, saveImage, saveMemo } from '../electron/storage';
+import {
+  appendToMemo,
+  createMemo,
+  createStoragePaths,
+  deleteMemo,
+  detectImageFormat,
+  findImageFile,
+  imagePathForId,
+  isValidImageId,
+  listMemos,
+  listMemoSnapshots,
+  loadMemo,
+  loadMemoSnapshot,
+  memoPathForId,
+  migrateMemoRecord,
+  normalizeImageDimensions,
+  renameMemo,
+  restoreMemoSnapshot,
+  saveImage,
+  saveMemo,
+  setActiveMemo,
+  UnsupportedMemoVersionError,
+  upgradeMemoFile,
+  writeFileAtomic
+} from '../electron/storage';
+import type { ImageResizer, MemoRecordMigration } from '../electron/storage';
 import type { MemoDoc } from '../src/shared/types';
 
 const tempRoots: string[] = [];
 
+const chainedMigrations: Record<number, MemoRecordMigration> = {
+  1: (record) => ({ ...record, version: 2, title: 'Untitled' }),
+  2: ({ doc, ...record }) => ({ ...record, version: 3, body: doc })
+};
+
+function textDoc(text: string): MemoDoc {
+  return {
+    type: 'doc',
+    content: [
+      {
+        type: 'paragraph',
+        content: [{ type: 'text', text }]
+      }
+    ]
+  };
+}
+
 async function tempPaths() {
   const root = await mkdtemp(path.join(os.tmpdir(), 'always-memo-test-'));
   tempRoots.push(root);
@@ -25,44 +67,166 @@ afterEach(async () => {
 describe('storage', () => {
   it('returns default document when no memo exists', async () => {
     const paths = await tempPaths();
-    const memo = await loadMemo(paths);
+    const list = await listMemos(paths);
+    const memo = await loadMemo(paths, list.activeMemoId);
 
+    expect(list.memos).toHaveLength(1);
     expect(memo.version).toBe(1);
     expect(memo.doc.type).toBe('doc');
   });
 
   it('saves and loads memo content', async () => {
     const paths = await tempPaths();
-    const doc: MemoDoc = {
-      type: 'doc',
-      content: [
-        {
-          type: 'paragraph',
-          content: [{ type: 'text', text: 'hello' }]
-        }
-      ]
-    };
+    const { activeMemoId } = await listMemos(paths);
+    const doc = textDoc('hello');
 
-    await saveMemo(paths, doc);
-    const loaded = await loadMemo(paths);
+    await saveMemo(paths, activeMemoId, doc);
+    const loaded = await loadMemo(paths, activeMemoId);
 
     expect(loaded.doc).toEqual(doc);
   });
 
-  it('backs up corrupt memo file and starts from fallback', async () => {
+  it('keeps corrupt memo content in history and starts from fallback', async () => {
     const paths = await tempPaths();
-    await writeFile(paths.memoFilePath, '{broken-json', 'utf8');
+    const { activeMemoId } = await listMemos(paths);
+    await writeFile(memoPathForId(paths, activeMemoId), '{broken-json', 'utf8');
 
-    const loaded = await loadMemo(paths);
-    const files = await readdir(path.dirname(paths.memoFilePath));
+    const loaded = await loadMemo(paths, activeMemoId);
+    const snapshots = await listMemoSnapshots(paths, activeMemoId);
+    const files = await readdir(paths.memosDirPath);
 
     expect(loaded.doc.type).toBe('doc');
-    expect(files.some((file) => file.startsWith('memo.json.corrupt-'))).toBe(true);
+    expect(files.some((file) => file.includes('.corrupt-'))).toBe(false);
+    expect(snapshots).toHaveLength(1);
+    expect(snapshots[0].reason).toBe('corrupt');
+    expect(snapshots[0].preview).toBe('{broken-json');
+  });
+
+  it('keeps the content from before a large deletion in history and restores it', async () => {
+    const paths = await tempPaths();
+    const { activeMemoId } = await listMemos(paths);
+    const original = textDoc('important notes '.repeat(20));
+
+    await saveMemo(paths, activeMemoId, textDoc('important'));
+    await new Promise((resolve) => setTimeout(resolve, 5));
+    await saveMemo(paths, activeMemoId, original);
+    await new Promise((resolve) => setTimeout(resolve, 5));
+    await saveMemo(paths, activeMemoId, textDoc(''));
+
+    const snapshots = await listMemoSnapshots(paths, activeMemoId);
+    const beforeDelete = snapshots.find((snapshot) => snapshot.preview.startsWith('important notes'));
+    expect(snapshots.map((snapshot) => snapshot.reason)).toContain('significant_change');
+    expect(beforeDelete).toBeDefined();
+    expect((await loadMemoSnapshot(paths, activeMemoId, beforeDelete!.id)).doc).toEqual(original);
+
+    const restored = await restoreMemoSnapshot(paths, activeMemoId, beforeDelete!.id);
+    expect(restored.doc).toEqual(original);
+
+    const afterRestore = await listMemoSnapshots(paths, activeMemoId);
+    expect(afterRestore.some((snapshot) => snapshot.reason === 'before_restore')).toBe(true);
+  });
+
+  it('migrates the legacy memo.json into the collection', async () => {
+    const paths = await tempPaths();
+    const doc = textDoc('legacy');
+    await writeFile(
+      paths.legacyMemoFilePath,
+      JSON.stringify({ version: 1, updatedAt: new Date().toISOString(), doc }),
+      'utf8'
+    );
+
+    const list = await listMemos(paths);
+    const loaded = await loadMemo(paths, list.activeMemoId);
+    const rootFiles = await readdir(path.dirname(paths.legacyMemoFilePath));
+
+    expect(list.memos).toHaveLength(1);
+    expect(loaded.doc).toEqual(doc);
+    expect(rootFiles).not.toContain('memo.json');
+  });
+
+  it('migrates the legacy memo.json once when the first calls arrive together', async () => {
+    const paths = await tempPaths();
+    const doc = textDoc('legacy');
+    await writeFile(
+      paths.legacyMemoFilePath,
+      JSON.stringify({ version: 1, updatedAt: new Date().toISOString(), doc }),
+      'utf8'
+    );
+
+    const [first, second, created] = await Promise.all([
+      listMemos(paths),
+      listMemos(paths),
+      createMemo(paths, 'Created'),
+      listMemos(paths).then(({ memos }) => renameMemo(paths, memos[0].id, 'Renamed'))
+    ]);
+    const list = await listMemos(paths);
+
+    expect(second.memos[0].id).toBe(first.memos[0].id);
+    expect(list.memos.map((memo) => memo.title)).toEqual(['Renamed', 'Created']);
+    expect(list.memos.map((memo) => memo.id)).toEqual([first.memos[0].id, created.id]);
+    expect((await loadMemo(paths, first.memos[0].id)).doc).toEqual(doc);
+  });
+
+  it('keeps every change when memos are created and renamed at the same time', async () => {
+    const paths = await tempPaths();
+    const { activeMemoId } = await listMemos(paths);
+
+    const created = await Promise.all(['A', 'B', 'C', 'D'].map((title) => createMemo(paths, title)));
+    await Promise.all([
+      renameMemo(paths, activeMemoId, 'First'),
+      ...created.map((memo) => renameMemo(paths, memo.id, `${memo.title}!`))
+    ]);
+
+    expect((await listMemos(paths)).memos.map((memo) => memo.title)).toEqual(['First', 'A!', 'B!', 'C!', 'D!']);
+  });
+
+  it('writes the same file from concurrent calls without losing a temp file', async () => {
+    const paths = await tempPaths();
+    const filePath = path.join(path.dirname(paths.legacyMemoFilePath), 'shared.json');
+
+    await Promise.all(Array.from({ length: 8 }, (_, index) => writeFileAtomic(filePath, String(index))));
+
+    expect(['0', '1', '2', '3', '4', '5', '6', '7']).toContain(await readFile(filePath, 'utf8'));
+    expect((await readdir(path.dirname(filePath))).filter((name) => name.endsWith('.tmp'))).toEqual([]);
+  });
+
+  it('creates, renames, switches and deletes memos', async () => {
+    const paths = await tempPaths();
+    const first = (await listMemos(paths)).activeMemoId;
+
+    const created = await createMemo(paths, '  Project   notes ');
+    expect(created.title).toBe('Project notes');
+    expect((await listMemos(paths)).activeMemoId).toBe(created.id);
+
+    await saveMemo(paths, created.id, textDoc('project'));
+    await saveMemo(paths, first, textDoc('scratch'));
+    expect((await loadMemo(paths, created.id)).doc).toEqual(textDoc('project'));
+    expect((await loadMemo(paths, first)).doc).toEqual(textDoc('scratch'));
+
+    const renamed = await renameMemo(paths, created.id, '   ');
+    expect(renamed.title).toBe('Memo');
+
+    expect((await setActiveMemo(paths, first)).activeMemoId).toBe(first);
+
+    const afterDelete = await deleteMemo(paths, first);
+    expect(afterDelete.activeMemoId).toBe(created.id);
+    expect(afterDelete.memos.map((memo) => memo.id)).toEqual([created.id]);
+    await expect(loadMemo(paths, first)).rejects.toThrow('Memo not found');
+  });
+
+  it('keeps one memo after deleting the last one', async () => {
+    const paths = await tempPaths();
+    const { activeMemoId } = await listMemos(paths);
+
+    const list = await deleteMemo(paths, activeMemoId);
+
+    expect(list.memos).toHaveLength(1);
+    expect(list.activeMemoId).not.toBe(activeMemoId);
   });
 
   it('stores pasted image on disk', async () => {
     const paths = await tempPaths();
-    const content = Buffer.from([0x89, 0x50, 0x4e, 0x47]);
+    const content = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
 
     const saved = await saveImage(paths, content, 1400, 700);
     const fileContent = await readFile(imagePathForId(paths, saved.id));
@@ -73,8 +237,181 @@ describe('storage', () => {
     expect(saved.height).toBe(320);
   });
 
+  it('stores images with the extension of their detected format', async () => {
+    const paths = await tempPaths();
+    const jpeg = await saveImage(paths, Buffer.from([0xff, 0xd8, 0xff, 0xdb, 1]), 10, 10);
+    const gif = await saveImage(paths, Buffer.from('GIF89a....', 'latin1'), 10, 10);
+    const webp = await saveImage(paths, Buffer.from('RIFF\x10\0\0\0WEBPVP8 ', 'latin1'), 10, 10);
+
+    expect(await findImageFile(paths.imagesDirPath, jpeg.id)).toEqual({
+      filePath: imagePathForId(paths, jpeg.id, 'jpeg'),
+      format: 'jpeg'
+    });
+    expect((await readdir(paths.imagesDirPath)).sort()).toEqual(
+      [`${jpeg.id}.jpg`, `${gif.id}.gif`, `${webp.id}.webp`].sort()
+    );
+    expect(detectImageFormat(Buffer.from('<svg xmlns="http://www.w3.org/2000/svg"/>'))).toBeNull();
+    await expect(saveImage(paths, Buffer.from('BM not supported'), 10, 10)).rejects.toThrow('Unsupported image format');
+  });
+
+  it('stores a downscaled display copy and keeps the original when asked', async () => {
+    const paths = await tempPaths();
+    const original = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 1, 2, 3]);
+    const display = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 9]);
+    const resize: ImageResizer = (_buffer, format, maxWidth) =>
+      format === 'png' ? { buffer: display, width: maxWidth, height: maxWidth / 2 } : null;
+
+    const kept = await saveImage(paths, original, 2000, 1000, { maxWidth: 400, resize });
+    expect(kept).toMatchObject({ width: 400, height: 200 });
+    expect((await readFile(imagePathForId(paths, kept.id))).equals(display)).toBe(true);
+    expect((await readFile(path.join(paths.imageOriginalsDirPath, `${kept.id}.png`))).equals(original)).toBe(true);
+
+    const other = Buffer.concat([original, Buffer.from([4])]);
+    const dropped = await saveImage(paths, other, 2000, 1000, { maxWidth: 400, keepOriginal: false, resize });
+    expect(await findImageFile(paths.imageOriginalsDirPath, dropped.id)).toBeNull();
+
+    const gif = await saveImage(paths, Buffer.from('GIF89a....', 'latin1'), 2000, 1000, { maxWidth: 400, resize });
+    expect(gif).toMatchObject({ width: 400, height: 200 });
+    expect(await readdir(paths.imageOriginalsDirPath)).toEqual([`${kept.id}.png`]);
+  });
+
+  it('stores identical images once under the hash of their bytes', async () => {
+    const paths = await tempPaths();
+    const content = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 7]);
+
+    const first = await saveImage(paths, content, 10, 10);
+    const second = await saveImage(paths, Buffer.from(content), 10, 10);
+    const different = await saveImage(paths, Buffer.concat([content, Buffer.from([8])]), 10, 10);
+
+    expect(first.id).toMatch(/^sha256-[a-f0-9]{64}$/);
+    expect(second.src).toBe(first.src);
+    expect(different.id).not.toBe(first.id);
+    expect((await readdir(paths.imagesDirPath)).sort()).toEqual([`${first.id}.png`, `${different.id}.png`].sort());
+    expect(isValidImageId(first.id)).toBe(true);
+    expect(isValidImageId('0b6f3c1e-8d4a-4f0e-9a57-2c1d3e4f5a6b')).toBe(true);
+    expect(isValidImageId('sha256-../memo')).toBe(false);
+  });
+
   it('normalizes dimensions only when image is too wide', () => {
     expect(normalizeImageDimensions(300, 150)).toEqual({ width: 300, height: 150 });
     expect(normalizeImageDimensions(1200, 600)).toEqual({ width: 640, height: 320 });
   });
+
+  it('migrates records through every step up to the target version', () => {
+    const doc = textDoc('old');
+    const migrated = migrateMemoRecord({ version: 1, updatedAt: 'then', doc }, chainedMigrations, 3);
+
+    expect(migrated).toEqual({ version: 3, updatedAt: 'then', title: 'Untitled', body: doc });
+    expect(migrateMemoRecord({ version: 2, doc }, chainedMigrations, 3)).toEqual({ version: 3, body: doc });
+  });
+
+  it('rejects missing or misnumbered migration steps', () => {
+    expect(() => migrateMemoRecord({ version: 1 }, { 1: chainedMigrations[1] }, 3)).toThrow(
+      'No migration from memo format 2.'
+    );
+    expect(() => migrateMemoRecord({ version: 1 }, { 1: (record) => ({ ...record, version: 3 }) }, 3)).toThrow(
+      'produced format 3'
+    );
+  });
+
+  it('backs up an older memo file before rewriting it in the new format', async () => {
+    const paths = await tempPaths();
+    const { activeMemoId } = await listMemos(paths);
+    const memoFilePath = memoPathForId(paths, activeMemoId);
+    const original = { version: 1, updatedAt: new Date().toISOString(), doc: textDoc('old') };
+    await writeFile(memoFilePath, JSON.stringify(original), 'utf8');
+
+    const upgraded = await upgradeMemoFile(memoFilePath, original, chainedMigrations, 3);
+    const files = await readdir(paths.memosDirPath);
+    const backup = files.find((file) => file.startsWith(`${activeMemoId}.json.v1-`) && file.endsWith('.bak'));
+
+    expect(upgraded.version).toBe(3);
+    expect(JSON.parse(await readFile(memoFilePath, 'utf8'))).toEqual(upgraded);
+    expect(backup).toBeDefined();
+    expect(JSON.parse(await readFile(path.join(paths.memosDirPath, backup!), 'utf8'))).toEqual(original);
+  });
+
+  it('refuses to load or overwrite a memo from a newer version', async () => {
+    const paths = await tempPaths();
+    const { activeMemoId } = await listMemos(paths);
+    const memoFilePath = memoPathForId(paths, activeMemoId);
+    const future = JSON.stringify({ version: 99, updatedAt: new Date().toISOString(), doc: textDoc('future') });
+    await writeFile(memoFilePath, future, 'utf8');
+
+    await expect(loadMemo(paths, activeMemoId)).rejects.toBeInstanceOf(UnsupportedMemoVersionError);
+    await expect(saveMemo(paths, activeMemoId, textDoc('mine'))).rejects.toBeInstanceOf(UnsupportedMemoVersionError);
+    expect(await readFile(memoFilePath, 'utf8')).toBe(future);
+    expect(await listMemoSnapshots(paths, activeMemoId)).toEqual([]);
+  });
+
+  it('rejects a save based on a stale updatedAt instead of overwriting', async () => {
+    const paths = await tempPaths();
+    const { activeMemoId } = await listMemos(paths);
+    const base = await saveMemo(paths, activeMemoId, textDoc('base'));
+    expect(base.ok).toBe(true);
+
+    const theirs = await saveMemo(paths, activeMemoId, textDoc('theirs'), base.updatedAt);
+    expect(theirs.ok).toBe(true);
+    expect(theirs.updatedAt > base.updatedAt).toBe(true);
+
+    const stale = await saveMemo(paths, activeMemoId, textDoc('mine'), base.updatedAt);
+    expect(stale).toEqual({ ok: false, reason: 'conflict', updatedAt: theirs.updatedAt });
+    expect((await loadMemo(paths, activeMemoId)).doc).toEqual(textDoc('theirs'));
+
+    expect((await saveMemo(paths, activeMemoId, textDoc('mine'), theirs.updatedAt)).ok).toBe(true);
+    expect((await loadMemo(paths, activeMemoId)).doc).toEqual(textDoc('mine'));
+  });
+
+  it('lets only one of two saves from the same base through', async () => {
+    const paths = await tempPaths();
+    const { activeMemoId } = await listMemos(paths);
+    // A large memo keeps both saves reading it at once, which is when they could both pass the check.
+    const base = await saveMemo(paths, activeMemoId, textDoc(`base ${'x'.repeat(2_000_000)}`));
+
+    const results = await Promise.all([
+      saveMemo(paths, activeMemoId, textDoc('first window'), base.updatedAt),
+      saveMemo(paths, activeMemoId, textDoc('second window'), base.updatedAt)
+    ]);
+
+    expect(results[0].ok).toBe(true);
+    expect(results[1]).toEqual({ ok: false, reason: 'conflict', updatedAt: results[0].updatedAt });
+    expect((await loadMemo(paths, activeMemoId)).doc).toEqual(textDoc('first window'));
+  });
+
+  it('appends captured text as a timestamped paragraph', async () => {
+    const paths = await tempPaths();
+    const { activeMemoId } = await listMemos(paths);
+
+    await appendToMemo(paths, activeMemoId, '  first idea \n', new Date(2026, 9, 19, 9, 5));
+    expect((await loadMemo(paths, activeMemoId)).doc).toEqual(textDoc('[2026-10-19 09:05] first idea'));
+
+    await appendToMemo(paths, activeMemoId, 'line one\r\nline two', new Date(2026, 9, 19, 14, 30));
+    const { doc } = await loadMemo(paths, activeMemoId);
+    expect(doc.content?.[1]).toEqual({
+      type: 'paragraph',
+      content: [
+        { type: 'text', text: '[2026-10-19 14:30] line one' },
+        { type: 'hardBreak' },
+        { type: 'text', text: 'line two' }
+      ]
+    });
+
+    await expect(appendToMemo(paths, activeMemoId, '  \n ')).rejects.toThrow('Nothing to append.');
+  });
+
+  it('does not overwrite a save that lands while text is being appended', async () => {
+    const paths = await tempPaths();
+    const { activeMemoId } = await listMemos(paths);
+    const base = await saveMemo(paths, activeMemoId, textDoc(`base ${'x'.repeat(2_000_000)}`));
+
+    const [, saved] = await Promise.all([
+      appendToMemo(paths, activeMemoId, 'captured', new Date(2026, 9, 19, 9, 5)),
+      saveMemo(paths, activeMemoId, textDoc('from the editor'), base.updatedAt)
+    ]);
+
+    // The append went first, so the editor's save is told about it instead of silently winning or losing.
+    expect(saved).toMatchObject({ ok: false, reason: 'conflict' });
+    const { doc } = await loadMemo(paths, activeMemoId);
+    expect(doc.content?.[1]).toEqual(textDoc('[2026-10-19 09:05] captured').content?.[0]);
+  });
 });
@@ -0,0 +1,95 @@
+import { mkdir, mkdtemp, rm, utimes, writeFile } from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import { afterEach, describe, expect, it } from 'vitest';
+import { createStoragePaths, historyDirForMemo, listMemos, memoPathForId, saveMemo } from '../electron/storage';
+import type { StoragePaths } from '../electron/storage';
+import { watchStorage } from '../electron/storageWatcher';
+import type { MemoChangeEvent, MemoDoc } from '../src/shared/types';
+
+const SETTLE_MS = 100;
+
+const tempRoots: string[] = [];
+const stops: Array<() => void> = [];
+
+function textDoc(text: string): MemoDoc {
+  return { type: 'doc', content: [{ type: 'paragraph', content: [{ type: 'text', text }] }] };
+}
+
+function delay(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+async function watchedStorage(): Promise<{ paths: StoragePaths; memoId: string; events: MemoChangeEvent[] }> {
+  const root = await mkdtemp(path.join(os.tmpdir(), 'always-memo-watcher-test-'));
+  tempRoots.push(root);
+  const paths = createStoragePaths(root);
+  const { activeMemoId } = await listMemos(paths);
+  // Let the events from creating the storage pass before watching.
+  await delay(SETTLE_MS);
+
+  const events: MemoChangeEvent[] = [];
+  stops.push(watchStorage(paths, (event) => events.push(event), SETTLE_MS));
+  return { paths, memoId: activeMemoId, events };
+}
+
+afterEach(async () => {
+  while (stops.length > 0) {
+    stops.pop()?.();
+  }
+  while (tempRoots.length > 0) {
+    const root = tempRoots.pop();
+    if (root) {
+      await rm(root, { recursive: true, force: true });
+    }
+  }
+});
+
+describe('storage watcher', () => {
+  it('reports a burst of writes to a memo once, after it has settled', async () => {
+    const { paths, memoId, events } = await watchedStorage();
+
+    await saveMemo(paths, memoId, textDoc('one'));
+    await saveMemo(paths, memoId, textDoc('two'));
+    const last = await saveMemo(paths, memoId, textDoc('three'));
+    expect(events).toEqual([]);
+
+    await delay(SETTLE_MS * 4);
+    expect(events).toEqual([{ kind: 'memo', memoId, updatedAt: last.updatedAt }]);
+  });
+
+  it('ignores temp, backup and history files', async () => {
+    const { paths, memoId, events } = await watchedStorage();
+    const memoFilePath = memoPathForId(paths, memoId);
+
+    await writeFile(`${memoFilePath}.123.abc.tmp`, '{}');
+    await writeFile(`${memoFilePath}.v1-123.bak`, '{}');
+    await writeFile(`${memoFilePath}.corrupt-123`, '{}');
+    await mkdir(historyDirForMemo(paths, memoId), { recursive: true });
+    await writeFile(path.join(historyDirForMemo(paths, memoId), 'snapshot.json'), '{}');
+
+    await delay(SETTLE_MS * 4);
+    expect(events).toEqual([]);
+  });
+
+  it('reports a memo only when its updatedAt changed', async () => {
+    const { paths, memoId, events } = await watchedStorage();
+    const memoFilePath = memoPathForId(paths, memoId);
+
+    const first = await saveMemo(paths, memoId, textDoc('first'));
+    await delay(SETTLE_MS * 4);
+
+    // Touching the file, as deduplicated image writes and sync clients do, is not a change.
+    const now = new Date();
+    await utimes(memoFilePath, now, now);
+    await delay(SETTLE_MS * 4);
+
+    const second = await saveMemo(paths, memoId, textDoc('second'));
+    await delay(SETTLE_MS * 4);
+
+    expect(events).toEqual([
+      { kind: 'memo', memoId, updatedAt: first.updatedAt },
+      { kind: 'memo', memoId, updatedAt: second.updatedAt }
+    ]);
+  });
+});
@@ -0,0 +1,40 @@
+import { describe, expect, it } from 'vitest';
+import { shouldHideDockIcon, shouldHideOnBlur } from '../electron/trayMode';
+import type { BlurContext } from '../electron/trayMode';
+
+const TRAY_MODE = { showTrayIcon: true, hideDockIcon: true, hideOnBlur: true };
+const LEFT_FOR_ANOTHER_APP: BlurContext = {
+  hasTray: true,
+  platform: 'win32',
+  windowVisible: true,
+  openDialogCount: 0,
+  appWindowFocused: false,
+  devToolsFocused: false
+};
+
+describe('tray mode', () => {
+  it('hides the Dock icon only while the tray icon is shown', () => {
+    expect(shouldHideDockIcon(TRAY_MODE)).toBe(true);
+    expect(shouldHideDockIcon({ ...TRAY_MODE, showTrayIcon: false })).toBe(false);
+    expect(shouldHideDockIcon({ ...TRAY_MODE, hideDockIcon: false })).toBe(false);
+  });
+
+  it('hides the window when another app takes focus', () => {
+    expect(shouldHideOnBlur(TRAY_MODE, LEFT_FOR_ANOTHER_APP)).toBe(true);
+    expect(shouldHideOnBlur({ ...TRAY_MODE, hideOnBlur: false }, LEFT_FOR_ANOTHER_APP)).toBe(false);
+    expect(shouldHideOnBlur(TRAY_MODE, { ...LEFT_FOR_ANOTHER_APP, windowVisible: false })).toBe(false);
+  });
+
+  it('keeps the window up when focus stays in the app', () => {
+    expect(shouldHideOnBlur(TRAY_MODE, { ...LEFT_FOR_ANOTHER_APP, appWindowFocused: true })).toBe(false);
+    expect(shouldHideOnBlur(TRAY_MODE, { ...LEFT_FOR_ANOTHER_APP, openDialogCount: 1 })).toBe(false);
+    expect(shouldHideOnBlur(TRAY_MODE, { ...LEFT_FOR_ANOTHER_APP, devToolsFocused: true })).toBe(false);
+  });
+
+  it('keeps the window up without a tray icon unless the Dock can bring it back', () => {
+    const withoutTray = { ...LEFT_FOR_ANOTHER_APP, hasTray: false };
+
+    expect(shouldHideOnBlur(TRAY_MODE, withoutTray)).toBe(false);
+    expect(shouldHideOnBlur(TRAY_MODE, { ...withoutTray, platform: 'darwin' })).toBe(true);
+  });
+});
@@ -0,0 +1,170 @@
+import { createHash } from 'node:crypto';
+import { mkdtemp, readdir, readFile, rm } from 'node:fs/promises';
+import { createServer } from 'node:http';
+import type { Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import os from 'node:os';
+import path from 'node:path';
+import { afterEach, describe, expect, it } from 'vitest';
+import { downloadUpdate, parseUpdateManifest, pickUpdateFile } from '../electron/updateInstaller';
+import type { ReleaseInfo } from '../electron/updates';
+import type { UpdateProgress } from '../src/shared/types';
+
+const tempRoots: string[] = [];
+const servers: Server[] = [];
+
+const ARCHIVE = Buffer.alloc(256 * 1024, 'always-memo');
+const ARM_ZIP = 'Always-Memo-0.2.0-arm64-mac.zip';
+const INTEL_ZIP = 'Always-Memo-0.2.0-mac.zip';
+
+async function tempRoot() {
+  const root = await mkdtemp(path.join(os.tmpdir(), 'always-memo-update-test-'));
+  tempRoots.push(root);
+  return root;
+}
+
+function sha512(bytes: Buffer): string {
+  return createHash('sha512').update(bytes).digest('base64');
+}
+
+function manifest(files: { url: string; sha512: string; size: number }[]): string {
+  return [
+    'version: 0.2.0',
+    'files:',
+    ...files.flatMap((file) => [`  - url: ${file.url}`, `    sha512: ${file.sha512}`, `    size: ${file.size}`]),
+    `path: ${files[0]?.url ?? ''}`,
+    "releaseDate: '2025-03-01T09:30:00.000Z'"
+  ].join('\n');
+}
+
+/** Serves release assets by name, the way GitHub's download URLs do. */
+async function startAssetServer(assets: Record<string, Buffer | string>): Promise<string> {
+  const server = createServer((request, response) => {
+    const body = assets[decodeURIComponent(request.url?.slice(1) ?? '')];
+    if (body === undefined) {
+      response.writeHead(404).end();
+      return;
+    }
+    response.writeHead(200, { 'content-type': 'application/octet-stream' }).end(body);
+  });
+  servers.push(server);
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  return `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+}
+
+// GitHub stores "Always Memo-0.2.0-arm64-mac.zip" with its space turned into a dot.
+function releaseFor(baseUrl: string, names: string[]): ReleaseInfo {
+  return {
+    version: '0.2.0',
+    tag: 'v0.2.0',
+    url: 'https://github.com/Accord33/always-memo/releases/tag/v0.2.0',
+    prerelease: false,
+    assets: names.map((name) => ({ name, url: `${baseUrl}/${encodeURIComponent(name)}`, size: 0 }))
+  };
+}
+
+afterEach(async () => {
+  while (servers.length > 0) {
+    const server = servers.pop();
+    if (server) {
+      await new Promise((resolve) => server.close(resolve));
+    }
+  }
+  while (tempRoots.length > 0) {
+    const root = tempRoots.pop();
+    if (root) {
+      await rm(root, { recursive: true, force: true });
+    }
+  }
+});
+
+describe('update manifests', () => {
+  it('reads the files list of latest-mac.yml', () => {
+    const text = manifest([
+      { url: ARM_ZIP, sha512: 'abc==', size: 12 },
+      { url: INTEL_ZIP, sha512: 'def==', size: 34 }
+    ]);
+
+    expect(parseUpdateManifest(text)).toEqual([
+      { url: ARM_ZIP, sha512: 'abc==', size: 12 },
+      { url: INTEL_ZIP, sha512: 'def==', size: 34 }
+    ]);
+    expect(parseUpdateManifest("files:\n- url: 'a b.zip'\n  sha512: \"x\"\nsha512: y")).toEqual([
+      { url: 'a b.zip', sha512: 'x', size: null }
+    ]);
+  });
+
+  it('picks the zip for the architecture', () => {
+    const files = parseUpdateManifest(
+      manifest([
+        { url: ARM_ZIP, sha512: 'a', size: 1 },
+        { url: INTEL_ZIP, sha512: 'b', size: 1 },
+        { url: 'Always-Memo-0.2.0-arm64.dmg', sha512: 'c', size: 1 }
+      ])
+    );
+
+    expect(pickUpdateFile(files, 'arm64')?.url).toBe(ARM_ZIP);
+    expect(pickUpdateFile(files, 'x64')?.url).toBe(INTEL_ZIP);
+    expect(pickUpdateFile(files, 'ia32')).toBeNull();
+    expect(pickUpdateFile([{ url: 'Always-Memo-0.2.0-universal-mac.zip', sha512: 'u', size: 1 }], 'arm64')?.url).toBe(
+      'Always-Memo-0.2.0-universal-mac.zip'
+    );
+  });
+});
+
+describe('update downloads', () => {
+  it('downloads and verifies the matching asset, reporting progress', async () => {
+    const baseUrl = await startAssetServer({
+      'latest-mac.yml': manifest([
+        { url: ARM_ZIP, sha512: sha512(ARCHIVE), size: ARCHIVE.length },
+        { url: INTEL_ZIP, sha512: 'other', size: 1 }
+      ]),
+      'Always.Memo-0.2.0-arm64-mac.zip': ARCHIVE
+    });
+    const directory = path.join(await tempRoot(), 'updates');
+    const progress: UpdateProgress[] = [];
+
+    const update = await downloadUpdate(
+      releaseFor(baseUrl, ['latest-mac.yml', 'Always.Memo-0.2.0-arm64-mac.zip', 'Always.Memo-0.2.0-mac.zip']),
+      { arch: 'arm64', directory, onProgress: (next) => progress.push(next) }
+    );
+
+    expect(update).toEqual({ version: '0.2.0', archivePath: path.join(directory, 'Always.Memo-0.2.0-arm64-mac.zip') });
+    expect(await readFile(update.archivePath)).toEqual(ARCHIVE);
+    expect(progress[0]).toEqual({ version: '0.2.0', receivedBytes: 0, totalBytes: ARCHIVE.length });
+    expect(progress.at(-1)).toEqual({ version: '0.2.0', receivedBytes: ARCHIVE.length, totalBytes: ARCHIVE.length });
+    expect(progress.length).toBeLessThanOrEqual(102);
+  });
+
+  it('deletes a download that does not match its checksum', async () => {
+    const tampered = Buffer.from(ARCHIVE);
+    tampered[0] ^= 1;
+    const baseUrl = await startAssetServer({
+      'latest-mac.yml': manifest([{ url: ARM_ZIP, sha512: sha512(ARCHIVE), size: ARCHIVE.length }]),
+      [ARM_ZIP]: tampered
+    });
+    const directory = path.join(await tempRoot(), 'updates');
+
+    await expect(
+      downloadUpdate(releaseFor(baseUrl, ['latest-mac.yml', ARM_ZIP]), { arch: 'arm64', directory })
+    ).rejects.toThrow('does not match its published checksum');
+    expect(await readdir(directory)).toEqual([]);
+  });
+
+  it('explains releases it cannot install', async () => {
+    const baseUrl = await startAssetServer({
+      'latest-mac.yml': manifest([{ url: INTEL_ZIP, sha512: sha512(ARCHIVE), size: ARCHIVE.length }])
+    });
+    const directory = path.join(await tempRoot(), 'updates');
+
+    await expect(downloadUpdate(releaseFor(baseUrl, [INTEL_ZIP]), { arch: 'x64', directory })).rejects.toThrow(
+      'Version 0.2.0 has no published checksums'
+    );
+    await expect(
+      downloadUpdate(releaseFor(baseUrl, ['latest-mac.yml', INTEL_ZIP]), { arch: 'arm64', directory })
+    ).rejects.toThrow('Version 0.2.0 has no download for this Mac (arm64).');
+    await expect(
+      downloadUpdate(releaseFor(baseUrl, ['latest-mac.yml', INTEL_ZIP]), { arch: 'x64', directory })
+    ).rejects.toThrow('Downloading the update failed (HTTP 404).');
+  });
+});
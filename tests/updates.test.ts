@@ -0,0 +1,237 @@
+import { createServer } from 'node:http';
+import type { IncomingHttpHeaders, Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { afterEach, describe, expect, it } from 'vitest';
+import {
+  checkForUpdate,
+  compareVersions,
+  createReleaseSource,
+  findRelease,
+  parseSemver,
+  pickLatestRelease
+} from '../electron/updates';
+
+type ReleaseServer = {
+  url: string;
+  requests: IncomingHttpHeaders[];
+  setReleases: (releases: unknown[]) => void;
+  setStatus: (status: number) => void;
+};
+
+const servers: Server[] = [];
+
+function release(tag: string, attrs: { prerelease?: boolean; draft?: boolean } = {}) {
+  return {
+    tag_name: tag,
+    html_url: `https://github.com/Accord33/always-memo/releases/tag/${tag}`,
+    prerelease: attrs.prerelease ?? false,
+    draft: attrs.draft ?? false
+  };
+}
+
+/** A stand-in for the GitHub releases API that answers conditional requests with 304. */
+async function startReleaseServer(initial: unknown[]): Promise<ReleaseServer> {
+  let releases = initial;
+  let revision = 1;
+  let status = 200;
+  const requests: IncomingHttpHeaders[] = [];
+
+  const server = createServer((request, response) => {
+    requests.push(request.headers);
+    const etag = `"r${revision}"`;
+    if (status !== 200) {
+      response.writeHead(status).end();
+    } else if (request.headers['if-none-match'] === etag) {
+      response.writeHead(304, { etag }).end();
+    } else {
+      response.writeHead(200, { 'content-type': 'application/json', etag }).end(JSON.stringify(releases));
+    }
+  });
+  servers.push(server);
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+
+  return {
+    url: `http://127.0.0.1:${(server.address() as AddressInfo).port}/releases`,
+    requests,
+    setReleases: (next) => {
+      releases = next;
+      revision += 1;
+    },
+    setStatus: (next) => {
+      status = next;
+    }
+  };
+}
+
+afterEach(async () => {
+  while (servers.length > 0) {
+    const server = servers.pop();
+    if (server) {
+      await new Promise((resolve) => server.close(resolve));
+    }
+  }
+});
+
+describe('version comparison', () => {
+  it('parses tags with a v prefix, pre-release and build metadata', () => {
+    expect(parseSemver('v1.2.3-beta.2+build.45')).toEqual({
+      major: 1,
+      minor: 2,
+      patch: 3,
+      prerelease: ['beta', '2'],
+      build: ['build', '45']
+    });
+    expect(parseSemver('1.2')).toBeNull();
+    expect(parseSemver('01.2.3')).toBeNull();
+  });
+
+  it('follows semver precedence', () => {
+    const ordered = [
+      '1.0.0-alpha',
+      '1.0.0-alpha.1',
+      '1.0.0-alpha.beta',
+      '1.0.0-beta',
+      '1.0.0-beta.2',
+      '1.0.0-beta.11',
+      '1.0.0-rc.1',
+      '1.0.0',
+      '1.0.1',
+      '1.10.0',
+      '2.0.0'
+    ];
+
+    for (let index = 1; index < ordered.length; index += 1) {
+      expect(compareVersions(ordered[index], ordered[index - 1])).toBe(1);
+      expect(compareVersions(ordered[index - 1], ordered[index])).toBe(-1);
+    }
+  });
+
+  it('orders CI builds of one version but treats them as equal to the plain version', () => {
+    expect(compareVersions('0.2.0+build.10', '0.2.0+build.9')).toBe(1);
+    expect(compareVersions('0.2.0+build.10', '0.2.0')).toBe(0);
+    expect(compareVersions('0.2.1+build.1', '0.2.0+build.10')).toBe(1);
+  });
+
+  it('sorts invalid versions below valid ones', () => {
+    expect(compareVersions('nightly', '0.0.1')).toBe(-1);
+    expect(compareVersions('0.0.1', 'nightly')).toBe(1);
+  });
+});
+
+describe('release channels', () => {
+  const releases = [
+    release('v0.3.0-beta.1', { prerelease: true }),
+    release('v0.4.0', { draft: true }),
+    release('v0.2.1+build.12'),
+    release('v0.2.1-rc.1'),
+    release('not-a-version'),
+    { tag_name: 'v9.0.0' }
+  ];
+
+  it('skips drafts and pre-releases on the stable channel', () => {
+    expect(pickLatestRelease(releases, 'stable')).toMatchObject({ version: '0.2.1+build.12', prerelease: false });
+  });
+
+  it('includes pre-releases on the prerelease channel', () => {
+    expect(pickLatestRelease(releases, 'prerelease')).toMatchObject({ version: '0.3.0-beta.1', prerelease: true });
+  });
+
+  it('returns null when nothing is published on the channel', () => {
+    expect(pickLatestRelease([release('v1.0.0-rc.1')], 'stable')).toBeNull();
+  });
+
+  it('finds a release by its exact version, with its assets', () => {
+    const withAssets = {
+      ...release('v0.2.1+build.13'),
+      assets: [{ name: 'latest-mac.yml', browser_download_url: 'https://example.com/latest-mac.yml', size: 120 }, {}]
+    };
+
+    expect(findRelease([...releases, withAssets], '0.2.1+build.13')?.assets).toEqual([
+      { name: 'latest-mac.yml', url: 'https://example.com/latest-mac.yml', size: 120 }
+    ]);
+    expect(findRelease(releases, '0.2.1')).toBeNull();
+  });
+});
+
+describe('update checks', () => {
+  it('reports a newer release and reuses the cached list on 304', async () => {
+    const server = await startReleaseServer([release('v0.2.0'), release('v0.3.0-beta.1', { prerelease: true })]);
+    const source = createReleaseSource(server.url);
+    const options = { currentVersion: '0.1.1', channel: 'stable' as const };
+
+    expect(await checkForUpdate(source, options)).toEqual({
+      state: 'available',
+      currentVersion: '0.1.1',
+      latestVersion: '0.2.0',
+      releaseUrl: 'https://github.com/Accord33/always-memo/releases/tag/v0.2.0'
+    });
+    expect(await checkForUpdate(source, { ...options, channel: 'prerelease' })).toMatchObject({
+      state: 'available',
+      latestVersion: '0.3.0-beta.1'
+    });
+
+    expect(server.requests[0]['if-none-match']).toBeUndefined();
+    expect(server.requests[1]['if-none-match']).toBe('"r1"');
+
+    server.setReleases([release('v0.2.1')]);
+    expect(await checkForUpdate(source, options)).toMatchObject({ state: 'available', latestVersion: '0.2.1' });
+    expect(source.etag).toBe('"r2"');
+  });
+
+  it('finds a newer CI build of the installed version', async () => {
+    const server = await startReleaseServer([release('v0.1.1+build.8'), release('v0.1.1+build.7')]);
+    const source = createReleaseSource(server.url);
+
+    expect(await checkForUpdate(source, { currentVersion: '0.1.1+build.7', channel: 'stable' })).toMatchObject({
+      state: 'available',
+      latestVersion: '0.1.1+build.8'
+    });
+    expect(await checkForUpdate(source, { currentVersion: '0.1.1+build.8', channel: 'stable' })).toEqual({
+      state: 'not_available',
+      currentVersion: '0.1.1+build.8',
+      latestVersion: '0.1.1+build.8'
+    });
+  });
+
+  it('honours a skipped version until a newer one is released', async () => {
+    const server = await startReleaseServer([release('v0.2.0')]);
+    const source = createReleaseSource(server.url);
+    const options = { currentVersion: '0.1.1', channel: 'stable' as const, skippedVersion: '0.2.0' };
+
+    expect(await checkForUpdate(source, options)).toEqual({
+      state: 'not_available',
+      currentVersion: '0.1.1',
+      latestVersion: '0.2.0',
+      message: 'Version 0.2.0 is skipped.'
+    });
+
+    server.setReleases([release('v0.2.0'), release('v0.2.1')]);
+    expect(await checkForUpdate(source, options)).toMatchObject({ state: 'available', latestVersion: '0.2.1' });
+  });
+
+  it('says so when no release is published on the channel', async () => {
+    const server = await startReleaseServer([release('v0.2.0-rc.1', { prerelease: true })]);
+
+    expect(await checkForUpdate(createReleaseSource(server.url), { currentVersion: '0.1.1', channel: 'stable' })).toEqual({
+      state: 'not_available',
+      currentVersion: '0.1.1',
+      message: 'No releases have been published on this channel.'
+    });
+  });
+
+  it('rejects failed and malformed responses', async () => {
+    const server = await startReleaseServer([release('v0.2.0')]);
+    const source = createReleaseSource(server.url);
+
+    server.setStatus(403);
+    await expect(checkForUpdate(source, { currentVersion: '0.1.1', channel: 'stable' })).rejects.toThrow(
+      'Release API returned 403'
+    );
+
+    server.setStatus(200);
+    server.setReleases({ message: 'Not Found' } as unknown as unknown[]);
+    await expect(checkForUpdate(source, { currentVersion: '0.1.1', channel: 'stable' })).rejects.toThrow(
+      'unexpected response'
+    );
+  });
+});
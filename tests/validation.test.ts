@@ -0,0 +1,156 @@
+import { describe, expect, it } from 'vitest';
+import {
+  InvalidPayloadError,
+  MAX_DOC_BYTES,
+  MAX_DOC_DEPTH,
+  MAX_IMAGE_BYTES,
+  validateFlushResult,
+  validateIpcRequest,
+  validateMemoDoc
+} from '../src/shared/validation';
+import type { IpcChannel } from '../src/shared/validation';
+import type { MemoDoc } from '../src/shared/types';
+
+const MEMO_ID = '0f8fad5b-d9cb-469f-a165-70867728950e';
+const SNAPSHOT_ID = '1700000000000-significant_change';
+const DOC: MemoDoc = {
+  type: 'doc',
+  content: [{ type: 'paragraph', content: [{ type: 'text', text: 'hello', marks: [{ type: 'bold' }] }] }]
+};
+const IMAGE = { buffer: new Uint8Array([1, 2, 3]).buffer, width: 10, height: 20 };
+
+type ChannelCase = {
+  valid: unknown[];
+  invalid: unknown[][];
+};
+
+// Typed by channel, so a channel added to IpcRequests without a test here fails the typecheck.
+const CHANNEL_CASES: Record<IpcChannel, ChannelCase> = {
+  'memo:list': { valid: [], invalid: [['extra']] },
+  'memo:create': { valid: ['Groceries'], invalid: [[42], ['x'.repeat(1001)]] },
+  'memo:rename': { valid: [MEMO_ID, 'Work'], invalid: [[MEMO_ID], ['../settings', 'Work']] },
+  'memo:delete': { valid: [MEMO_ID], invalid: [[], ['a/b'], [{ id: MEMO_ID }]] },
+  'memo:setActive': { valid: [MEMO_ID], invalid: [[''], [null]] },
+  'memo:load': { valid: [MEMO_ID], invalid: [['x'.repeat(129)]] },
+  'memo:save': {
+    valid: [MEMO_ID, DOC, '2025-03-01T09:30:00.000Z'],
+    invalid: [[MEMO_ID, 'not a doc'], [MEMO_ID, DOC, 17], ['..', DOC]]
+  },
+  'history:list': { valid: [MEMO_ID], invalid: [[1]] },
+  'history:load': { valid: [MEMO_ID, SNAPSHOT_ID], invalid: [[MEMO_ID, '../../secret']] },
+  'history:restore': { valid: [MEMO_ID, SNAPSHOT_ID], invalid: [[MEMO_ID]] },
+  'tasks:listOpen': { valid: [], invalid: [[true]] },
+  'markdown:export': { valid: [MEMO_ID], invalid: [[undefined]] },
+  'markdown:import': { valid: [], invalid: [['/etc/passwd']] },
+  'backup:export': { valid: [], invalid: [['/tmp/out.tar.gz']] },
+  'backup:import': { valid: [], invalid: [['/tmp/in.tar.gz']] },
+  'image:saveBytes': {
+    valid: [IMAGE],
+    invalid: [
+      [{ ...IMAGE, buffer: 'AAAA' }],
+      [{ ...IMAGE, buffer: new ArrayBuffer(0) }],
+      [{ ...IMAGE, width: Number.NaN }],
+      [{ ...IMAGE, height: -1 }],
+      [{ ...IMAGE, width: 1e9 }]
+    ]
+  },
+  'image:pasteFromClipboard': { valid: [], invalid: [[IMAGE]] },
+  'image:openOriginal': { valid: ['memo-image://abc'], invalid: [[{ src: 'memo-image://abc' }]] },
+  'vault:status': { valid: [], invalid: [['x']] },
+  'vault:unlock': { valid: ['correct horse'], invalid: [[], [12345678]] },
+  'vault:lock': { valid: [], invalid: [['now']] },
+  'vault:enable': { valid: ['correct horse'], invalid: [['x'.repeat(1025)]] },
+  'vault:changePassphrase': { valid: ['correct horse', 'battery staple'], invalid: [['correct horse']] },
+  'vault:disable': { valid: ['correct horse'], invalid: [[null]] },
+  'settings:get': { valid: [], invalid: [['autosaveDelayMs']] },
+  'settings:update': { valid: [{ autosaveDelayMs: 800 }], invalid: [[null], [['autosaveDelayMs', 800]]] },
+  'capture:append': { valid: ['remember the milk'], invalid: [[undefined], ['x'.repeat(1_000_001)]] },
+  'capture:close': { valid: [], invalid: [[1]] },
+  'window:toggleAlwaysOnTop': { valid: [], invalid: [[true]] },
+  'window:getAlwaysOnTop': { valid: [], invalid: [[true]] },
+  'window:getOverlayState': { valid: [], invalid: [[0.5]] },
+  'window:setOpacity': { valid: [0.6], invalid: [[], ['0.6'], [Number.NaN], [1.5], [-0.1]] },
+  'window:setClickThrough': { valid: [true], invalid: [[], ['true'], [1]] },
+  'window:openNote': { valid: [MEMO_ID], invalid: [[], ['../memo'], [1]] },
+  'app:getUpdateStatus': { valid: [], invalid: [['force']] },
+  'app:openLatestRelease': { valid: [], invalid: [['https://example.com']] },
+  'app:checkForUpdates': { valid: [], invalid: [['now']] },
+  'app:skipUpdateVersion': { valid: ['0.2.0+build.7'], invalid: [[], [2]] },
+  'app:downloadUpdate': { valid: [], invalid: [['https://example.com/update.zip']] },
+  'app:installUpdate': { valid: [], invalid: [['/Applications/Other.app']] }
+};
+
+function nested(depth: number): MemoDoc {
+  let node: MemoDoc = { type: 'paragraph' };
+  for (let level = 0; level < depth; level += 1) {
+    node = { type: 'blockquote', content: [node] };
+  }
+  return { type: 'doc', content: [node] };
+}
+
+describe('ipc validation', () => {
+  describe.each(Object.entries(CHANNEL_CASES) as [IpcChannel, ChannelCase][])('%s', (channel, cases) => {
+    it('accepts a well-formed request', () => {
+      expect(validateIpcRequest(channel, cases.valid)).toEqual(cases.valid);
+    });
+
+    it('rejects malformed requests', () => {
+      for (const args of cases.invalid) {
+        expect(() => validateIpcRequest(channel, args)).toThrow(InvalidPayloadError);
+      }
+    });
+  });
+
+  it('allows optional arguments to be passed as undefined', () => {
+    expect(validateIpcRequest('memo:create', [undefined])).toEqual([undefined]);
+    expect(validateIpcRequest('memo:save', [MEMO_ID, DOC, undefined])).toEqual([MEMO_ID, DOC, undefined]);
+  });
+
+  it('copies image bytes sent as a view into their own buffer', () => {
+    const backing = new Uint8Array([9, 9, 1, 2, 3, 9]);
+    const [request] = validateIpcRequest('image:saveBytes', [{ ...IMAGE, buffer: backing.subarray(2, 5) }]);
+
+    expect(Array.from(new Uint8Array(request.buffer))).toEqual([1, 2, 3]);
+  });
+
+  it('rejects images over the size limit', () => {
+    expect(() =>
+      validateIpcRequest('image:saveBytes', [{ ...IMAGE, buffer: new ArrayBuffer(MAX_IMAGE_BYTES + 1) }])
+    ).toThrow('The image is too large');
+  });
+
+  it('checks the node structure of documents', () => {
+    expect(() => validateMemoDoc({ type: 'paragraph' })).toThrow('its top node is not a document');
+    expect(() => validateMemoDoc({ type: 'doc', content: [{ text: 'no type' }] })).toThrow(
+      'doc.content[0] is not a valid node'
+    );
+    expect(() => validateMemoDoc({ type: 'doc', content: [{ type: 'text', text: 5 }] })).toThrow(
+      'doc.content[0].text is not text'
+    );
+    expect(() => validateMemoDoc({ type: 'doc', content: { type: 'paragraph' } })).toThrow('doc.content is not a list');
+    expect(() => validateMemoDoc({ type: 'doc', attrs: [] })).toThrow('doc.attrs is not an object');
+    expect(() =>
+      validateMemoDoc({ type: 'doc', content: [{ type: 'text', text: 'a', marks: [{ attrs: {} }] }] })
+    ).toThrow('doc.content[0].marks[0] is not a valid mark');
+  });
+
+  it('limits document depth and size, including cyclic documents', () => {
+    expect(validateMemoDoc(nested(MAX_DOC_DEPTH - 1))).toBeTruthy();
+    expect(() => validateMemoDoc(nested(MAX_DOC_DEPTH))).toThrow(`more than ${MAX_DOC_DEPTH} levels deep`);
+
+    const cyclic: MemoDoc = { type: 'doc', content: [] };
+    cyclic.content?.push(cyclic);
+    expect(() => validateMemoDoc(cyclic)).toThrow(InvalidPayloadError);
+
+    const large: MemoDoc = {
+      type: 'doc',
+      content: [{ type: 'paragraph', content: [{ type: 'text', text: 'x'.repeat(MAX_DOC_BYTES) }] }]
+    };
+    expect(() => validateMemoDoc(large)).toThrow('The memo is too large to save');
+  });
+
+  it('checks flush results from the renderer', () => {
+    expect(validateFlushResult({ ok: false, message: 'Disk full' })).toEqual({ ok: false, message: 'Disk full' });
+    expect(() => validateFlushResult({ ok: 'yes' })).toThrow(InvalidPayloadError);
+  });
+});
@@ -0,0 +1,175 @@
+import { mkdir, mkdtemp, readdir, readFile, rm, writeFile } from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import { afterEach, describe, expect, it } from 'vitest';
+import { isSealed, StorageLockedError } from '../electron/encryption';
+import {
+  createStoragePaths,
+  findImageFile,
+  listMemos,
+  listMemoSnapshots,
+  loadMemo,
+  memoPathForId,
+  readStoredFile,
+  saveImage,
+  saveMemo
+} from '../electron/storage';
+import { changePassphrase, disableEncryption, enableEncryption, lockVault, openVault, unlockVault } from '../electron/vault';
+import type { MemoDoc } from '../src/shared/types';
+
+const tempRoots: string[] = [];
+const PNG_IMAGE = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 1, 2, 3]);
+const SECRET = 'customer password hunter2';
+
+async function tempRoot() {
+  const root = await mkdtemp(path.join(os.tmpdir(), 'always-memo-vault-test-'));
+  tempRoots.push(root);
+  return root;
+}
+
+function textDoc(text: string): MemoDoc {
+  return {
+    type: 'doc',
+    content: [{ type: 'paragraph', content: [{ type: 'text', text }] }]
+  };
+}
+
+async function readAllFiles(dirPath: string): Promise<string> {
+  const contents: string[] = [];
+  for (const entry of await readdir(dirPath, { recursive: true, withFileTypes: true })) {
+    if (entry.isFile()) {
+      contents.push(await readFile(path.join(entry.parentPath, entry.name), 'latin1'));
+    }
+  }
+  return contents.join('\n');
+}
+
+afterEach(async () => {
+  while (tempRoots.length > 0) {
+    const root = tempRoots.pop();
+    if (root) {
+      await rm(root, { recursive: true, force: true });
+    }
+  }
+});
+
+describe('vault', () => {
+  it('encrypts existing and new memos, history and images, and refuses access while locked', async () => {
+    const root = await tempRoot();
+    const paths = createStoragePaths(root);
+    const { activeMemoId } = await listMemos(paths);
+    await saveMemo(paths, activeMemoId, textDoc(SECRET));
+    const image = await saveImage(paths, PNG_IMAGE, 10, 10);
+
+    await enableEncryption(paths, 'correct horse');
+    await saveMemo(paths, activeMemoId, textDoc(`${SECRET} again`));
+
+    expect(await readAllFiles(paths.memosDirPath)).not.toContain('hunter2');
+    expect((await readFile(path.join(paths.imagesDirPath, `${image.id}.png`))).includes(PNG_IMAGE)).toBe(false);
+    expect((await loadMemo(paths, activeMemoId)).doc).toEqual(textDoc(`${SECRET} again`));
+
+    // A fresh start sees an encrypted vault and stays locked until the passphrase is entered.
+    const restarted = createStoragePaths(root);
+    expect(await openVault(restarted)).toEqual({ enabled: true, locked: true });
+    await expect(loadMemo(restarted, activeMemoId)).rejects.toBeInstanceOf(StorageLockedError);
+    await expect(saveMemo(restarted, activeMemoId, textDoc('plaintext'))).rejects.toBeInstanceOf(StorageLockedError);
+    await expect(unlockVault(restarted, 'wrong horse')).rejects.toThrow('Wrong passphrase.');
+
+    expect(await unlockVault(restarted, 'correct horse')).toEqual({ enabled: true, locked: false });
+    expect((await loadMemo(restarted, activeMemoId)).doc).toEqual(textDoc(`${SECRET} again`));
+    const imageFile = await findImageFile(restarted.imagesDirPath, image.id);
+    expect((await readStoredFile(restarted, imageFile?.filePath ?? '')).equals(PNG_IMAGE)).toBe(true);
+    expect((await listMemoSnapshots(restarted, activeMemoId)).length).toBeGreaterThan(0);
+
+    lockVault(restarted);
+    await expect(loadMemo(restarted, activeMemoId)).rejects.toBeInstanceOf(StorageLockedError);
+  });
+
+  it('rejects a tampered memo without overwriting it', async () => {
+    const root = await tempRoot();
+    const paths = createStoragePaths(root);
+    const { activeMemoId } = await listMemos(paths);
+    await enableEncryption(paths, 'correct horse');
+    await saveMemo(paths, activeMemoId, textDoc(SECRET));
+
+    const memoFilePath = memoPathForId(paths, activeMemoId);
+    const sealed = await readFile(memoFilePath);
+    sealed[sealed.length - 1] ^= 0xff;
+    await writeFile(memoFilePath, sealed);
+
+    await expect(loadMemo(paths, activeMemoId)).rejects.toThrow('damaged or have been modified');
+    await expect(saveMemo(paths, activeMemoId, textDoc('replacement'))).rejects.toThrow('damaged or have been modified');
+    expect((await readFile(memoFilePath)).equals(sealed)).toBe(true);
+  });
+
+  it('re-encrypts everything when the passphrase changes and decrypts it when turned off', async () => {
+    const root = await tempRoot();
+    const paths = createStoragePaths(root);
+    const { activeMemoId } = await listMemos(paths);
+    await enableEncryption(paths, 'correct horse');
+    await saveMemo(paths, activeMemoId, textDoc(SECRET));
+
+    await expect(changePassphrase(paths, 'wrong horse', 'battery staple')).rejects.toThrow('Wrong passphrase.');
+    await expect(changePassphrase(paths, 'correct horse', 'short')).rejects.toThrow('at least 8 characters');
+    await changePassphrase(paths, 'correct horse', 'battery staple');
+
+    const restarted = createStoragePaths(root);
+    await openVault(restarted);
+    await expect(unlockVault(restarted, 'correct horse')).rejects.toThrow('Wrong passphrase.');
+    await unlockVault(restarted, 'battery staple');
+    expect((await loadMemo(restarted, activeMemoId)).doc).toEqual(textDoc(SECRET));
+
+    expect(await disableEncryption(restarted, 'battery staple')).toEqual({ enabled: false, locked: false });
+    expect(await readFile(memoPathForId(restarted, activeMemoId), 'utf8')).toContain('hunter2');
+    expect(await openVault(createStoragePaths(root))).toEqual({ enabled: false, locked: false });
+  });
+
+  it('holds saves until every file is re-encrypted', async () => {
+    const root = await tempRoot();
+    const paths = createStoragePaths(root);
+    const { activeMemoId } = await listMemos(paths);
+    await saveMemo(paths, activeMemoId, textDoc('before'));
+    await mkdir(paths.imagesDirPath, { recursive: true });
+    for (let index = 0; index < 300; index += 1) {
+      await writeFile(path.join(paths.imagesDirPath, `filler-${index}.png`), PNG_IMAGE);
+    }
+
+    const memoFilePath = memoPathForId(paths, activeMemoId);
+    const finished: string[] = [];
+    const enabling = enableEncryption(paths, 'correct horse').then(() => finished.push('enable'));
+    // Memos are re-encrypted before images, so this saves while the images are still being rewritten.
+    while (!isSealed(await readFile(memoFilePath))) {
+      await new Promise((resolve) => setTimeout(resolve, 1));
+    }
+    const saving = saveMemo(paths, activeMemoId, textDoc('during')).then(() => finished.push('save'));
+    await Promise.all([enabling, saving]);
+
+    expect(finished).toEqual(['enable', 'save']);
+    expect(isSealed(await readFile(memoFilePath))).toBe(true);
+    expect((await loadMemo(paths, activeMemoId)).doc).toEqual(textDoc('during'));
+  });
+
+  it('rejects unencrypted files once encryption is fully on, but finishes an interrupted run', async () => {
+    const root = await tempRoot();
+    const paths = createStoragePaths(root);
+    const { activeMemoId } = await listMemos(paths);
+    await saveMemo(paths, activeMemoId, textDoc(SECRET));
+    const memoFilePath = memoPathForId(paths, activeMemoId);
+    const plaintext = await readFile(memoFilePath);
+    await enableEncryption(paths, 'correct horse');
+
+    await writeFile(memoFilePath, plaintext);
+    await expect(loadMemo(paths, activeMemoId)).rejects.toThrow('not encrypted although encryption is on');
+
+    // As left behind by a run that stopped after writing the config.
+    const config = JSON.parse(await readFile(paths.encryptionConfigFilePath, 'utf8')) as Record<string, unknown>;
+    await writeFile(paths.encryptionConfigFilePath, JSON.stringify({ ...config, resealPending: true }));
+    const restarted = createStoragePaths(root);
+    await openVault(restarted);
+    await unlockVault(restarted, 'correct horse');
+
+    expect((await loadMemo(restarted, activeMemoId)).doc).toEqual(textDoc(SECRET));
+    expect(isSealed(await readFile(memoFilePath))).toBe(true);
+    expect(JSON.parse(await readFile(paths.encryptionConfigFilePath, 'utf8'))).toMatchObject({ resealPending: false });
+  });
+});
@@ -0,0 +1,106 @@
+import { mkdtemp, rm, writeFile } from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import { afterEach, describe, expect, it } from 'vitest';
+import {
+  clampBoundsToDisplays,
+  loadNoteWindowStates,
+  loadWindowState,
+  MIN_WINDOW_OPACITY,
+  noteWindowStatePathFor,
+  saveNoteWindowStates,
+  saveWindowState,
+  windowStatePathFor
+} from '../electron/windowState';
+import type { DisplayArea, NoteWindowStates, WindowState } from '../electron/windowState';
+
+const tempRoots: string[] = [];
+
+const laptop: DisplayArea = { id: 1, workArea: { x: 0, y: 25, width: 1440, height: 875 } };
+const monitor: DisplayArea = { id: 2, workArea: { x: 1440, y: 0, width: 2560, height: 1440 } };
+
+async function tempStatePath() {
+  const root = await mkdtemp(path.join(os.tmpdir(), 'always-memo-window-'));
+  tempRoots.push(root);
+  return windowStatePathFor(root);
+}
+
+afterEach(async () => {
+  while (tempRoots.length > 0) {
+    const root = tempRoots.pop();
+    if (root) {
+      await rm(root, { recursive: true, force: true });
+    }
+  }
+});
+
+describe('window state', () => {
+  it('round-trips saved state and ignores invalid files', async () => {
+    const filePath = await tempStatePath();
+    const state: WindowState = {
+      bounds: { x: 1600, y: 100, width: 420, height: 640 },
+      displayId: 2,
+      zoomFactor: 1.2,
+      alwaysOnTop: false,
+      opacity: 0.6,
+      clickThrough: true
+    };
+
+    expect(await loadWindowState(filePath)).toBeNull();
+    await saveWindowState(filePath, state);
+    expect(await loadWindowState(filePath)).toEqual(state);
+
+    await writeFile(filePath, JSON.stringify({ ...state, bounds: { x: 0, y: 0, width: -1, height: 10 } }), 'utf8');
+    expect(await loadWindowState(filePath)).toBeNull();
+  });
+
+  it('loads state saved before opacity and click-through, and clamps opacity', async () => {
+    const filePath = await tempStatePath();
+    const saved = { bounds: { x: 0, y: 25, width: 420, height: 640 }, displayId: 1, zoomFactor: 1, alwaysOnTop: true };
+
+    await writeFile(filePath, JSON.stringify({ version: 1, ...saved }), 'utf8');
+    expect(await loadWindowState(filePath)).toEqual({ ...saved, opacity: 1, clickThrough: false });
+
+    await writeFile(filePath, JSON.stringify({ version: 1, ...saved, opacity: 0.01, clickThrough: 'yes' }), 'utf8');
+    expect(await loadWindowState(filePath)).toEqual({ ...saved, opacity: MIN_WINDOW_OPACITY, clickThrough: false });
+  });
+
+  it('keeps a state per note window and drops invalid entries', async () => {
+    const filePath = noteWindowStatePathFor(path.dirname(await tempStatePath()));
+    const note = {
+      bounds: { x: 860, y: 120, width: 300, height: 320 },
+      displayId: 1,
+      zoomFactor: 1,
+      alwaysOnTop: true,
+      opacity: 0.8,
+      clickThrough: false
+    };
+    const states: NoteWindowStates = {
+      '0b6e1f3a-1c2d-4e5f-8a9b-0c1d2e3f4a5b': { ...note, open: true },
+      '7f1e2d3c-4b5a-4968-8776-655443322110': { ...note, opacity: 1, open: false }
+    };
+
+    expect(await loadNoteWindowStates(filePath)).toEqual({});
+    await saveNoteWindowStates(filePath, states);
+    expect(await loadNoteWindowStates(filePath)).toEqual(states);
+
+    const notes = { '../memo': { ...note, open: true }, 'abc-123': { open: true }, 'def-456': note };
+    await writeFile(filePath, JSON.stringify({ version: 1, notes }), 'utf8');
+    expect(await loadNoteWindowStates(filePath)).toEqual({ 'def-456': { ...note, open: false } });
+  });
+
+  it('keeps bounds that are visible on their display', () => {
+    const bounds = { x: 1600, y: 100, width: 420, height: 640 };
+    expect(clampBoundsToDisplays(bounds, 2, [laptop, monitor], 1)).toEqual({ bounds, displayId: 2 });
+  });
+
+  it('moves a window from a disconnected monitor onto the primary display', () => {
+    const result = clampBoundsToDisplays({ x: 3800, y: 1200, width: 420, height: 640 }, 2, [laptop], 1);
+    expect(result).toEqual({ displayId: 1, bounds: { x: 1020, y: 260, width: 420, height: 640 } });
+  });
+
+  it('shrinks a window that is larger than the work area', () => {
+    const result = clampBoundsToDisplays({ x: -50, y: 0, width: 2000, height: 1200 }, null, [laptop], 1);
+    expect(result).toEqual({ displayId: 1, bounds: { x: 0, y: 25, width: 1440, height: 875 } });
+  });
+});